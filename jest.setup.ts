@@ -1,4 +1,3 @@
-import '@testing-library/jest-dom';   // if you ever add DOM tests
 import 'jest-extended';              // richer matchers
 
 jest.setTimeout(15_000);             // generous async limit
@@ -68,6 +68,7 @@ export type PlusUtmMedium =
 export enum ChatModels {
 	GPT_41 = "gpt-4.1",
 	GPT_4o = "gpt-4o",
+	GPT_4o_mini = "gpt-4o-mini",
 	GPT_41_mini = "gpt-4.1-mini",
 	GPT_41_nano = "gpt-4.1-nano",
 }
@@ -117,6 +118,27 @@ export enum EmbeddingModels {
 // Embedding Models
 export const NOMIC_EMBED_TEXT = "nomic-embed-text";
 
+// Embedding providers that speak the OpenAI /embeddings protocol
+export const SUPPORTED_EMBEDDING_PROVIDERS = [
+	EmbeddingModelProviders.OPENAI,
+	EmbeddingModelProviders.OLLAMA,
+	EmbeddingModelProviders.LM_STUDIO,
+	EmbeddingModelProviders.OPENAI_FORMAT,
+];
+
+export const EMBEDDING_PROVIDER_BASE_URLS: Partial<Record<EmbeddingModelProviders, string>> = {
+	[EmbeddingModelProviders.OPENAI]: "https://api.openai.com/v1",
+	[EmbeddingModelProviders.OLLAMA]: "http://localhost:11434/v1",
+	[EmbeddingModelProviders.LM_STUDIO]: "http://localhost:1234/v1",
+};
+
+// Providers where the API key is optional
+export const KEYLESS_EMBEDDING_PROVIDERS = [
+	EmbeddingModelProviders.OLLAMA,
+	EmbeddingModelProviders.LM_STUDIO,
+	EmbeddingModelProviders.OPENAI_FORMAT,
+];
+
 export type Provider = ChatModelProviders | EmbeddingModelProviders;
 
 export enum VAULT_VECTOR_STORE_STRATEGY {
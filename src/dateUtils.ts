@@ -1,42 +1,170 @@
 import type { MetadataCondition } from "./types";
 
+export interface DateRange {
+    startDate: Date;
+    endDate: Date;
+}
+
+// Open ends of a range, e.g. "before 2024-03" has no start
+const EARLIEST = new Date(-8.64e15);
+const LATEST = new Date(8.64e15);
+
+const UNIT_PATTERN = "(day|week|month|year)s?";
+
 /**
  * Calculates a date range based on a meadata field and metadata condition.
- * @param dateCondition - A string like "today", "yesterday", "last_7_days", etc.
+ * @param metadataCondition - How the note's date relates to the value ("is" means within it).
+ * @param dateValue - A date expression: "2024-03-05", "2024-03", "2024", "today", "yesterday",
+ * "last 7 days", "this week", "last month", "before 2024-03", "after 2024-01-15", "since 2024",
+ * or a range "2024-01-01..2024-02-15" / "2024-01 to 2024-03".
  * @returns An object with startDate and endDate as Date objects, or null if condition is invalid.
  */
-export function getDateRangeForQuery(metadataCondition: MetadataCondition, dateValue: string): { startDate: Date; endDate: Date } | null {
-    const startDate = new Date(dateValue);
-    const endDate = new Date(dateValue);
+export function getDateRangeForQuery(metadataCondition: MetadataCondition, dateValue: string): DateRange | null {
+    const range = parseDateExpression(dateValue);
+    if (!range) {
+        console.warn(`Unknown date expression: ${dateValue}`);
+        return null;
+    }
 
     switch (metadataCondition) {
         case "is":
-            startDate.setHours(0, 0, 0, 0);
-            endDate.setHours(23, 59, 59, 999);
-            break;
-        // case ">":
-        //     startDate.setDate(now.getDate() - 1);
-        //     startDate.setHours(0, 0, 0, 0);
-        //     endDate.setDate(now.getDate() - 1);
-        //     endDate.setHours(23, 59, 59, 999);
-        //     break;
-        // case "last_7_days":
-        //     startDate.setDate(now.getDate() - 6); // Includes today, so 6 days back + today = 7 days
-        //     startDate.setHours(0, 0, 0, 0);
-        //     endDate.setHours(23, 59, 59, 999); // End of today
-        //     break;
-        // case "this_week":
-        //     // Assuming week starts on Sunday
-        //     const dayOfWeek = now.getDay(); // 0 (Sun) to 6 (Sat)
-        //     startDate.setDate(now.getDate() - dayOfWeek);
-        //     startDate.setHours(0, 0, 0, 0);
-        //     // End of this week (Saturday)
-        //     endDate.setDate(startDate.getDate() + 6);
-        //     endDate.setHours(23, 59, 59, 999);
-        //     break;
+            return range;
+        case ">":
+            return { startDate: new Date(range.endDate.getTime() + 1), endDate: LATEST };
+        case ">=":
+            return { startDate: range.startDate, endDate: LATEST };
+        case "<":
+            return { startDate: EARLIEST, endDate: new Date(range.startDate.getTime() - 1) };
+        case "<=":
+            return { startDate: EARLIEST, endDate: range.endDate };
         default:
             console.warn(`Unknown date condition: ${metadataCondition}`);
             return null;
     }
-    return { startDate, endDate };
+}
+
+/**
+ * Whether a range end is open (unbounded)
+ */
+export function isOpenDate(date: Date): boolean {
+    return date.getTime() === EARLIEST.getTime() || date.getTime() === LATEST.getTime();
+}
+
+/**
+ * Parse a date expression into the local-time range it covers
+ */
+export function parseDateExpression(expression: string, now: Date = new Date()): DateRange | null {
+    const value = expression.trim().toLowerCase().replace(/\s+/g, " ");
+    if (!value) return null;
+
+    // Explicit ranges
+    const rangeMatch = value.match(/^(.+?)\s*(?:\.\.|\bto\b)\s*(.+)$/);
+    if (rangeMatch) {
+        const from = parseDateExpression(rangeMatch[1], now);
+        const to = parseDateExpression(rangeMatch[2], now);
+        return from && to ? { startDate: from.startDate, endDate: to.endDate } : null;
+    }
+
+    // Open ranges
+    const openMatch = value.match(/^(before|after|since|until|from) (.+)$/);
+    if (openMatch) {
+        const anchor = parseDateExpression(openMatch[2], now);
+        if (!anchor) return null;
+        switch (openMatch[1]) {
+            case "before":
+                return { startDate: EARLIEST, endDate: new Date(anchor.startDate.getTime() - 1) };
+            case "after":
+                return { startDate: new Date(anchor.endDate.getTime() + 1), endDate: LATEST };
+            case "until":
+                return { startDate: EARLIEST, endDate: anchor.endDate };
+            default: // since, from
+                return { startDate: anchor.startDate, endDate: LATEST };
+        }
+    }
+
+    if (value === "today") return dayRange(now, 0);
+    if (value === "yesterday") return dayRange(now, -1);
+
+    // "last 7 days", "past 2 weeks": rolling window ending today
+    const rollingMatch = value.match(new RegExp(`^(?:last|past) (\\d+) ${UNIT_PATTERN}$`));
+    if (rollingMatch) {
+        const amount = parseInt(rollingMatch[1], 10);
+        const startDate = shift(startOfDay(now), rollingMatch[2], -amount);
+        startDate.setDate(startDate.getDate() + 1); // Today counts as the first day
+        return { startDate, endDate: endOfDay(now) };
+    }
+
+    // "this week", "last month": calendar periods
+    const periodMatch = value.match(/^(this|last|previous) (week|month|year)$/);
+    if (periodMatch) {
+        const start = startOfPeriod(now, periodMatch[2]);
+        const periodStart = periodMatch[1] === "this" ? start : shift(start, periodMatch[2], -1);
+        return {
+            startDate: periodStart,
+            endDate: new Date(shift(periodStart, periodMatch[2], 1).getTime() - 1),
+        };
+    }
+
+    // Absolute dates: YYYY, YYYY-MM, YYYY-MM-DD
+    const absoluteMatch = value.match(/^(\d{4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?$/);
+    if (absoluteMatch) {
+        const year = parseInt(absoluteMatch[1], 10);
+        const month = absoluteMatch[2] ? parseInt(absoluteMatch[2], 10) - 1 : null;
+        const day = absoluteMatch[3] ? parseInt(absoluteMatch[3], 10) : null;
+        if (month !== null && (month < 0 || month > 11)) return null;
+
+        if (day !== null) {
+            return dayRange(new Date(year, month as number, day), 0);
+        }
+        if (month !== null) {
+            return { startDate: new Date(year, month, 1), endDate: new Date(new Date(year, month + 1, 1).getTime() - 1) };
+        }
+        return { startDate: new Date(year, 0, 1), endDate: new Date(new Date(year + 1, 0, 1).getTime() - 1) };
+    }
+
+    // Anything else Date can parse, taken as a single day
+    const parsed = new Date(expression);
+    return isNaN(parsed.getTime()) ? null : dayRange(parsed, 0);
+}
+
+function dayRange(date: Date, offsetDays: number): DateRange {
+    const day = new Date(date);
+    day.setDate(day.getDate() + offsetDays);
+    return { startDate: startOfDay(day), endDate: endOfDay(day) };
+}
+
+function startOfDay(date: Date): Date {
+    const start = new Date(date);
+    start.setHours(0, 0, 0, 0);
+    return start;
+}
+
+function endOfDay(date: Date): Date {
+    const end = new Date(date);
+    end.setHours(23, 59, 59, 999);
+    return end;
+}
+
+/**
+ * Start of the calendar week (Monday), month or year containing the date
+ */
+function startOfPeriod(date: Date, unit: string): Date {
+    const start = startOfDay(date);
+    if (unit === "week") {
+        start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+    } else if (unit === "month") {
+        start.setDate(1);
+    } else {
+        start.setMonth(0, 1);
+    }
+    return start;
+}
+
+function shift(date: Date, unit: string, amount: number): Date {
+    const shifted = new Date(date);
+    if (unit === "day") shifted.setDate(shifted.getDate() + amount);
+    else if (unit === "week") shifted.setDate(shifted.getDate() + amount * 7);
+    else if (unit === "month") shifted.setMonth(shifted.getMonth() + amount);
+    else shifted.setFullYear(shifted.getFullYear() + amount);
+    return shifted;
 }
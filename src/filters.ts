@@ -1,5 +1,13 @@
 // src/filters.ts
-import type { MetadataField, MetadataCondition } from "./types";
+import { getAllTags } from "obsidian";
+import type { App } from "obsidian";
+import type {
+	MetadataField,
+	MetadataCondition,
+	MetadataFilter,
+	MetadataFilterExpression,
+} from "./types";
+import { getDateRangeForQuery, isOpenDate } from "./dateUtils";
 
 export interface FilterSignature {
 	id: string; // Unique key for this filter signature
@@ -9,45 +17,338 @@ export interface FilterSignature {
 	field: MetadataField; // The metadata field this filter
 	condition: MetadataCondition; // The condition to apply for this filter
 	valueSuggestions: Record<string, () => string>; // The value suggestions for this filter
+	valueSource?: (app: App) => string[]; // Values drawn from the vault, e.g. tags or folders
 }
 
+const isoDate = (offsetDays: number) =>
+	new Date(new Date().setDate(new Date().getDate() + offsetDays))
+		.toISOString()
+		.split("T")[0];
+
+// Date expressions understood by getDateRangeForQuery
+const DATE_VALUE_SUGGESTIONS: Record<string, () => string> = {
+	Today: () => isoDate(0), // return the ISO date of today,
+	Yesterday: () => isoDate(-1), // return the ISO date of yesterday
+	"Last 7 days": () => "last 7 days",
+	"Last 30 days": () => "last 30 days",
+	"This week": () => "this week",
+	"Last week": () => "last week",
+	"This month": () => "this month",
+	"Last month": () => "last month",
+	"This year": () => "this year",
+	"Before date": () => "before ",
+	"After date": () => "after ",
+	"Date range": () => `${isoDate(-7)}..${isoDate(0)}`,
+	"Specific Date": () => "",
+};
+
 export const AVAILABLE_FILTERS: FilterSignature[] = [
 	{
 		id: "created_on_date",
-		triggerKeywords: ["created on", "cdate", "created date"],
-		suggestionDisplay: "➕ Created: On specific date", // Indicates more input needed
+		triggerKeywords: ["created on", "cdate", "created date", "created"],
+		suggestionDisplay: "➕ Created: On date or in range", // Indicates more input needed
 		emoji: "➕",
 		field: "createdAt",
 		condition: "is",
-		valueSuggestions: {
-			Today: () => new Date().toISOString().split("T")[0], // return the ISO date of today,
-			Yesterday: () =>
-				new Date(new Date().setDate(new Date().getDate() - 1))
-					.toISOString()
-					.split("T")[0], // return the ISO date of yesterday
-			"Specific Date": () => "",
-		},
+		valueSuggestions: DATE_VALUE_SUGGESTIONS,
 		// valueType: "specific_date",
 	},
 	{
 		id: "modified_on_date",
-		triggerKeywords: ["modified on", "mdate", "modified date"],
-		suggestionDisplay: "📝 Modified: On specific date", // Indicates more input needed
+		triggerKeywords: ["modified on", "mdate", "modified date", "modified", "updated"],
+		suggestionDisplay: "📝 Modified: On date or in range", // Indicates more input needed
 		emoji: "📝",
 		field: "modifiedAt",
 		condition: "is",
+		valueSuggestions: DATE_VALUE_SUGGESTIONS,
+	},
+	{
+		id: "tagged",
+		triggerKeywords: ["tag", "tagged", "hashtag"],
+		suggestionDisplay: "🏷️ Tag: Notes with a tag",
+		emoji: "🏷️",
+		field: "tags",
+		condition: "contains",
+		valueSuggestions: {},
+		valueSource: (app) => {
+			// Most used first
+			const counts = new Map<string, number>();
+			for (const file of app.vault.getMarkdownFiles()) {
+				const cache = app.metadataCache.getFileCache(file);
+				for (const tag of new Set((cache && getAllTags(cache)) || [])) {
+					counts.set(tag, (counts.get(tag) || 0) + 1);
+				}
+			}
+			return [...counts.entries()]
+				.sort((a, b) => b[1] - a[1])
+				.map(([tag]) => tag);
+		},
+	},
+	{
+		id: "in_folder",
+		triggerKeywords: ["folder", "path", "in folder", "directory"],
+		suggestionDisplay: "📁 Folder: Notes under a folder or path prefix",
+		emoji: "📁",
+		field: "folder",
+		condition: "startsWith",
+		valueSuggestions: {},
+		valueSource: (app) =>
+			app.vault
+				.getAllLoadedFiles()
+				.filter((file) => "children" in file && file.path !== "/")
+				.map((file) => file.path)
+				.sort(),
+	},
+	{
+		id: "frontmatter_property",
+		triggerKeywords: ["property", "frontmatter", "field", "yaml"],
+		suggestionDisplay: "🧾 Property: Frontmatter comparison (key=value, key>3, key!=x, key)",
+		emoji: "🧾",
+		field: "frontmatter",
+		condition: "is",
+		valueSuggestions: {},
+		valueSource: (app) => {
+			const keys = new Set<string>();
+			for (const file of app.vault.getMarkdownFiles()) {
+				const frontmatter = app.metadataCache.getFileCache(file)?.frontmatter;
+				Object.keys(frontmatter || {})
+					.filter((key) => key !== "position")
+					.forEach((key) => keys.add(key));
+			}
+			return [...keys].sort().map((key) => `${key}=`);
+		},
+	},
+	{
+		id: "links_to",
+		triggerKeywords: ["links to", "linking", "link to", "references"],
+		suggestionDisplay: "🔗 Links to: Notes linking to a note",
+		emoji: "🔗",
+		field: "linksTo",
+		condition: "is",
+		valueSuggestions: {},
+		valueSource: markdownBasenames,
+	},
+	{
+		id: "linked_from",
+		triggerKeywords: ["linked from", "backlink", "link from", "outgoing"],
+		suggestionDisplay: "📎 Linked from: Notes a note links to",
+		emoji: "📎",
+		field: "linkedFrom",
+		condition: "is",
+		valueSuggestions: {},
+		valueSource: markdownBasenames,
+	},
+	{
+		id: "file_type",
+		triggerKeywords: ["type", "file type", "extension", "format"],
+		suggestionDisplay: "📄 File type: By extension",
+		emoji: "📄",
+		field: "fileType",
+		condition: "is",
+		// Only Markdown notes are indexed (see VaultIndexer), so no other type can match
 		valueSuggestions: {
-			Today: () => new Date().toISOString().split("T")[0], // return the ISO date of today,
-			Yesterday: () =>
-				new Date(new Date().setDate(new Date().getDate() - 1))
-					.toISOString()
-					.split("T")[0], // return the ISO date of yesterday
-			"Specific Date": () => "",
+			Markdown: () => "md",
 		},
 	},
 ];
 
+export interface FilterOperator {
+	keyword: string; // What the user types, e.g. "OR"
+	insertText: string; // Text inserted on selection
+	symbol: string; // Shown in the suggestion list
+	description: string;
+	followsOperator: boolean; // Also offered right after AND/OR, not only after a filter
+}
+
+// Boolean operators for combining emoji filters, see parseFiltersFromPrompt
+export const FILTER_OPERATORS: FilterOperator[] = [
+	{ keyword: "AND", insertText: "AND ", symbol: "∧", description: "Both conditions must match", followsOperator: false },
+	{ keyword: "OR", insertText: "OR ", symbol: "∨", description: "Either condition may match", followsOperator: false },
+	{ keyword: "NOT", insertText: "NOT ", symbol: "¬", description: "Exclude the next condition", followsOperator: true },
+	{ keyword: "(", insertText: "()", symbol: "( )", description: "Group conditions", followsOperator: true },
+];
+
+function markdownBasenames(app: App): string[] {
+	return app.vault
+		.getMarkdownFiles()
+		.sort((a, b) => b.stat.mtime - a.stat.mtime)
+		.map((file) => file.basename);
+}
+
 // Helper to find a filter by its emoji (for the parser)
 export function findFilterByEmoji(emoji: string): FilterSignature | undefined {
-	return AVAILABLE_FILTERS.find((f) => f.emoji === emoji);
+	const normalized = emoji.replace(/\uFE0F/g, "");
+	return AVAILABLE_FILTERS.find((f) => f.emoji.replace(/\uFE0F/g, "") === normalized);
+}
+
+/**
+ * Parse a frontmatter filter value ("status=done", "priority>=2", "draft") into
+ * its property, condition and comparison value
+ */
+export function parseFrontmatterValue(
+	value: string
+): { property: string; condition: MetadataCondition; value: string } | null {
+	const match = value.trim().match(/^([^=!<>:]+?)\s*(!=|>=|<=|=|:|>|<)\s*(.*)$/);
+	if (!match) {
+		const property = value.trim();
+		return property ? { property, condition: "exists", value: "" } : null;
+	}
+
+	const operator = match[2] === "=" || match[2] === ":" ? "is" : (match[2] as MetadataCondition);
+	return { property: match[1].trim(), condition: operator, value: match[3].trim() };
+}
+
+const CONDITION_OPERATORS: Partial<Record<MetadataCondition, string>> = {
+	"!=": "$ne",
+	">": "$gt",
+	">=": "$gte",
+	"<": "$lt",
+	"<=": "$lte",
+	contains: "$contains",
+	startsWith: "$startsWith",
+	endsWith: "$endsWith",
+	in: "$in",
+};
+
+/**
+ * Translate parsed filters into the vector store's filter object. Every filter
+ * becomes one clause; a list of filters is combined with `$and`, an expression
+ * maps onto `$and`/`$or`/`$not`. Link filters are resolved against the
+ * metadata cache into explicit path lists.
+ */
+export function toVectorStoreFilter(
+	filters: MetadataFilter[] | MetadataFilterExpression,
+	app?: App
+): Record<string, any> | undefined {
+	if (!Array.isArray(filters)) {
+		return compileExpression(filters, app) || undefined;
+	}
+
+	const clauses = filters
+		.map((filter) => toFilterClause(filter, app))
+		.filter((clause): clause is Record<string, any> => clause !== null);
+
+	if (clauses.length === 0) return undefined;
+	return clauses.length === 1 ? clauses[0] : { $and: clauses };
+}
+
+function compileExpression(
+	expression: MetadataFilterExpression,
+	app?: App
+): Record<string, any> | null {
+	switch (expression.type) {
+		case "filter":
+			return toFilterClause(expression.filter, app);
+		case "not": {
+			const child = compileExpression(expression.child, app);
+			return child ? { $not: child } : null;
+		}
+		default: {
+			// Untranslatable filters were already reported; drop them from the group
+			const children = expression.children
+				.map((child) => compileExpression(child, app))
+				.filter((child): child is Record<string, any> => child !== null);
+			if (children.length === 0) return null;
+			return children.length === 1 ? children[0] : { [`$${expression.type}`]: children };
+		}
+	}
+}
+
+function toFilterClause(filter: MetadataFilter, app?: App): Record<string, any> | null {
+	const value = filter.value.trim();
+	const condition = filter.condition || "is";
+
+	switch (filter.field) {
+		case "createdAt":
+		case "modifiedAt": {
+			const range = getDateRangeForQuery(condition, value);
+			if (!range) return null;
+			const bounds: Record<string, number> = {};
+			if (!isOpenDate(range.startDate)) bounds.$gte = range.startDate.getTime();
+			if (!isOpenDate(range.endDate)) bounds.$lte = range.endDate.getTime();
+			return { [filter.field === "createdAt" ? "createdTime" : "modifiedTime"]: bounds };
+		}
+
+		case "tags": {
+			const tags = value.split(/[\s,]+/).filter(Boolean);
+			if (tags.length === 0) return null;
+			const normalized = tags.map((tag) => (tag.startsWith("#") ? tag : `#${tag}`));
+			return normalized.length === 1
+				? { tags: { $contains: normalized[0] } }
+				: { $and: normalized.map((tag) => ({ tags: { $contains: tag } })) };
+		}
+
+		case "folder": {
+			const folder = value.replace(/^\/+|\/+$/g, "");
+			return folder ? { filePath: { $startsWith: `${folder}/` } } : null;
+		}
+
+		case "fileType": {
+			const extension = value.replace(/^\./, "").toLowerCase();
+			return extension ? { filePath: { $endsWith: `.${extension}` } } : null;
+		}
+
+		case "frontmatter": {
+			const parsed = filter.property
+				? { property: filter.property, condition, value }
+				: parseFrontmatterValue(value);
+			if (!parsed) return null;
+			if (parsed.condition === "exists") return { [parsed.property]: { $exists: true } };
+			return { [parsed.property]: toOperand(parsed.condition, coerce(parsed.value)) };
+		}
+
+		case "linksTo":
+		case "linkedFrom": {
+			if (!app) return null;
+			return { filePath: { $in: resolveLinkedPaths(app, filter.field, value) } };
+		}
+
+		case "basename": {
+			// [[filename]] mentions name a note; match it exactly when the link resolves.
+			// A heading or alias ([[note#heading|alias]]) isn't part of the note's name
+			const linkpath = value.split("|")[0].split("#")[0].trim();
+			const note = app?.metadataCache.getFirstLinkpathDest(linkpath, "");
+			return note ? { filePath: note.path } : { fileName: toOperand(condition, linkpath) };
+		}
+
+		case "fileName":
+			return { fileName: toOperand(condition, value) };
+
+		case "source":
+			return { filePath: toOperand(condition, value) };
+
+		default:
+			return null;
+	}
+}
+
+function toOperand(condition: MetadataCondition, value: unknown): unknown {
+	const operator = CONDITION_OPERATORS[condition];
+	return operator ? { [operator]: value } : value;
+}
+
+/**
+ * Frontmatter values are typed; compare numbers and booleans as such
+ */
+function coerce(value: string): string | number | boolean {
+	if (value === "true" || value === "false") return value === "true";
+	if (value !== "" && !isNaN(Number(value))) return Number(value);
+	return value.replace(/^["']|["']$/g, "");
+}
+
+/**
+ * Paths of notes linking to the target ("linksTo") or linked from the source ("linkedFrom")
+ */
+function resolveLinkedPaths(app: App, field: "linksTo" | "linkedFrom", noteName: string): string[] {
+	const linkText = noteName.replace(/^\[\[|\]\]$/g, "").trim();
+	const note = app.metadataCache.getFirstLinkpathDest(linkText, "");
+	if (!note) return [];
+
+	const resolvedLinks = app.metadataCache.resolvedLinks || {};
+	if (field === "linkedFrom") {
+		return Object.keys(resolvedLinks[note.path] || {});
+	}
+	return Object.entries(resolvedLinks)
+		.filter(([, targets]) => note.path in targets)
+		.map(([source]) => source);
 }
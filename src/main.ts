@@ -1,4 +1,4 @@
-import { Notice, Plugin, WorkspaceLeaf } from "obsidian";
+import { debounce, Notice, Plugin, TFile, WorkspaceLeaf } from "obsidian";
 import {
 	COMMAND_IDS,
 	COMMAND_NAMES,
@@ -12,8 +12,11 @@ import ReactDOM from "react-dom/client";
 import { ItemView } from "obsidian";
 import ChatViewComponent from "./ui/ChatView";
 import { SharedState } from "./state/SharedState";
+import type { ChatConversation } from "./state/SharedState";
+import { ConversationNoteStore } from "./state/ConversationNoteStore";
 import { Providers } from "./state/contexts";
 import SettingsTab from "./ui/SettingsTab";
+import { ChangeHistoryModal, undoAgentChange } from "./ui/ChangeHistoryModal";
 
 export default class IntelligencePlugin extends Plugin {
 	settings!: IntelligencePluginSettings;
@@ -47,11 +50,50 @@ export default class IntelligencePlugin extends Plugin {
 				COMMAND_NAMES["reindex-vault-intelligence"] ||
 				"Reinitialize Intelligence (Reindex Vault)",
 			callback: async () => {
-				// Multi-agent system uses local embeddings, no API key required
+				// Re-initialization reconciles only the notes changed since the last index
 				await this.intelligenceService.reInitialize();
 			},
 		});
 
+		// Command to rebuild the offline TF-IDF model from the current vault
+		this.addCommand({
+			id: "rebuild-tfidf-model",
+			name: "Rebuild TF-IDF Model (Offline Search)",
+			callback: async () => {
+				await this.intelligenceService.rebuildTfIdfIndex();
+			},
+		});
+
+		// Command to continue a conversation saved as a note
+		this.addCommand({
+			id: "open-chat-note-as-conversation",
+			name: "Continue Chat From Current Note",
+			checkCallback: (checking: boolean) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || !this.getConversationNoteStore().isConversationNote(file)) {
+					return false;
+				}
+				if (!checking) {
+					void this.openConversationNote(file);
+				}
+				return true;
+			},
+		});
+
+		this.registerEvent(
+			this.app.workspace.on("file-menu", (menu, file) => {
+				if (!(file instanceof TFile) || !this.getConversationNoteStore().isConversationNote(file)) {
+					return;
+				}
+				menu.addItem((item) =>
+					item
+						.setTitle("Continue chat")
+						.setIcon("messages-square")
+						.onClick(() => this.openConversationNote(file))
+				);
+			})
+		);
+
 		// Command to enable auto-approval for file operations
 		this.addCommand({
 			id: "enable-auto-approval",
@@ -70,6 +112,39 @@ export default class IntelligencePlugin extends Plugin {
 			},
 		});
 
+		// Command to roll back the files changed by the most recent agent request
+		this.addCommand({
+			id: "undo-last-agent-change",
+			name: "Undo Last Agent Change",
+			callback: async () => {
+				const journal = this.intelligenceService.getChangeJournal();
+				if (!journal) {
+					new Notice("Intelligence service not initialized.");
+					return;
+				}
+				const run = journal.getLastUndoableRun();
+				if (!run) {
+					new Notice("No agent changes to undo.");
+					return;
+				}
+				await undoAgentChange(journal, run.id);
+			},
+		});
+
+		// Command to browse and roll back past agent changes
+		this.addCommand({
+			id: "show-agent-change-history",
+			name: "Show Agent Change History",
+			callback: () => {
+				const journal = this.intelligenceService.getChangeJournal();
+				if (!journal) {
+					new Notice("Intelligence service not initialized.");
+					return;
+				}
+				new ChangeHistoryModal(this.app, journal).open();
+			},
+		});
+
 		// Command to show system status
 		this.addCommand({
 			id: "show-system-status",
@@ -111,6 +186,8 @@ export default class IntelligencePlugin extends Plugin {
 
 	onunload() {
 		this.app.workspace.detachLeavesOfType(VIEW_TYPE_INTELLIGENCE_CHAT); // Clean up the view
+		// Stop vault event listeners and flush pending index updates
+		void this.intelligenceService?.cleanup();
 		console.log("Unloading Obsidian Intelligence");
 	}
 
@@ -142,6 +219,30 @@ export default class IntelligencePlugin extends Plugin {
 		}
 	}
 
+	getConversationNoteStore(): ConversationNoteStore {
+		return new ConversationNoteStore(this.app, {
+			folder: this.settings.chatNotesFolder,
+		});
+	}
+
+	/**
+	 * Restore a saved conversation note into the chat view
+	 */
+	async openConversationNote(file: TFile) {
+		const conversation = await this.getConversationNoteStore().load(file);
+		if (!conversation) {
+			new Notice(`${file.basename} is not a saved chat.`);
+			return;
+		}
+
+		await this.activateChatView();
+		const view = this.app.workspace
+			.getLeavesOfType(VIEW_TYPE_INTELLIGENCE_CHAT)
+			.map((leaf) => leaf.view)
+			.find((view): view is ChatView => view instanceof ChatView);
+		view?.openConversation(conversation);
+	}
+
 	// Public method for IntelligenceService to update status bar
 	public updateStatusBar(text: string) {
 		if (this.statusBarItemEl) {
@@ -153,15 +254,21 @@ export default class IntelligencePlugin extends Plugin {
 	}
 
 	async loadSettings() {
-		this.settings = Object.assign(
-			{},
-			DEFAULT_SETTINGS,
-			await this.loadData()
-		);
+		// Chat state shares the data file but is owned by the chat view
+		const savedData = (await this.loadData()) || {};
+		delete savedData.chatState;
+		this.settings = Object.assign({}, DEFAULT_SETTINGS, savedData);
 	}
 
-	async saveSettings() {
-		await this.saveData(this.settings);
+	/**
+	 * Save settings; chat-only settings don't need the service re-initialized
+	 */
+	async saveSettings(reinitialize = true) {
+		const currentData = (await this.loadData()) || {};
+		await this.saveData({ ...currentData, ...this.settings });
+		if (!reinitialize) {
+			return;
+		}
 		if (
 			this.intelligenceService &&
 			this.intelligenceService.getIsInitialized()
@@ -199,7 +306,6 @@ export class ChatView extends ItemView {
 		this.icon = "messages-square";
 		this.sharedState = new SharedState();
 		this.eventTarget = new EventTarget();
-		this.loadPersistedState();
 	}
 
 	getViewType(): string {
@@ -211,6 +317,13 @@ export class ChatView extends ItemView {
 	}
 
 	async onOpen() {
+		await this.loadPersistedState();
+		// Persist conversations as they change, not only when the view closes
+		const scheduleSave = debounce(() => void this.savePersistedState(), 1000, true);
+		for (const event of ["conversationAdded", "conversationUpdated", "conversationDeleted", "currentConversationChanged"]) {
+			this.sharedState.on(event, scheduleSave);
+		}
+
 		const container = this.contentEl;
 		container.empty();
 		this.root = ReactDOM.createRoot(container);
@@ -233,7 +346,8 @@ export class ChatView extends ItemView {
 	}
 
 	async onClose() {
-		this.savePersistedState();
+		this.sharedState.removeAllListeners();
+		await this.savePersistedState();
 		if (this.root) {
 			this.root.unmount();
 			this.root = null;
@@ -265,6 +379,18 @@ export class ChatView extends ItemView {
 		}
 	}
 
+	/**
+	 * Add or refresh a conversation restored from a note and switch to it
+	 */
+	openConversation(conversation: ChatConversation) {
+		if (this.sharedState.getChatHistory().some((conv) => conv.id === conversation.id)) {
+			this.sharedState.updateConversation(conversation.id, conversation);
+		} else {
+			this.sharedState.addConversation(conversation);
+		}
+		this.sharedState.setCurrentConversationId(conversation.id);
+	}
+
 	async handleSaveChat() {
 		await this.savePersistedState();
 	}
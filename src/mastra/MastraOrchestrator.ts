@@ -1,14 +1,32 @@
 import { Mastra } from "@mastra/core";
+import type { Agent } from "@mastra/core/agent";
 import { App } from "obsidian";
 import type { AgentResponse, ChatMessage } from "./agents/types";
-import type { IntelligencePluginSettings, MetadataFilter } from "../types";
+import type {
+	IntelligencePluginSettings,
+	MetadataFilter,
+	MetadataFilterExpression,
+	PlanEdits,
+	PlanPreview,
+} from "../types";
 import { ControllerAgent } from "./agents/ControllerAgent";
+import type { VaultIndexer } from "./indexing/VaultIndexer";
+import type { SafetyManager } from "./safety/SafetyManager";
+import type { ChangeJournal } from "./safety/ChangeJournal";
+import { emptyTotals } from "./usage/UsageLedger";
+import type { UsageLedger } from "./usage/UsageLedger";
+import type { ObsidianToolsImplementation } from "./tools/ObsidianTools";
+import { toVectorStoreFilter } from "../filters";
+import { getAgentModel, getPlannerModel } from "./agents/ModelRouting";
+import { RequestContext, toRuntimeContext } from "./RequestContext";
 
 export interface MastraOrchestratorConfig {
 	app: App;
 	settings: IntelligencePluginSettings;
 	plugin: import("../main").default;
 	dataDir?: string;
+	vaultIndexer?: VaultIndexer;
+	usageLedger?: UsageLedger; // Records each model call and enforces the usage budgets
 }
 
 export interface RunOptions {
@@ -16,8 +34,14 @@ export interface RunOptions {
 	conversationId: string;
 	chatHistory: ChatMessage[];
 	metadataFilters?: MetadataFilter[];
+	filterExpression?: MetadataFilterExpression; // Boolean combination of metadataFilters, if the prompt used one
+	onToken?: (chunk: string) => void; // Streams the answer as it is generated
+	abortSignal?: AbortSignal; // Stops generation; the partial answer is returned
+	dryRun?: boolean; // Return the controller's plan for review instead of running it
 }
 
+type StreamOptions = Pick<RunOptions, "onToken" | "abortSignal">;
+
 /**
  * Wrapper class that provides a standardized interface for running Mastra agents
  * This class encapsulates the Mastra instance and provides the expected run() method
@@ -27,6 +51,7 @@ export class MastraOrchestrator {
 	private autoApprovalEnabled = false;
 	private config: MastraOrchestratorConfig;
 	private controllerAgent: ControllerAgent | null = null;
+	private toolsImplementation: ObsidianToolsImplementation | null = null;
 	private useAdvancedOrchestration = true;
 
 	constructor(mastra: Mastra, config: MastraOrchestratorConfig) {
@@ -40,12 +65,17 @@ export class MastraOrchestrator {
 	 * Uses advanced multi-agent orchestration with task planning
 	 */
 	async run(options: RunOptions): Promise<AgentResponse> {
-		const { input, conversationId, chatHistory, metadataFilters } = options;
+		const { conversationId, chatHistory, metadataFilters, onToken, abortSignal, dryRun } = options;
+		const searchFilters = options.filterExpression || metadataFilters;
+		let input = options.input;
 
 		try {
-			// Validate input
+			// Validate input; a prompt of only filters asks about the matching notes
 			if (!input || input.trim().length === 0) {
-				throw new Error("Input query cannot be empty");
+				if (!metadataFilters || metadataFilters.length === 0) {
+					throw new Error("Input query cannot be empty");
+				}
+				input = "Summarize the notes matching the selected filters.";
 			}
 
 			// Validate API key is configured
@@ -53,16 +83,41 @@ export class MastraOrchestrator {
 				throw new Error("OpenAI API key is not configured. Please set your API key in plugin settings.");
 			}
 
+			const request: RequestContext = {
+				conversationId,
+				searchFilter: this.compileSearchFilter(searchFilters),
+				onToken,
+				citations: [],
+				journalRun: this.getChangeJournal()?.createRun({ description: input, conversationId }),
+				usage: emptyTotals(),
+			};
+
 			// Use advanced orchestration if controller agent is available
 			if (this.useAdvancedOrchestration && this.controllerAgent) {
-				return await this.runWithController(input, conversationId, chatHistory, metadataFilters);
+				return await this.withUsageBudget(request, () =>
+					this.withCitations(request, () =>
+						this.runWithController(input, request, chatHistory, { onToken, abortSignal }, dryRun)
+					)
+				);
+			}
+
+			// Only the controller plans ahead, so there is nothing to preview
+			if (dryRun) {
+				throw new Error("Plan preview needs the controller agent, which is not available.");
 			}
 
 			// Fallback to original simple agent selection
 			console.warn("Advanced orchestration not available, falling back to simple agent selection");
-			return await this.runWithSimpleSelection(input, conversationId, chatHistory, metadataFilters);
+			return await this.withUsageBudget(request, () =>
+				this.withCitations(request, () =>
+					this.runWithSimpleSelection(input, request, chatHistory, searchFilters, { onToken, abortSignal })
+				)
+			);
 
 		} catch (error) {
+			if (abortSignal?.aborted) {
+				return this.createStoppedResponse(conversationId, "");
+			}
 			console.error("MastraOrchestrator run error:", error);
 			
 			// Return error response in expected format
@@ -111,15 +166,105 @@ export class MastraOrchestrator {
 	 */
 	private async runWithController(
 		input: string, 
-		conversationId: string, 
+		request: RequestContext, 
 		chatHistory: ChatMessage[], 
-		metadataFilters?: MetadataFilter[]
+		stream: StreamOptions = {},
+		dryRun = false
 	): Promise<AgentResponse> {
-		if (!this.controllerAgent) {
+		const controllerAgent = this.controllerAgent;
+		if (!controllerAgent) {
 			throw new Error("Controller agent not initialized");
 		}
 
-		return await this.controllerAgent.executeDirectly(input, conversationId, chatHistory);
+		// Task progress and the synthesized answer stream through the request's onToken
+		const response = await controllerAgent.executeDirectly(input, request.conversationId, chatHistory, {
+			dryRun,
+			signal: stream.abortSignal,
+			request,
+		});
+
+		// A stop cancels the plan's remaining tasks and discards its answer
+		if (stream.abortSignal?.aborted) {
+			return this.createStoppedResponse(request.conversationId, "");
+		}
+		return response;
+	}
+
+	/**
+	 * Run a plan the user reviewed, by id, with their edits. Its file changes
+	 * are journaled as one run, like those of any request.
+	 */
+	async runPlan(planId: string, edits: PlanEdits, options: StreamOptions & { conversationId: string }): Promise<AgentResponse> {
+		return this.runStoredPlan(planId, "run", options, (controllerAgent, request) =>
+			controllerAgent.runPlan(planId, edits, options.abortSignal, request)
+		);
+	}
+
+	/**
+	 * Resume a plan interrupted by a reload, skipping its completed tasks
+	 */
+	async resumePlan(planId: string, options: StreamOptions & { conversationId: string }): Promise<AgentResponse> {
+		return this.runStoredPlan(planId, "resume", options, (controllerAgent, request) =>
+			controllerAgent.resumePlan(planId, options.abortSignal, request)
+		);
+	}
+
+	/**
+	 * Cancel a running, pending or interrupted plan
+	 */
+	async cancelPlan(planId: string): Promise<void> {
+		await this.controllerAgent?.cancelPlan(planId);
+	}
+
+	/**
+	 * Plans that were running when Obsidian closed
+	 */
+	async getInterruptedPlans(): Promise<PlanPreview[]> {
+		return (await this.controllerAgent?.getInterruptedPlans()) || [];
+	}
+
+	private async runStoredPlan(
+		planId: string,
+		action: "run" | "resume",
+		options: StreamOptions & { conversationId: string },
+		run: (controllerAgent: ControllerAgent, request: RequestContext) => Promise<AgentResponse>
+	): Promise<AgentResponse> {
+		const { conversationId, onToken, abortSignal } = options;
+		const controllerAgent = this.controllerAgent;
+
+		try {
+			if (!controllerAgent) {
+				throw new Error("Controller agent not initialized");
+			}
+
+			const plan = await controllerAgent.getPlan(planId);
+			const description = plan?.metadata.userQuery || `Plan ${planId}`;
+			const request: RequestContext = {
+				conversationId,
+				searchFilter: plan?.metadata.searchFilter,
+				onToken,
+				citations: [],
+				journalRun: this.getChangeJournal()?.createRun({ description, conversationId }),
+				usage: emptyTotals(),
+			};
+			const response = await this.withUsageBudget(request, () =>
+				this.withCitations(request, () => run(controllerAgent, request))
+			);
+			if (abortSignal?.aborted) {
+				return this.createStoppedResponse(conversationId, "");
+			}
+			return response;
+		} catch (error) {
+			console.error(`MastraOrchestrator ${action} plan error:`, error);
+			return {
+				success: false,
+				content: `I couldn't ${action} the plan: ${error instanceof Error ? error.message : String(error)}`,
+				agentUsed: "error",
+				confidence: 0.0,
+				error: error instanceof Error ? error.message : String(error),
+				metadata: { conversationId },
+			};
+		}
 	}
 
 	/**
@@ -127,9 +272,10 @@ export class MastraOrchestrator {
 	 */
 	private async runWithSimpleSelection(
 		input: string, 
-		conversationId: string, 
+		request: RequestContext, 
 		chatHistory: ChatMessage[], 
-		metadataFilters?: MetadataFilter[]
+		metadataFilters?: MetadataFilter[] | MetadataFilterExpression,
+		stream: StreamOptions = {}
 	): Promise<AgentResponse> {
 		// Determine which agent to use based on the query
 		const agentName = this.selectAgent(input);
@@ -154,16 +300,33 @@ export class MastraOrchestrator {
 		});
 
 		// Generate response using the selected agent
-		const response = await agent.generate(messages, {
-			maxSteps: 5, // Allow multi-step reasoning with tools
-		});
+		const { conversationId } = request;
+		const response = stream.onToken
+			? await this.streamResponse(agent, messages, request, stream)
+			: await agent.generate(messages, {
+				maxSteps: 5, // Allow multi-step reasoning with tools
+				abortSignal: stream.abortSignal,
+				runtimeContext: toRuntimeContext(request),
+			});
+		const model = await agent.getModel();
+		// A stopped stream reports no usage
+		if (response.usage) {
+			await this.config.usageLedger?.record({
+				agentId: agentName,
+				model: model.modelId,
+				inputTokens: response.usage.promptTokens || 0,
+				outputTokens: response.usage.completionTokens || 0,
+			}, request);
+		}
+		if (stream.abortSignal?.aborted) {
+			return this.createStoppedResponse(conversationId, response.text, agentName);
+		}
 
 		return {
 			success: true,
 			content: response.text || "No response generated",
 			agentUsed: agentName,
 			confidence: 0.8, // Default confidence score
-			sources: response.toolResults?.map(tr => tr.toolName) || [],
 			metadata: {
 				conversationId,
 				inputTokens: response.usage?.promptTokens || 0,
@@ -171,11 +334,145 @@ export class MastraOrchestrator {
 				totalTokens: response.usage?.totalTokens || 0,
 				finishReason: response.finishReason || "stop",
 				toolsUsed: response.toolResults?.map(tr => tr.toolName) || [],
+				agentsUsed: [agentName],
+				model: model.modelId,
 				metadataFilters: metadataFilters || []
 			}
 		};
 	}
 
+	/**
+	 * Stream an agent's answer, passing each text chunk on as it arrives.
+	 * Stopping ends the stream early and keeps the text received so far.
+	 */
+	private async streamResponse(
+		agent: Agent,
+		messages: { role: "user" | "assistant"; content: string }[],
+		request: RequestContext,
+		stream: StreamOptions
+	): Promise<{
+		text: string;
+		usage?: { promptTokens: number; completionTokens: number; totalTokens: number };
+		finishReason?: string;
+		toolResults?: { toolName: string }[];
+	}> {
+		const result = await agent.stream(messages, {
+			maxSteps: 5, // Allow multi-step reasoning with tools
+			abortSignal: stream.abortSignal,
+			runtimeContext: toRuntimeContext(request),
+		});
+
+		let text = "";
+		try {
+			for await (const chunk of result.textStream) {
+				text += chunk;
+				stream.onToken?.(chunk);
+			}
+		} catch (error) {
+			if (!stream.abortSignal?.aborted) throw error;
+		}
+		if (stream.abortSignal?.aborted) {
+			return { text };
+		}
+
+		return {
+			text,
+			usage: await result.usage,
+			finishReason: await result.finishReason,
+			toolResults: await result.toolResults,
+		};
+	}
+
+	/**
+	 * Response for a request the user stopped, keeping any partial answer
+	 */
+	private createStoppedResponse(conversationId: string, content: string, agentUsed = "stopped"): AgentResponse {
+		return {
+			success: false,
+			content,
+			agentUsed,
+			confidence: 0.0,
+			error: "Stopped by user",
+			metadata: {
+				conversationId,
+				stopped: true,
+			},
+		};
+	}
+
+	/**
+	 * Response for a request refused because a usage budget is used up
+	 */
+	private createBudgetResponse(conversationId: string, reason: string): AgentResponse {
+		return {
+			success: false,
+			content: `I didn't start on this request: ${reason}. Raise the budget in the plugin settings to continue.`,
+			agentUsed: "budget",
+			confidence: 0.0,
+			error: `Budget reached: ${reason}`,
+			metadata: {
+				conversationId,
+				budgetExceeded: true,
+			},
+		};
+	}
+
+	/**
+	 * Attach the search results an answer cites, which the search tool numbers
+	 * in the request's citations. Answers that cite nothing by number keep
+	 * every retrieved chunk, so their sources stay visible.
+	 */
+	private async withCitations(request: RequestContext, run: () => Promise<AgentResponse>): Promise<AgentResponse> {
+		const response = await run();
+		if (!this.toolsImplementation) {
+			return response;
+		}
+
+		const citations = request.citations || [];
+		const citedIndexes = new Set(
+			[...response.content.matchAll(/\[(\d+)\](?!\()/g)].map((match) => parseInt(match[1], 10))
+		);
+		const cited = citations.some((citation) => citedIndexes.has(citation.index))
+			? citations.filter((citation) => citedIndexes.has(citation.index))
+			: citations;
+
+		return {
+			...response,
+			citations: cited,
+			sources: [...new Set(cited.map((citation) => citation.path))],
+		};
+	}
+
+	/**
+	 * Check the request's budgets before handling it. Its model calls count
+	 * towards them through the request's usage; nothing starts once a budget
+	 * is used up, and a plan that uses one up stops before its next task.
+	 */
+	private async withUsageBudget(
+		request: RequestContext,
+		run: () => Promise<AgentResponse>
+	): Promise<AgentResponse> {
+		const exceeded = this.config.usageLedger?.checkBudget(request);
+		if (exceeded) {
+			return this.createBudgetResponse(request.conversationId, exceeded);
+		}
+		return await run();
+	}
+
+	/**
+	 * Compile the prompt's metadata filters into the filter every vault search
+	 * the agents run for the request is restricted by
+	 */
+	private compileSearchFilter(
+		metadataFilters: MetadataFilter[] | MetadataFilterExpression | undefined
+	): Record<string, any> | undefined {
+		const filter = toVectorStoreFilter(metadataFilters || [], this.config.app);
+		if (filter) {
+			console.log("Restricting vault search with filter:", filter);
+		}
+		return filter;
+	}
+
 	/**
 	 * Select the appropriate agent based on the input query (legacy method)
 	 */
@@ -231,7 +528,8 @@ export class MastraOrchestrator {
 	/**
 	 * Set up the controller agent with tools implementation
 	 */
-	setupControllerAgent(toolsImplementation: import("./tools/ObsidianTools").ObsidianToolsImplementation): void {
+	setupControllerAgent(toolsImplementation: ObsidianToolsImplementation): void {
+		this.toolsImplementation = toolsImplementation;
 		try {
 			const agents = this.mastra.getAgents();
 			const availableAgents = new Map(Object.entries(agents));
@@ -241,6 +539,10 @@ export class MastraOrchestrator {
 					openAIApiKey: this.config.settings.openAIApiKey,
 					toolsImplementation,
 					availableAgents,
+					memoryManager: toolsImplementation.getMemoryManager(),
+					usageLedger: this.config.usageLedger,
+					model: getAgentModel(this.config.settings, "controller"),
+					plannerModel: getPlannerModel(this.config.settings),
 					maxConcurrentTasks: 3,
 					taskTimeout: 300000 // 5 minutes
 				});
@@ -274,6 +576,33 @@ export class MastraOrchestrator {
 	 */
 	setAutoApproval(enabled: boolean): void {
 		this.autoApprovalEnabled = enabled;
+		const safetyManager = this.getSafetyManager();
+		if (enabled) {
+			safetyManager?.enableSessionAutoApproval();
+		} else {
+			safetyManager?.disableSessionAutoApproval();
+		}
+	}
+
+	/**
+	 * Get the safety manager approving the agents' file operations
+	 */
+	getSafetyManager(): SafetyManager | null {
+		return this.toolsImplementation?.getSafetyManager() || null;
+	}
+
+	/**
+	 * Get the journal of the agents' file changes
+	 */
+	getChangeJournal(): ChangeJournal | null {
+		return this.toolsImplementation?.getChangeJournal() || null;
+	}
+
+	/**
+	 * Get the ledger of the agents' token usage and estimated cost
+	 */
+	getUsageLedger(): UsageLedger | null {
+		return this.config.usageLedger || null;
 	}
 
 	/**
@@ -312,13 +641,21 @@ export class MastraOrchestrator {
 	 */
 	async cleanup(): Promise<void> {
 		try {
-			// Perform any necessary cleanup ...
+			await this.config.vaultIndexer?.stop();
+			await this.getSafetyManager()?.cleanup();
 			console.log("MastraOrchestrator cleanup completed");
 		} catch (error) {
 			console.error("Error during MastraOrchestrator cleanup:", error);
 		}
 	}
 
+	/**
+	 * Get the vault indexer keeping the vector store in sync
+	 */
+	getVaultIndexer(): VaultIndexer | null {
+		return this.config.vaultIndexer || null;
+	}
+
 	/**
 	 * Get the underlying Mastra instance (for advanced usage)
 	 */
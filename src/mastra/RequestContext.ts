@@ -0,0 +1,36 @@
+// State of one chat request, passed to the agents and their tools instead of
+// being set on the shared tool and journal instances
+import { RuntimeContext } from "@mastra/core/di";
+import type { Citation } from "../types";
+import type { JournalRunInfo } from "./safety/ChangeJournal";
+import type { UsageTotals } from "./usage/UsageLedger";
+
+export interface RequestContext {
+	conversationId: string;
+	searchFilter?: Record<string, any>; // Metadata filter from the prompt, applied to every vault search
+	onToken?: (chunk: string) => void; // Streams the controller's task progress and answer to the chat
+	citations?: Citation[]; // Search results retrieved for the request, numbered for the answer to cite
+	journalRun?: JournalRunInfo; // Journal run the request's file changes are recorded under, to undo together
+	usage?: UsageTotals; // Model calls made for the request, checked against its budget
+}
+
+const REQUEST_KEY = "request";
+
+/**
+ * Runtime context for agent.generate and agent.stream, so the tools the
+ * agent calls can see the request
+ */
+export function toRuntimeContext(request?: RequestContext): RuntimeContext {
+	const runtimeContext = new RuntimeContext();
+	if (request) {
+		runtimeContext.set(REQUEST_KEY, request);
+	}
+	return runtimeContext;
+}
+
+/**
+ * The request an agent was called for, if it was called with one
+ */
+export function getRequestContext(runtimeContext?: RuntimeContext): RequestContext | undefined {
+	return runtimeContext?.get(REQUEST_KEY) as RequestContext | undefined;
+}
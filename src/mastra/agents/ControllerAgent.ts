@@ -3,18 +3,24 @@ import { Agent } from "@mastra/core/agent";
 import { openai } from "@ai-sdk/openai";
 import { z } from "zod";
 import { TaskDecomposer } from "../planning/TaskDecomposer";
+import { findInputReferences } from "../planning/TaskDataflow";
 import { ExecutionEngine, TaskExecutor } from "../planning/ExecutionEngine";
 import { 
-	ExecutionPlan, 
 	Task, 
 	TaskResult, 
 	ExecutionContext, 
+	ExecutionPlan,
 	AgentCapability,
 	DecompositionRequest,
-	AgentInteraction
+	ReplanRequest,
+	ReplanResult
 } from "../planning/types";
 import type { AgentResponse, ChatMessage } from "./types";
+import type { PlanEdits, PlanPreview } from "../../types";
 import { ObsidianToolsImplementation } from "../tools/ObsidianTools";
+import type { ExecutionContextData, MastraMemoryManager } from "../memory/MastraMemoryManager";
+import type { UsageLedger } from "../usage/UsageLedger";
+import { getRequestContext, RequestContext, toRuntimeContext } from "../RequestContext";
 
 export interface ControllerAgentConfig {
 	openAIApiKey: string;
@@ -22,6 +28,46 @@ export interface ControllerAgentConfig {
 	availableAgents: Map<string, Agent>;
 	maxConcurrentTasks?: number;
 	taskTimeout?: number;
+	// Plans are checkpointed here so they survive a reload
+	memoryManager?: MastraMemoryManager;
+	// Replanning after tasks fail or score below the threshold, capped per request
+	maxReplans?: number;
+	maxTokensPerRequest?: number;
+	replanQualityThreshold?: number;
+	// Records every model call; a used-up budget stops plans before their next task
+	usageLedger?: UsageLedger;
+	// Chat model of the controller, which writes the answer, and the model plans are made with
+	model?: string;
+	plannerModel?: string;
+}
+
+const CONTEXT_STATUS: Record<ExecutionPlan["status"], ExecutionContextData["status"]> = {
+	pending: "active",
+	in_progress: "active",
+	completed: "completed",
+	failed: "failed",
+	cancelled: "cancelled",
+	skipped: "cancelled"
+};
+
+/**
+ * Record an agent's model call in the usage ledger
+ */
+async function recordAgentUsage(
+	ledger: UsageLedger | undefined,
+	agentId: string,
+	model: string,
+	usage: { promptTokens: number; completionTokens: number } | undefined,
+	request?: RequestContext
+): Promise<void> {
+	if (!ledger || !usage) return;
+
+	await ledger.record({
+		agentId,
+		model,
+		inputTokens: usage.promptTokens || 0,
+		outputTokens: usage.completionTokens || 0
+	}, request);
 }
 
 /**
@@ -30,11 +76,13 @@ export interface ControllerAgentConfig {
 class MastraTaskExecutor implements TaskExecutor {
 	constructor(
 		private agent: Agent,
-		private agentId: string
+		private agentId: string,
+		private usageLedger?: UsageLedger
 	) {}
 
-	async executeTask(task: Task, context: ExecutionContext): Promise<TaskResult> {
+	async executeTask(task: Task, context: ExecutionContext, signal?: AbortSignal, request?: RequestContext): Promise<TaskResult> {
 		const startTime = Date.now();
+		request?.onToken?.(`- ${task.description}\n`);
 		
 		try {
 			// Prepare messages for the agent
@@ -56,8 +104,12 @@ class MastraTaskExecutor implements TaskExecutor {
 
 			// Generate response using the agent
 			const response = await this.agent.generate(messages, {
-				maxSteps: 3
+				maxSteps: 3,
+				abortSignal: signal,
+				runtimeContext: toRuntimeContext(request)
 			});
+			const { modelId } = await this.agent.getModel();
+			await recordAgentUsage(this.usageLedger, this.agentId, modelId, response.usage, request);
 
 			const duration = Date.now() - startTime;
 			const tokensUsed = response.usage?.totalTokens || 0;
@@ -69,12 +121,14 @@ class MastraTaskExecutor implements TaskExecutor {
 				taskId: task.id,
 				status: "completed",
 				output: {
+					...this.parseStructuredOutput(response.text),
 					content: response.text,
 					toolResults: response.toolResults,
 					artifacts: artifacts.map(a => a.id)
 				},
 				duration,
 				agentUsed: this.agentId,
+				model: modelId,
 				tokensUsed,
 				quality: this.assessQuality(response, task),
 				artifacts
@@ -110,6 +164,19 @@ class MastraTaskExecutor implements TaskExecutor {
 		return `Task Input:\n${inputStr}\n\nPlease complete this task and provide a clear response.`;
 	}
 
+	/**
+	 * Fields of a reply that is a JSON object, so later tasks can reference them
+	 */
+	private parseStructuredOutput(text: string): Record<string, any> {
+		const json = (text || "").trim().replace(/^```(?:json)?\s*([\s\S]*?)\s*```$/, "$1");
+		try {
+			const parsed = JSON.parse(json);
+			return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : {};
+		} catch {
+			return {};
+		}
+	}
+
 	private extractArtifacts(response: any, task: Task): Array<any> {
 		const artifacts: Array<any> = [];
 		
@@ -165,13 +232,27 @@ export class ControllerAgent {
 	private executionEngine: ExecutionEngine;
 	private availableAgents: Map<string, Agent>;
 	private agentCapabilities: AgentCapability[] = [];
+	// Plans returned for review, kept until they are run
+	private pendingPlans: Map<string, ExecutionPlan> = new Map();
+	private memoryManager?: MastraMemoryManager;
+	private usageLedger?: UsageLedger;
+	private modelId: string;
+	private replanLimits: { maxReplans: number; maxTokens: number; qualityThreshold: number };
 
 	constructor(config: ControllerAgentConfig) {
 		this.availableAgents = config.availableAgents;
+		this.memoryManager = config.memoryManager;
+		this.usageLedger = config.usageLedger;
+		this.modelId = config.model || "gpt-4o";
+		this.replanLimits = {
+			maxReplans: config.maxReplans ?? 2,
+			maxTokens: config.maxTokensPerRequest ?? 100000,
+			qualityThreshold: config.replanQualityThreshold ?? 0.7
+		};
 		this.initializeAgentCapabilities();
 		
 		// Initialize task decomposer
-		this.taskDecomposer = new TaskDecomposer(config.openAIApiKey);
+		this.taskDecomposer = new TaskDecomposer(config.openAIApiKey, config.plannerModel, config.usageLedger);
 		this.taskDecomposer.updateAgentCapabilities(this.agentCapabilities);
 		
 		// Initialize execution engine
@@ -179,7 +260,9 @@ export class ControllerAgent {
 			maxConcurrentTasks: config.maxConcurrentTasks || 3,
 			taskTimeout: config.taskTimeout || 300000, // 5 minutes
 			enableRetries: true,
-			maxRetryDelay: 10000
+			maxRetryDelay: 10000,
+			checkpoint: (plan, context, result) => this.checkpointPlan(plan, context, result),
+			checkBudget: (_plan, _context, request) => this.usageLedger?.checkBudget(request) || null
 		});
 		
 		// Register task executors for each agent
@@ -209,8 +292,8 @@ You have access to advanced planning tools that can:
 - Aggregate results from multiple agents
 
 Always aim to provide comprehensive, accurate responses by leveraging the full multi-agent system effectively.`,
-			model: openai("gpt-4o"),
-			tools: {
+			model: openai(this.modelId),
+			tools: ({ runtimeContext }) => ({
 				planAndExecute: {
 					description: "Decompose a complex query into tasks and execute them using multiple agents",
 					parameters: z.object({
@@ -233,7 +316,8 @@ Always aim to provide comprehensive, accurate responses by leveraging the full m
 								timestamp: new Date(msg.timestamp)
 							})),
 							executionMode: executionMode === "auto" ? "parallel" : executionMode,
-							requireApproval
+							requireApproval,
+							request: getRequestContext(runtimeContext)
 						});
 					}
 				},
@@ -254,10 +338,10 @@ Always aim to provide comprehensive, accurate responses by leveraging the full m
 						context: z.record(z.any()).describe("Additional context for the task")
 					}),
 					execute: async ({ task, agentIds, context }) => {
-						return await this.coordinateAgents(task, agentIds, context);
+						return await this.coordinateAgents(task, agentIds, context, getRequestContext(runtimeContext));
 					}
 				}
-			}
+			})
 		});
 	}
 
@@ -270,6 +354,8 @@ Always aim to provide comprehensive, accurate responses by leveraging the full m
 		chatHistory: ChatMessage[];
 		executionMode: "sequential" | "parallel";
 		requireApproval: boolean;
+		signal?: AbortSignal;
+		request?: RequestContext;
 	}): Promise<any> {
 		try {
 			// Create decomposition request
@@ -283,7 +369,10 @@ Always aim to provide comprehensive, accurate responses by leveraging the full m
 			};
 
 			// Decompose the query into tasks
-			const decompositionResult = await this.taskDecomposer.decompose(decompositionRequest);
+			const decompositionResult = await this.taskDecomposer.decompose(decompositionRequest, params.signal, params.request);
+			if (params.signal?.aborted) {
+				return { success: false, error: "Stopped while planning" };
+			}
 			
 			if (!decompositionResult.success) {
 				return {
@@ -295,69 +384,25 @@ Always aim to provide comprehensive, accurate responses by leveraging the full m
 
 			const plan = decompositionResult.plan;
 			plan.mode = params.executionMode;
+			// Kept with the plan, so running or resuming it later searches the same notes
+			plan.metadata.searchFilter = params.request?.searchFilter;
 
-			// Check if approval is required
+			// Check if approval is required; the plan waits until the user runs it
 			if (params.requireApproval || plan.metadata.requiresUserApproval) {
+				this.pendingPlans.set(plan.id, plan);
+				await this.storePlan(plan);
 				return {
 					success: true,
 					requiresApproval: true,
-					plan: {
-						id: plan.id,
-						name: plan.name,
-						description: plan.description,
-						tasks: plan.tasks.map(t => ({
-							id: t.id,
-							description: t.description,
-							agentId: t.agentId,
-							priority: t.priority,
-							riskLevel: t.metadata.riskLevel
-						})),
-						estimatedDuration: plan.estimatedDuration,
-						mode: plan.mode
-					},
+					plan: this.createPlanPreview(plan, decompositionResult.reasoning),
 					reasoning: decompositionResult.reasoning
 				};
 			}
 
-			// Create execution context
-			const executionContext: ExecutionContext = {
-				planId: plan.id,
-				conversationId: params.conversationId,
-				completedTasks: [],
-				failedTasks: [],
-				sharedData: {},
-				userPreferences: {},
-				sessionStartTime: new Date(),
-				totalTokensUsed: 0,
-				agentInteractions: []
-			};
-
-			// Execute the plan
-			const executionResult = await this.executionEngine.executePlan(plan, executionContext);
-
-			// Synthesize results
-			const synthesizedResponse = await this.synthesizeResults(
-				executionResult.results,
-				params.userQuery,
-				executionContext
-			);
-
-			return {
-				success: executionResult.success,
-				response: synthesizedResponse,
-				executionSummary: {
-					tasksCompleted: executionResult.results.filter(r => r.status === "completed").length,
-					tasksFailed: executionResult.results.filter(r => r.status === "failed").length,
-					totalDuration: executionResult.duration,
-					tokensUsed: executionContext.totalTokensUsed
-				},
-				plan: {
-					id: plan.id,
-					name: plan.name,
-					mode: plan.mode
-				},
-				errors: executionResult.errors
-			};
+			return await this.runExecutionPlan(plan, params.userQuery, params.conversationId, {
+				signal: params.signal,
+				request: params.request
+			});
 
 		} catch (error) {
 			return {
@@ -367,10 +412,367 @@ Always aim to provide comprehensive, accurate responses by leveraging the full m
 		}
 	}
 
+	/**
+	 * Execute a plan and synthesize its results into one answer. A resumed
+	 * plan passes the context it was checkpointed with.
+	 */
+	private async runExecutionPlan(
+		plan: ExecutionPlan,
+		userQuery: string,
+		conversationId: string,
+		options: { signal?: AbortSignal; context?: ExecutionContext; request?: RequestContext } = {}
+	): Promise<any> {
+		const { signal, context, request } = options;
+
+		// Create execution context
+		const executionContext: ExecutionContext = context || {
+			planId: plan.id,
+			conversationId,
+			completedTasks: [],
+			failedTasks: [],
+			sharedData: {},
+			userPreferences: {},
+			sessionStartTime: new Date(),
+			totalTokensUsed: 0,
+			agentInteractions: []
+		};
+
+		// Execute the plan, revising it while tasks fail or fall short
+		let executionResult = await this.executionEngine.executePlan(plan, executionContext, signal, request);
+		const errors = [...executionResult.errors];
+		while (plan.status !== "cancelled") {
+			const problems = this.findProblemTasks(plan, executionResult.results, executionContext);
+			if (problems.length === 0) break;
+
+			const budgetReason = this.usageLedger?.checkBudget(request);
+			if (budgetReason) {
+				errors.push(`Not replanning: ${budgetReason}`);
+				break;
+			}
+
+			const replans = plan.metadata.replans || 0;
+			if (replans >= this.replanLimits.maxReplans || executionContext.totalTokensUsed >= this.replanLimits.maxTokens) {
+				errors.push(`Not replanning: the limit of ${this.replanLimits.maxReplans} revisions or ${this.replanLimits.maxTokens} tokens was reached`);
+				break;
+			}
+
+			const revision = await this.taskDecomposer.replan({
+				plan,
+				attempt: replans + 1,
+				completed: plan.tasks
+					.filter(task => task.status === "completed" && !task.metadata.context.replaced)
+					.map(task => ({
+						taskId: task.id,
+						description: task.description,
+						output: String(task.output?.content ?? JSON.stringify(task.output ?? {})).slice(0, 1000)
+					})),
+				problems
+			}, signal, request);
+			executionContext.totalTokensUsed += revision.tokensUsed;
+			if (!revision.success || revision.tasks.length === 0) {
+				errors.push(`Replanning failed: ${revision.error || "no tasks were planned"}`);
+				break;
+			}
+
+			this.spliceRevision(plan, revision, problems);
+			executionResult = await this.executionEngine.executePlan(plan, executionContext, signal, request);
+			errors.push(...executionResult.errors);
+		}
+
+		// Synthesize results of the tasks that weren't replaced, unless the user stopped the plan
+		const results = executionResult.results.filter(r => !this.isReplaced(plan, r.taskId));
+		const completedCount = results.filter(r => r.status === "completed").length;
+		const synthesizedResponse = plan.status === "cancelled"
+			? `The plan was cancelled after ${completedCount} of ${plan.tasks.length} tasks.`
+			: await this.synthesizeResults(results, userQuery, executionContext, signal, request);
+
+		return {
+			success: executionResult.success,
+			response: synthesizedResponse,
+			executionSummary: {
+				tasksCompleted: completedCount,
+				tasksFailed: results.filter(r => r.status === "failed").length,
+				totalDuration: executionResult.duration,
+				tokensUsed: executionContext.totalTokensUsed,
+				agentsUsed: [...new Set(results.map(r => r.agentUsed))],
+				// The controller's model writes the answer; the planner's and the agents' did the work
+				models: [...new Set([
+					this.modelId,
+					this.taskDecomposer.getModelId(),
+					...results.map(r => r.model).filter((model): model is string => !!model)
+				])],
+				replans: plan.metadata.replans || 0
+			},
+			plan: {
+				id: plan.id,
+				name: plan.name,
+				mode: plan.mode
+			},
+			errors
+		};
+	}
+
+	/**
+	 * Tasks to plan again: failures no fallback recovered from, completed
+	 * tasks scoring below the quality threshold, and the tasks skipped
+	 * because of either
+	 */
+	private findProblemTasks(
+		plan: ExecutionPlan,
+		results: TaskResult[],
+		context: ExecutionContext
+	): ReplanRequest["problems"] {
+		const problems: ReplanRequest["problems"] = [];
+		const problemIds = new Set<string>();
+		const addProblem = (task: Task, reason: string) => {
+			if (task.metadata.context.replaced || problemIds.has(task.id)) return;
+			problemIds.add(task.id);
+			problems.push({ taskId: task.id, description: task.description, reason });
+		};
+
+		for (const result of results) {
+			const task = plan.tasks.find(t => t.id === result.taskId);
+			if (!task) continue;
+
+			if (result.status === "failed" && context.failedTasks.includes(task.id)) {
+				addProblem(task, `failed: ${result.error || "unknown error"}`);
+			} else if (
+				result.status === "completed" &&
+				!result.quality.factors.restored &&
+				result.quality.score < this.replanLimits.qualityThreshold
+			) {
+				addProblem(task, `output quality ${result.quality.score.toFixed(2)} is below ${this.replanLimits.qualityThreshold}`);
+			}
+		}
+		if (problems.length === 0) return problems;
+
+		plan.tasks
+			.filter(task => task.status === "skipped" && task.metadata.context.blockedBy)
+			.forEach(task => addProblem(task, `skipped: ${task.metadata.context.skipReason}`));
+		return problems;
+	}
+
+	/**
+	 * Add the revised tasks to the plan; the tasks they replace stay in the
+	 * plan for the record but no longer count towards its answer
+	 */
+	private spliceRevision(plan: ExecutionPlan, revision: ReplanResult, problems: ReplanRequest["problems"]): void {
+		const replacedIds = new Set(problems.map(problem => problem.taskId));
+		plan.tasks.forEach(task => {
+			if (replacedIds.has(task.id)) task.metadata.context.replaced = true;
+		});
+		plan.tasks.push(...revision.tasks);
+		plan.dependencies.push(...revision.dependencies);
+		plan.metadata.replans = (plan.metadata.replans || 0) + 1;
+		console.log(`Replanned ${plan.id}: ${revision.tasks.length} new tasks. ${revision.reasoning}`);
+	}
+
+	private isReplaced(plan: ExecutionPlan, taskId: string): boolean {
+		return !!plan.tasks.find(task => task.id === taskId)?.metadata.context.replaced;
+	}
+
+	/**
+	 * Save a plan with its progress, after each task and whenever its status changes
+	 */
+	private async checkpointPlan(plan: ExecutionPlan, context: ExecutionContext, result?: TaskResult): Promise<void> {
+		if (!this.memoryManager) return;
+
+		await this.memoryManager.storeExecutionPlan(plan);
+		await this.memoryManager.storeExecutionContext(context, CONTEXT_STATUS[plan.status]);
+		for (const artifact of result?.artifacts || []) {
+			await this.memoryManager.storeArtifact(artifact);
+		}
+	}
+
+	/**
+	 * Save a plan that isn't running; failures only cost the ability to resume it
+	 */
+	private async storePlan(plan: ExecutionPlan): Promise<void> {
+		try {
+			await this.memoryManager?.storeExecutionPlan(plan);
+		} catch (error) {
+			console.error(`Failed to store plan ${plan.id}:`, error);
+		}
+	}
+
+	/**
+	 * Summary of a plan for the user to review and edit
+	 */
+	private createPlanPreview(
+		plan: ExecutionPlan,
+		reasoning?: string,
+		status: PlanPreview["status"] = "pending"
+	): PlanPreview {
+		return {
+			id: plan.id,
+			name: plan.name,
+			description: plan.description,
+			reasoning,
+			mode: plan.mode,
+			estimatedDuration: plan.estimatedDuration,
+			tasks: plan.tasks.map(t => ({
+				id: t.id,
+				description: t.description,
+				agentId: t.agentId,
+				priority: t.priority,
+				riskLevel: t.metadata.riskLevel,
+				dependencies: [
+					...new Set([
+						...t.dependencies,
+						...findInputReferences(t.input),
+						...plan.dependencies.filter(dep => dep.to === t.id).map(dep => dep.from)
+					])
+				],
+				estimatedDuration: t.metadata.estimatedDuration,
+				status: t.status
+			})),
+			status,
+			conversationId: plan.metadata.conversationId
+		};
+	}
+
+	/**
+	 * Get a plan waiting for review or stored from an earlier run
+	 */
+	async getPlan(planId: string): Promise<ExecutionPlan | undefined> {
+		return this.pendingPlans.get(planId) || (await this.memoryManager?.getExecutionPlan(planId)) || undefined;
+	}
+
+	/**
+	 * Plans that were running when Obsidian closed, to offer for resume
+	 */
+	async getInterruptedPlans(): Promise<PlanPreview[]> {
+		if (!this.memoryManager) return [];
+
+		const plans = await this.memoryManager.getExecutionPlans();
+		return plans
+			.filter(plan => plan.status === "in_progress" && !this.executionEngine.isPlanRunning(plan.id))
+			.map(plan => this.createPlanPreview(plan, undefined, "interrupted"));
+	}
+
+	/**
+	 * Run a plan previously returned for review, with only the tasks the user
+	 * kept and the execution mode they chose
+	 */
+	async runPlan(planId: string, edits: PlanEdits, signal?: AbortSignal, request?: RequestContext): Promise<AgentResponse> {
+		const plan = await this.getPlan(planId);
+		if (!plan || plan.status !== "pending") {
+			throw new Error("This plan is no longer available. Ask again to create a new plan.");
+		}
+		this.pendingPlans.delete(planId);
+
+		// Soft dependencies on removed tasks no longer hold the remaining ones
+		// back; tasks that need a removed task's output are skipped with it
+		const kept = new Set(edits.taskIds);
+		const skipReasons = this.findTasksNeedingRemoved(plan, kept);
+		plan.tasks = plan.tasks
+			.filter(task => kept.has(task.id))
+			.map(task => {
+				const skipReason = skipReasons.get(task.id);
+				return {
+					...task,
+					status: skipReason ? "skipped" : task.status,
+					metadata: skipReason
+						? { ...task.metadata, context: { ...task.metadata.context, skipReason } }
+						: task.metadata,
+					dependencies: task.dependencies.filter(id => kept.has(id)),
+					fallbackTaskId: task.fallbackTaskId && kept.has(task.fallbackTaskId) ? task.fallbackTaskId : undefined
+				};
+			});
+		plan.dependencies = plan.dependencies.filter(dep => kept.has(dep.from) && kept.has(dep.to));
+		plan.mode = edits.mode;
+
+		const conversationId = plan.metadata.conversationId;
+		try {
+			const result = await this.runExecutionPlan(plan, plan.metadata.userQuery, conversationId, { signal, request });
+			return this.toAgentResponse(result, conversationId);
+		} catch (error) {
+			return this.createErrorResponse(error, conversationId);
+		}
+	}
+
+	/**
+	 * Kept tasks that need a removed task, directly or through another such
+	 * task, with the reason they are skipped
+	 */
+	private findTasksNeedingRemoved(plan: ExecutionPlan, kept: Set<string>): Map<string, string> {
+		const skipReasons = new Map<string, string>();
+		const needs = (task: Task) => [
+			...task.dependencies,
+			...findInputReferences(task.input),
+			...plan.dependencies.filter(dep => dep.to === task.id && dep.type === "hard").map(dep => dep.from)
+		];
+
+		let changed = true;
+		while (changed) {
+			changed = false;
+			for (const task of plan.tasks) {
+				if (!kept.has(task.id) || skipReasons.has(task.id)) continue;
+
+				const missing = needs(task).find(id => !kept.has(id) || skipReasons.has(id));
+				if (missing) {
+					skipReasons.set(
+						task.id,
+						kept.has(missing) ? `${missing} was skipped` : `${missing} was removed from the plan`
+					);
+					changed = true;
+				}
+			}
+		}
+		return skipReasons;
+	}
+
+	/**
+	 * Resume an interrupted plan from its last checkpoint, skipping the
+	 * tasks that already completed
+	 */
+	async resumePlan(planId: string, signal?: AbortSignal, request?: RequestContext): Promise<AgentResponse> {
+		const plan = await this.getPlan(planId);
+		if (!plan || plan.status !== "in_progress" || this.executionEngine.isPlanRunning(planId)) {
+			throw new Error("This plan can't be resumed: it isn't interrupted.");
+		}
+
+		const conversationId = plan.metadata.conversationId;
+		try {
+			const context = await this.memoryManager?.getExecutionContext(planId);
+			const result = await this.runExecutionPlan(plan, plan.metadata.userQuery, conversationId, {
+				signal,
+				context: context || undefined,
+				request
+			});
+			return this.toAgentResponse(result, conversationId);
+		} catch (error) {
+			return this.createErrorResponse(error, conversationId);
+		}
+	}
+
+	/**
+	 * Cancel a plan: a running one is aborted, a pending or interrupted one
+	 * is marked cancelled so it isn't offered again
+	 */
+	async cancelPlan(planId: string): Promise<void> {
+		if (await this.executionEngine.cancelExecution(planId)) return;
+
+		const plan = await this.getPlan(planId);
+		this.pendingPlans.delete(planId);
+		if (!plan || (plan.status !== "pending" && plan.status !== "in_progress")) return;
+
+		plan.status = "cancelled";
+		plan.tasks.forEach(task => {
+			if (task.status === "pending" || task.status === "in_progress") task.status = "cancelled";
+		});
+		await this.storePlan(plan);
+	}
+
 	/**
 	 * Coordinate specific agents for collaborative tasks
 	 */
-	private async coordinateAgents(task: string, agentIds: string[], context: Record<string, any>): Promise<any> {
+	private async coordinateAgents(
+		task: string,
+		agentIds: string[],
+		context: Record<string, any>,
+		request?: RequestContext
+	): Promise<any> {
 		const results: any[] = [];
 		
 		for (const agentId of agentIds) {
@@ -396,7 +798,8 @@ Always aim to provide comprehensive, accurate responses by leveraging the full m
 					}
 				];
 
-				const response = await agent.generate(messages, { maxSteps: 2 });
+				const response = await agent.generate(messages, { maxSteps: 2, runtimeContext: toRuntimeContext(request) });
+				await recordAgentUsage(this.usageLedger, agentId, (await agent.getModel()).modelId, response.usage, request);
 				
 				results.push({
 					agentId,
@@ -442,16 +845,23 @@ Always aim to provide comprehensive, accurate responses by leveraging the full m
 	}
 
 	/**
-	 * Synthesize results from multiple task executions
+	 * Synthesize results from multiple task executions, streaming the answer
+	 * to the request's onToken
 	 */
 	private async synthesizeResults(
 		results: TaskResult[], 
 		originalQuery: string, 
-		context: ExecutionContext
+		context: ExecutionContext,
+		signal?: AbortSignal,
+		request?: RequestContext
 	): Promise<string> {
 		const completedResults = results.filter(r => r.status === "completed");
 		const failedResults = results.filter(r => r.status === "failed");
+		const budgetReason = this.usageLedger?.checkBudget(request);
 
+		if (completedResults.length === 0 && budgetReason) {
+			return `I stopped before completing your request: ${budgetReason}.`;
+		}
 		if (completedResults.length === 0) {
 			return `I apologize, but I wasn't able to complete your request successfully. ${failedResults.length} tasks failed during execution.`;
 		}
@@ -465,6 +875,11 @@ Always aim to provide comprehensive, accurate responses by leveraging the full m
 			return JSON.stringify(output);
 		}).join("\n\n");
 
+		// Once a budget is used up the outputs are returned without another model call
+		if (budgetReason) {
+			return `I stopped early: ${budgetReason}. Here is what the completed tasks found:\n\n${combinedOutput}`;
+		}
+
 		// Use LLM to synthesize a coherent response
 		try {
 			const synthesisMessages = [
@@ -485,10 +900,26 @@ Please synthesize these results into a comprehensive response that directly addr
 				}
 			];
 
-			const synthesisResponse = await this.agent.generate(synthesisMessages, { maxSteps: 1 });
-			return synthesisResponse.text || combinedOutput;
+			const synthesisStream = await this.agent.stream(synthesisMessages, {
+				maxSteps: 1,
+				abortSignal: signal,
+				runtimeContext: toRuntimeContext(request)
+			});
+
+			// The answer follows the task progress lines
+			let text = "";
+			request?.onToken?.("\n");
+			for await (const chunk of synthesisStream.textStream) {
+				text += chunk;
+				request?.onToken?.(chunk);
+			}
+			await recordAgentUsage(this.usageLedger, "controller", this.modelId, await synthesisStream.usage, request);
+			return text || combinedOutput;
 
 		} catch (error) {
+			if (signal?.aborted) {
+				return "";
+			}
 			console.error("Result synthesis failed:", error);
 			return combinedOutput; // Fallback to raw output
 		}
@@ -514,7 +945,7 @@ Please synthesize these results into a comprehensive response that directly addr
 	 */
 	private registerTaskExecutors(): void {
 		this.availableAgents.forEach((agent, agentId) => {
-			const executor = new MastraTaskExecutor(agent, agentId);
+			const executor = new MastraTaskExecutor(agent, agentId, this.usageLedger);
 			this.executionEngine.registerExecutor(agentId, executor);
 		});
 	}
@@ -566,38 +997,73 @@ Please synthesize these results into a comprehensive response that directly addr
 	/**
 	 * Handle direct execution requests (for backward compatibility)
 	 */
-	async executeDirectly(userQuery: string, conversationId: string, chatHistory: ChatMessage[]): Promise<AgentResponse> {
+	async executeDirectly(
+		userQuery: string,
+		conversationId: string,
+		chatHistory: ChatMessage[],
+		options: { dryRun?: boolean; signal?: AbortSignal; request?: RequestContext } = {}
+	): Promise<AgentResponse> {
 		try {
 			const result = await this.planAndExecute({
 				userQuery,
 				conversationId,
 				chatHistory,
 				executionMode: "parallel",
-				requireApproval: false
+				requireApproval: options.dryRun === true,
+				signal: options.signal,
+				request: options.request
 			});
 
-			return {
-				success: result.success,
-				content: result.response || result.error || "No response generated",
-				agentUsed: "controller",
-				confidence: result.success ? 0.9 : 0.1,
-				sources: result.executionSummary ? [`Executed ${result.executionSummary.tasksCompleted} tasks`] : [],
-				metadata: {
-					conversationId,
-					...result.executionSummary,
-					planId: result.plan?.id
-				}
-			};
+			// The plan waits for review in the chat
+			if (result.requiresApproval) {
+				const plan: PlanPreview = result.plan;
+				return {
+					success: true,
+					content: `I planned ${plan.tasks.length} task${plan.tasks.length === 1 ? "" : "s"} for this request. Review the plan, untick any task you don't want, and run it.`,
+					agentUsed: "controller",
+					confidence: 0.9,
+					requiresApproval: true,
+					plan,
+					metadata: {
+						conversationId,
+						planId: plan.id,
+						agentsUsed: ["controller"],
+						model: this.taskDecomposer.getModelId()
+					}
+				};
+			}
+
+			return this.toAgentResponse(result, conversationId);
 
 		} catch (error) {
-			return {
-				success: false,
-				content: `Controller agent execution failed: ${error instanceof Error ? error.message : String(error)}`,
-				agentUsed: "controller",
-				confidence: 0.0,
-				error: error instanceof Error ? error.message : String(error),
-				metadata: { conversationId }
-			};
+			return this.createErrorResponse(error, conversationId);
 		}
 	}
+
+	private toAgentResponse(result: any, conversationId: string): AgentResponse {
+		return {
+			success: result.success,
+			content: result.response || result.error || "No response generated",
+			agentUsed: "controller",
+			confidence: result.success ? 0.9 : 0.1,
+			sources: result.executionSummary ? [`Executed ${result.executionSummary.tasksCompleted} tasks`] : [],
+			metadata: {
+				conversationId,
+				...result.executionSummary,
+				model: result.executionSummary?.models?.join(", "),
+				planId: result.plan?.id
+			}
+		};
+	}
+
+	private createErrorResponse(error: unknown, conversationId: string): AgentResponse {
+		return {
+			success: false,
+			content: `Controller agent execution failed: ${error instanceof Error ? error.message : String(error)}`,
+			agentUsed: "controller",
+			confidence: 0.0,
+			error: error instanceof Error ? error.message : String(error),
+			metadata: { conversationId }
+		};
+	}
 }
\ No newline at end of file
@@ -0,0 +1,25 @@
+// Which chat model each agent runs on, from the plugin settings
+import { ChatModels } from "../../constants";
+import type { AgentModelRole, IntelligencePluginSettings } from "../../types";
+
+export const AGENT_MODEL_ROLES: Record<AgentModelRole, string> = {
+	supervisor: "Supervisor",
+	research: "Research",
+	refactoring: "Refactoring",
+	safety: "Safety",
+	controller: "Controller",
+};
+
+/**
+ * The model an agent runs on: its override, else the default chat model
+ */
+export function getAgentModel(settings: IntelligencePluginSettings, role: AgentModelRole): string {
+	return settings.agentModels?.[role] || settings.chatModel || ChatModels.GPT_4o_mini;
+}
+
+/**
+ * The model that breaks requests into tasks and revises plans
+ */
+export function getPlannerModel(settings: IntelligencePluginSettings): string {
+	return settings.plannerModel || getAgentModel(settings, "controller");
+}
@@ -1,6 +1,6 @@
 // Core types and interfaces for the Mastra-based multi-agent system
 import { App } from "obsidian";
-import { MetadataFilter } from "../../types";
+import { Citation, MetadataFilter, PlanPreview } from "../../types";
 
 // Query Context
 export interface QueryContext {
@@ -17,6 +17,8 @@ export interface AgentResponse {
 	success: boolean;
 	content: string;
 	sources?: string[];
+	citations?: Citation[]; // Retrieved chunks the answer cites
+	plan?: PlanPreview; // Plan awaiting the user's review before it runs
 	metadata?: Record<string, any>;
 	requiresApproval?: boolean;
 	previewData?: PreviewData;
@@ -85,12 +87,17 @@ export interface VectorDocument {
 	embedding: number[];
 }
 
+export type VectorSearchMode = "dense" | "lexical" | "hybrid";
+
 export interface VectorSearchOptions {
 	k?: number;
 	limit?: number;
 	threshold?: number;
 	filter?: Record<string, any>;
 	includeEmbeddings?: boolean;
+	mode?: VectorSearchMode; // Defaults to "hybrid"
+	rerank?: boolean;
+	rerankCandidates?: number; // Candidates retrieved before reranking down to k
 }
 
 // Embedding types
@@ -100,6 +107,16 @@ export interface EmbeddingModel {
 	initialize(): Promise<void>;
 	embed(text: string): Promise<number[]>;
 	embedBatch(texts: string[]): Promise<number[][]>;
+	isReady(): boolean;
+	getModelInfo(): {
+		name: string;
+		dimensions: number;
+		isLocal: boolean;
+		isInitialized: boolean;
+		cacheSize: number;
+	};
+	getCacheStats(): { size: number; maxSize: number; hitRate: number };
+	clearCache(): void;
 	cleanup(): Promise<void>;
 }
 
@@ -112,14 +129,18 @@ export interface RiskAssessment {
 	previewRequired: boolean;
 	rollbackPlan?: string;
 	reasoning: string;
+	blocked?: boolean; // A read-only policy forbids the change outright
 }
 
 export interface ApprovalRequest {
 	id: string;
 	operation: string;
 	riskLevel: "low" | "medium" | "high";
+	reasoning: string;
+	rollbackPlan?: string;
 	previewData: PreviewData;
 	timeout: number;
+	requestedAt: Date;
 }
 
 export interface ApprovalResult {
@@ -128,6 +149,11 @@ export interface ApprovalResult {
 	allowFutureAuto?: boolean;
 }
 
+// Lifecycle of an approval request, for the chat UI
+export type ApprovalEvent =
+	| { type: "requested"; request: ApprovalRequest }
+	| { type: "resolved"; requestId: string; result: ApprovalResult };
+
 // Tool types are now handled by Mastra's native tool system
 
 // Configuration types
@@ -158,6 +184,15 @@ export interface SafetyConfig {
 	requireApprovalForDestruction: boolean;
 	sessionTimeout: number;
 	maxAutoApprovals: number;
+	policyRules?: SafetyPolicyRule[];
+}
+
+export type SafetyPolicyAction = "read-only" | "require-approval" | "allow-create" | "allow";
+
+// Applies the action to files whose vault path matches the glob; the first matching rule wins
+export interface SafetyPolicyRule {
+	pattern: string;
+	action: SafetyPolicyAction;
 }
 
 // Error types
@@ -1,14 +1,21 @@
 // Mastra-native vector store for Obsidian Intelligence
-import { ObsidianVectorStore } from "../../storage/ObsidianVectorStore";
-import { App, TFile } from "obsidian";
-import { OpenAIEmbeddingManager } from "../../embeddings/OpenAIEmbeddingManager";
-import { VectorSearchOptions } from "../types";
+import { ObsidianVectorStore, VectorQueryResult } from "../../storage/ObsidianVectorStore";
+import { App, TFile, getAllTags } from "obsidian";
+import {
+	ActiveEmbeddingMethod,
+	HybridEmbeddingManager,
+} from "../../embeddings/HybridEmbeddingManager";
+import { EmbeddingModel, VectorSearchMode, VectorSearchOptions } from "../types";
+import { simpleHash } from "../../embeddings/utils/textProcessing";
+import { MarkdownChunker } from "../../indexing/MarkdownChunker";
+import { SearchReranker } from "./SearchReranker";
 
 export interface MastraVectorStoreConfig {
 	dataDir: string;
 	indexName: string;
-	dimensions: number;
+	dimensions?: number; // Fallback until the embedding model reports its own
 	fileName?: string;
+	onStoreSwitch?: (method: ActiveEmbeddingMethod) => Promise<void>; // Called after a mid-session switch to another method's store
 }
 
 export interface VectorSearchResult {
@@ -17,6 +24,17 @@ export interface VectorSearchResult {
 	metadata: Record<string, any>;
 	score: number;
 	source?: string;
+	scores?: Record<string, number>; // Per-signal scores, e.g. dense, lexical, fused
+	embedding?: number[];
+}
+
+// Rank offset for reciprocal rank fusion; 60 is the usual choice
+const RRF_K = 60;
+
+interface FileChunk {
+	id: string;
+	content: string;
+	metadata: Record<string, any>;
 }
 
 /**
@@ -24,28 +42,28 @@ export interface VectorSearchResult {
  */
 export class MastraVectorStore {
 	private vectorStore: ObsidianVectorStore;
-	private embeddingManager: OpenAIEmbeddingManager | null = null;
+	private embeddingManager: EmbeddingModel | null = null;
+	private storeMethod: ActiveEmbeddingMethod = "openai";
 	private isInitialized = false;
 	private config: MastraVectorStoreConfig;
 	private app: App | null = null;
+	private chunker = new MarkdownChunker({ maxChunkSize: 1000 });
+	private reranker: SearchReranker;
 
 	constructor(app: App, config: MastraVectorStoreConfig) {
 		this.app = app;
 		this.config = config;
+		this.reranker = new SearchReranker(app);
 
 		// Initialize Obsidian vector store
-		this.vectorStore = new ObsidianVectorStore(app, {
-			dataDir: config.dataDir,
-			fileName: config.fileName || `${config.indexName}-vectors.json`,
-			dimensions: config.dimensions,
-		});
+		this.vectorStore = this.createStore(config.dimensions);
 	}
 
 	/**
 	 * Initialize the vector store
 	 */
 	async initialize(
-		embeddingManager: OpenAIEmbeddingManager,
+		embeddingManager: EmbeddingModel,
 		app: App
 	): Promise<void> {
 		if (this.isInitialized) {
@@ -62,8 +80,9 @@ export class MastraVectorStore {
 				await this.embeddingManager.initialize();
 			}
 
-			// Initialize the vector store
-			await this.vectorStore.initialize();
+			// Size the store for the model actually configured; vectors from a
+			// different model or dimension are discarded when it loads
+			await this.openStoreForActiveMethod();
 
 			this.isInitialized = true;
 			console.log("MastraVectorStore initialized successfully");
@@ -74,6 +93,52 @@ export class MastraVectorStore {
 	}
 
 
+	private createStore(
+		dimensions?: number,
+		embeddingModel?: string,
+		method: ActiveEmbeddingMethod = "openai"
+	): ObsidianVectorStore {
+		const fileName = this.config.fileName || `${this.config.indexName}-vectors.json`;
+		return new ObsidianVectorStore(this.app as App, {
+			dataDir: this.config.dataDir,
+			// Local methods keep their own store so going offline does not wipe the remote index
+			fileName:
+				method === "openai" ? fileName : fileName.replace(/(\.json)?$/, `-${method}$1`),
+			dimensions,
+			embeddingModel,
+		});
+	}
+
+	/**
+	 * Open the store belonging to the active embedding method
+	 */
+	private async openStoreForActiveMethod(): Promise<void> {
+		if (!this.embeddingManager) return;
+
+		this.storeMethod = this.getEmbeddingMethod();
+		this.vectorStore = this.createStore(
+			this.embeddingManager.dimensions || this.config.dimensions,
+			this.embeddingManager.name,
+			this.storeMethod
+		);
+		await this.vectorStore.initialize();
+	}
+
+	/**
+	 * Swap stores when the hybrid manager fell back to another method mid-session,
+	 * so vectors from different methods are never written or queried together
+	 */
+	private async ensureStoreMatchesMethod(): Promise<void> {
+		if (this.getEmbeddingMethod() === this.storeMethod) return;
+
+		console.warn(
+			`Embedding method changed from ${this.storeMethod} to ${this.getEmbeddingMethod()}, switching vector store`
+		);
+		await this.vectorStore.close();
+		await this.openStoreForActiveMethod();
+		await this.config.onStoreSwitch?.(this.storeMethod);
+	}
+
 	/**
 	 * Index all vault documents
 	 */
@@ -86,11 +151,7 @@ export class MastraVectorStore {
 			console.log("Starting vault document indexing...");
 
 			const markdownFiles = app.vault.getMarkdownFiles();
-			const chunks: Array<{
-				id: string;
-				content: string;
-				metadata: Record<string, any>;
-			}> = [];
+			const chunks: FileChunk[] = [];
 
 			// Process files in batches
 			const batchSize = 10;
@@ -100,37 +161,7 @@ export class MastraVectorStore {
 				for (const file of batch) {
 					try {
 						const content = await app.vault.read(file);
-						const metadata = app.metadataCache.getFileCache(file);
-
-						// Split content into chunks for better retrieval
-						const fileChunks = this.splitIntoChunks(content, 1000);
-
-						for (
-							let chunkIndex = 0;
-							chunkIndex < fileChunks.length;
-							chunkIndex++
-						) {
-							const chunk = fileChunks[chunkIndex];
-							if (chunk.trim().length === 0) continue;
-
-							chunks.push({
-								id: `${file.path}_chunk_${chunkIndex}`,
-								content: chunk,
-								metadata: {
-									filePath: file.path,
-									fileName: file.name,
-									chunkIndex,
-									totalChunks: fileChunks.length,
-									fileSize: content.length,
-									tags:
-										metadata?.tags?.map((tag) => tag.tag) ||
-										[],
-									createdTime: file.stat.ctime,
-									modifiedTime: file.stat.mtime,
-									...(metadata?.frontmatter || {}),
-								},
-							});
-						}
+						chunks.push(...this.buildFileChunks(file, content));
 					} catch (error) {
 						console.warn(
 							`Failed to process file ${file.path}:`,
@@ -149,6 +180,7 @@ export class MastraVectorStore {
 			console.log(`Generating embeddings for ${chunks.length} chunks...`);
 			const texts = chunks.map((chunk) => chunk.content);
 			const embeddings = await this.embeddingManager.embedBatch(texts);
+			await this.ensureStoreMatchesMethod();
 
 			// Prepare vectors for storage
 			const vectors = chunks.map((chunk, index) => ({
@@ -170,7 +202,133 @@ export class MastraVectorStore {
 	}
 
 	/**
-	 * Search the vector store
+	 * Index a single file, re-embedding only the chunks whose content changed.
+	 * Returns the content hashes of the file's chunks for the index manifest.
+	 */
+	async indexFile(
+		file: TFile,
+		content: string,
+		previousChunkHashes: string[] = []
+	): Promise<string[]> {
+		if (!this.isInitialized || !this.embeddingManager) {
+			throw new Error("Vector store not initialized");
+		}
+
+		await this.ensureStoreMatchesMethod();
+		const chunks = this.buildFileChunks(file, content);
+		const chunkHashes = chunks.map((chunk) => chunk.metadata.chunkHash);
+
+		// Match chunks by content, so an insertion that shifts the chunks
+		// after it still reuses their vectors under the new ids
+		const previousIds = new Map<string, string>();
+		previousChunkHashes.forEach((hash, index) => {
+			if (!previousIds.has(hash)) previousIds.set(hash, this.getChunkId(file.path, index));
+		});
+
+		const changed: FileChunk[] = [];
+		const unchanged: Array<{ chunk: FileChunk; vector: number[] }> = [];
+		for (const chunk of chunks) {
+			const previousId = previousIds.get(chunk.metadata.chunkHash);
+			const existing = previousId ? await this.vectorStore.getById(previousId) : null;
+			if (existing) {
+				unchanged.push({ chunk, vector: existing.vector });
+			} else {
+				changed.push(chunk);
+			}
+		}
+
+		const embeddings = await this.embeddingManager.embedBatch(
+			changed.map((chunk) => chunk.content)
+		);
+
+		// A fallback during embedding invalidates the reused vectors; start over in the new store
+		if (this.getEmbeddingMethod() !== this.storeMethod) {
+			await this.ensureStoreMatchesMethod();
+			return this.indexFile(file, content);
+		}
+
+		// Unchanged chunks keep their vectors but get fresh file metadata
+		const vectors = [
+			...changed.map((chunk, index) => ({
+				id: chunk.id,
+				vector: embeddings[index],
+				metadata: chunk.metadata,
+			})),
+			...unchanged.map(({ chunk, vector }) => ({
+				id: chunk.id,
+				vector,
+				metadata: chunk.metadata,
+			})),
+		];
+		if (vectors.length > 0) {
+			await this.vectorStore.upsert(vectors);
+		}
+
+		// Drop chunks past the new end of the file
+		const staleIds: string[] = [];
+		for (let i = chunks.length; i < previousChunkHashes.length; i++) {
+			staleIds.push(this.getChunkId(file.path, i));
+		}
+		if (staleIds.length > 0) {
+			await this.vectorStore.delete(staleIds);
+		}
+
+		console.log(
+			`Indexed ${file.path}: ${changed.length} re-embedded, ${unchanged.length} unchanged, ${staleIds.length} removed`
+		);
+		return chunkHashes;
+	}
+
+	/**
+	 * Remove all chunks of a file from the vector store
+	 */
+	async removeFile(filePath: string): Promise<void> {
+		await this.deleteByFilter({ filePath });
+	}
+
+	/**
+	 * Move a file's chunks to its new path without re-embedding them
+	 */
+	async renameFile(
+		oldPath: string,
+		file: TFile,
+		chunkCount: number
+	): Promise<void> {
+		if (!this.isInitialized) {
+			throw new Error("Vector store not initialized");
+		}
+
+		const moved = [];
+		const oldIds: string[] = [];
+		for (let i = 0; i < chunkCount; i++) {
+			const oldId = this.getChunkId(oldPath, i);
+			const existing = await this.vectorStore.getById(oldId);
+			if (!existing) continue;
+
+			oldIds.push(oldId);
+			moved.push({
+				id: this.getChunkId(file.path, i),
+				vector: existing.vector,
+				metadata: {
+					...existing.metadata,
+					filePath: file.path,
+					fileName: file.name,
+				},
+			});
+		}
+
+		if (moved.length > 0) {
+			await this.vectorStore.upsert(moved);
+		}
+		if (oldIds.length > 0) {
+			await this.vectorStore.delete(oldIds);
+		}
+	}
+
+	/**
+	 * Search the vector store. Hybrid mode runs dense and BM25 retrieval and
+	 * merges the two rankings with reciprocal rank fusion. With `rerank`, a wider
+	 * candidate set is retrieved and reordered by the SearchReranker.
 	 */
 	async searchVectorStore(
 		query: string,
@@ -180,31 +338,130 @@ export class MastraVectorStore {
 			throw new Error("Vector store not initialized");
 		}
 
+		const topK = options.k || options.limit || 5;
+		const mode = options.mode || "hybrid";
+		const retrieveK = options.rerank
+			? Math.max(options.rerankCandidates || 50, topK)
+			: topK;
+
 		try {
-			// Generate embedding for the query
-			const queryEmbedding = await this.embeddingManager.embed(query);
+			const queryEmbedding =
+				mode !== "lexical" || options.rerank
+					? await this.embeddingManager.embed(query)
+					: null;
+			await this.ensureStoreMatchesMethod();
+
+			let results = await this.retrieve(
+				query,
+				queryEmbedding,
+				mode,
+				retrieveK,
+				options.filter
+			);
 
-			// Search the vector store
-			const results = await this.vectorStore.query(queryEmbedding, {
-				topK: options.k || options.limit || 5,
-				filter: options.filter,
-				includeMetadata: true,
-			});
+			if (options.rerank && queryEmbedding) {
+				results = this.reranker.rerank(query, queryEmbedding, results, topK);
+			}
 
-			// Convert to our result format
-			return results.map((result) => ({
-				id: result.id,
-				content: result.metadata?.content || "",
-				metadata: result.metadata || {},
-				score: result.score || 0,
-				source: result.metadata?.filePath || result.id,
-			}));
+			return options.includeEmbeddings
+				? results
+				: results.map(({ embedding, ...result }) => result);
 		} catch (error) {
 			console.error("Failed to search vector store:", error);
 			throw error;
 		}
 	}
 
+	/**
+	 * Run the retriever(s) for a search mode
+	 */
+	private async retrieve(
+		query: string,
+		queryEmbedding: number[] | null,
+		mode: VectorSearchMode,
+		topK: number,
+		filter?: Record<string, any>
+	): Promise<VectorSearchResult[]> {
+		const denseSearch = (k: number) =>
+			this.vectorStore.query(queryEmbedding as number[], {
+				topK: k,
+				filter,
+				includeMetadata: true,
+			});
+
+		if (mode === "dense") {
+			const results = await denseSearch(topK);
+			return results.map((result) =>
+				this.toSearchResult(result, result.score, { dense: result.score })
+			);
+		}
+
+		if (mode === "lexical") {
+			const results = await this.vectorStore.lexicalQuery(query, { topK, filter });
+			return results.map((result) =>
+				this.toSearchResult(result, result.score, { lexical: result.score })
+			);
+		}
+
+		// Over-fetch from both retrievers so fusion has something to work with
+		const depth = Math.max(topK * 4, 20);
+		const [dense, lexical] = await Promise.all([
+			denseSearch(depth),
+			this.vectorStore.lexicalQuery(query, { topK: depth, filter }),
+		]);
+
+		return this.fuseRankings(dense, lexical).slice(0, topK);
+	}
+
+	/**
+	 * Merge dense and lexical rankings with reciprocal rank fusion
+	 */
+	private fuseRankings(
+		dense: VectorQueryResult[],
+		lexical: VectorQueryResult[]
+	): VectorSearchResult[] {
+		const fused = new Map<
+			string,
+			{ result: VectorQueryResult; score: number; scores: Record<string, number> }
+		>();
+
+		const addRanking = (results: VectorQueryResult[], signal: string) => {
+			results.forEach((result, rank) => {
+				const entry = fused.get(result.id) || { result, score: 0, scores: {} };
+				entry.score += 1 / (RRF_K + rank + 1);
+				entry.scores[signal] = result.score;
+				fused.set(result.id, entry);
+			});
+		};
+		addRanking(dense, "dense");
+		addRanking(lexical, "lexical");
+
+		return [...fused.values()]
+			.sort((a, b) => b.score - a.score)
+			.map((entry) =>
+				this.toSearchResult(entry.result, entry.score, {
+					...entry.scores,
+					fused: entry.score,
+				})
+			);
+	}
+
+	private toSearchResult(
+		result: VectorQueryResult,
+		score: number,
+		scores: Record<string, number>
+	): VectorSearchResult {
+		return {
+			id: result.id,
+			content: result.metadata?.content || "",
+			metadata: result.metadata || {},
+			score,
+			source: result.metadata?.filePath || result.id,
+			scores,
+			embedding: result.vector,
+		};
+	}
+
 	/**
 	 * Add or update documents in the vector store
 	 */
@@ -220,6 +477,7 @@ export class MastraVectorStore {
 		try {
 			// Generate embedding
 			const embedding = await this.embeddingManager.embed(content);
+			await this.ensureStoreMatchesMethod();
 
 			// Upsert to vector store
 			await this.vectorStore.upsert([
@@ -229,6 +487,7 @@ export class MastraVectorStore {
 					metadata: {
 						...metadata,
 						content,
+						embeddingMethod: this.storeMethod,
 						updatedAt: new Date().toISOString(),
 					},
 				},
@@ -284,31 +543,8 @@ export class MastraVectorStore {
 			await this.deleteByFilter({ filePath: file.path });
 
 			// Re-index the file
-			const content = await this.app.read(file);
-			const metadata = this.app.metadataCache.getFileCache(file);
-
-			const chunks = this.splitIntoChunks(content, 1000);
-
-			for (let chunkIndex = 0; chunkIndex < chunks.length; chunkIndex++) {
-				const chunk = chunks[chunkIndex];
-				if (chunk.trim().length === 0) continue;
-
-				await this.upsertDocument(
-					`${file.path}_chunk_${chunkIndex}`,
-					chunk,
-					{
-						filePath: file.path,
-						fileName: file.name,
-						chunkIndex,
-						totalChunks: chunks.length,
-						fileSize: content.length,
-						tags: metadata?.tags?.map((tag) => tag.tag) || [],
-						createdTime: file.stat.ctime,
-						modifiedTime: file.stat.mtime,
-						...(metadata?.frontmatter || {}),
-					}
-				);
-			}
+			const content = await this.app.vault.read(file);
+			await this.indexFile(file, content);
 		} catch (error) {
 			console.error(`Failed to update file ${file.path}:`, error);
 			throw error;
@@ -316,34 +552,41 @@ export class MastraVectorStore {
 	}
 
 	/**
-	 * Split text into chunks
+	 * Split a file into chunks with the metadata stored alongside each vector
 	 */
-	private splitIntoChunks(text: string, chunkSize: number): string[] {
-		const chunks: string[] = [];
-		const sentences = text
-			.split(/[.!?]+/)
-			.filter((s) => s.trim().length > 0);
-
-		let currentChunk = "";
-
-		for (const sentence of sentences) {
-			if (
-				currentChunk.length + sentence.length > chunkSize &&
-				currentChunk.length > 0
-			) {
-				chunks.push(currentChunk.trim());
-				currentChunk = sentence;
-			} else {
-				currentChunk +=
-					(currentChunk.length > 0 ? ". " : "") + sentence;
-			}
-		}
-
-		if (currentChunk.trim().length > 0) {
-			chunks.push(currentChunk.trim());
-		}
+	private buildFileChunks(file: TFile, content: string): FileChunk[] {
+		const metadata = this.app?.metadataCache.getFileCache(file);
+		const fileChunks = this.chunker.chunk(content);
+
+		return fileChunks.map((chunk, chunkIndex) => ({
+			id: this.getChunkId(file.path, chunkIndex),
+			content: chunk.content,
+			metadata: {
+				filePath: file.path,
+				fileName: file.name,
+				chunkIndex,
+				totalChunks: fileChunks.length,
+				fileSize: content.length,
+				createdTime: file.stat.ctime,
+				modifiedTime: file.stat.mtime,
+				...(metadata?.frontmatter || {}),
+				// Inline and frontmatter tags, after the spread so a frontmatter `tags` list cannot replace them
+				tags: (metadata && getAllTags(metadata)) || [],
+				headingPath: MarkdownChunker.formatHeadingPath(chunk.headingPath),
+				startLine: chunk.startLine,
+				endLine: chunk.endLine,
+				content: chunk.content,
+				chunkHash: simpleHash(chunk.content),
+				embeddingMethod: this.storeMethod,
+			},
+		}));
+	}
 
-		return chunks;
+	/**
+	 * Build the vector ID for a chunk of a file
+	 */
+	private getChunkId(filePath: string, chunkIndex: number): string {
+		return `${filePath}_chunk_${chunkIndex}`;
 	}
 
 	/**
@@ -368,7 +611,7 @@ export class MastraVectorStore {
 			return {
 				totalDocuments: 0,
 				indexName: this.config.indexName,
-				dimensions: this.config.dimensions,
+				dimensions: this.config.dimensions || 0,
 			};
 		}
 	}
@@ -383,6 +626,29 @@ export class MastraVectorStore {
 		return await this.vectorStore.count();
 	}
 
+	/**
+	 * Get the name of the embedding model backing this store
+	 */
+	getEmbeddingModelName(): string | null {
+		return this.embeddingManager?.name || null;
+	}
+
+	/**
+	 * Get the embedding method producing this store's vectors
+	 */
+	getEmbeddingMethod(): ActiveEmbeddingMethod {
+		return this.embeddingManager instanceof HybridEmbeddingManager
+			? this.embeddingManager.getActiveMethodId()
+			: "openai";
+	}
+
+	/**
+	 * Identify how files are split into chunks
+	 */
+	getChunkerSignature(): string {
+		return this.chunker.getSignature();
+	}
+
 	/**
 	 * Check if vector store is ready
 	 */
@@ -0,0 +1,197 @@
+// Reranks retrieved chunks with cheap local signals before they reach the agents
+import { App } from "obsidian";
+import { cosineSimilarity } from "../../embeddings/utils/mathUtils";
+import { preprocessText } from "../../embeddings/utils/textProcessing";
+import type { VectorSearchResult } from "./MastraVectorStore";
+
+export interface RerankWeights {
+	semantic: number;
+	lexical: number;
+	heading: number;
+	recency: number;
+	centrality: number;
+}
+
+export interface SearchRerankerConfig {
+	weights?: Partial<RerankWeights>;
+	diversity?: number; // MMR trade-off: 1 = pure relevance, 0 = pure novelty
+	sameNotePenalty?: number; // Redundancy assumed between chunks of one note
+	recencyHalfLifeDays?: number;
+}
+
+const DEFAULT_WEIGHTS: RerankWeights = {
+	semantic: 0.5,
+	lexical: 0.2,
+	heading: 0.1,
+	recency: 0.1,
+	centrality: 0.1,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface ScoredCandidate {
+	result: VectorSearchResult;
+	relevance: number;
+	signals: Record<string, number>;
+}
+
+/**
+ * Combines semantic similarity, lexical overlap, heading match, recency and
+ * backlink centrality into one relevance score, then picks the final results
+ * with maximal marginal relevance so one note cannot crowd out the rest.
+ * Candidates must carry their embeddings for the semantic and MMR terms.
+ */
+export class SearchReranker {
+	private app: App;
+	private weights: RerankWeights;
+	private diversity: number;
+	private sameNotePenalty: number;
+	private recencyHalfLifeDays: number;
+
+	constructor(app: App, config: SearchRerankerConfig = {}) {
+		this.app = app;
+		this.weights = { ...DEFAULT_WEIGHTS, ...config.weights };
+		this.diversity = config.diversity ?? 0.7;
+		this.sameNotePenalty = config.sameNotePenalty ?? 0.6;
+		this.recencyHalfLifeDays = config.recencyHalfLifeDays ?? 90;
+	}
+
+	/**
+	 * Rerank candidates and return the best `topK`, each annotated with its per-signal scores
+	 */
+	rerank(
+		query: string,
+		queryEmbedding: number[],
+		candidates: VectorSearchResult[],
+		topK: number
+	): VectorSearchResult[] {
+		if (candidates.length === 0) return [];
+
+		const queryTerms = new Set(preprocessText(query, { applyStemming: true }));
+		const backlinks = this.countBacklinks();
+		const maxBacklinks = Math.max(
+			1,
+			...candidates.map((candidate) => backlinks.get(candidate.source || "") || 0)
+		);
+		const now = Date.now();
+
+		const scored: ScoredCandidate[] = candidates.map((result) => {
+			const metadata = result.metadata || {};
+			const signals = {
+				semantic: result.embedding
+					? Math.max(0, cosineSimilarity(queryEmbedding, result.embedding))
+					: result.scores?.dense ?? 0,
+				lexical: this.termOverlap(queryTerms, result.content),
+				heading: this.termOverlap(
+					queryTerms,
+					`${metadata.fileName || ""} ${metadata.headingPath || ""}`
+				),
+				recency: this.recencyScore(metadata.modifiedTime, now),
+				centrality:
+					Math.log1p(backlinks.get(result.source || "") || 0) /
+					Math.log1p(maxBacklinks),
+			};
+
+			const relevance =
+				this.weights.semantic * signals.semantic +
+				this.weights.lexical * signals.lexical +
+				this.weights.heading * signals.heading +
+				this.weights.recency * signals.recency +
+				this.weights.centrality * signals.centrality;
+
+			return { result, relevance, signals };
+		});
+
+		return this.selectDiverse(scored, topK);
+	}
+
+	/**
+	 * Greedy maximal marginal relevance selection
+	 */
+	private selectDiverse(scored: ScoredCandidate[], topK: number): VectorSearchResult[] {
+		const remaining = [...scored];
+		const selected: (ScoredCandidate & { mmr: number; redundancy: number })[] = [];
+
+		while (selected.length < topK && remaining.length > 0) {
+			let bestIndex = 0;
+			let bestMmr = -Infinity;
+			let bestRedundancy = 0;
+
+			remaining.forEach((candidate, index) => {
+				const redundancy = selected.reduce(
+					(max, chosen) => Math.max(max, this.redundancy(candidate.result, chosen.result)),
+					0
+				);
+				const mmr =
+					this.diversity * candidate.relevance - (1 - this.diversity) * redundancy;
+				if (mmr > bestMmr) {
+					bestIndex = index;
+					bestMmr = mmr;
+					bestRedundancy = redundancy;
+				}
+			});
+
+			const [best] = remaining.splice(bestIndex, 1);
+			selected.push({ ...best, mmr: bestMmr, redundancy: bestRedundancy });
+		}
+
+		return selected.map((candidate) => ({
+			...candidate.result,
+			score: candidate.relevance,
+			scores: {
+				...candidate.result.scores,
+				...candidate.signals,
+				relevance: candidate.relevance,
+				redundancy: candidate.redundancy,
+				mmr: candidate.mmr,
+			},
+		}));
+	}
+
+	private redundancy(a: VectorSearchResult, b: VectorSearchResult): number {
+		const similarity =
+			a.embedding && b.embedding ? Math.max(0, cosineSimilarity(a.embedding, b.embedding)) : 0;
+		const sameNote = a.source && a.source === b.source ? this.sameNotePenalty : 0;
+		return Math.max(similarity, sameNote);
+	}
+
+	/**
+	 * Fraction of query terms present in the text
+	 */
+	private termOverlap(queryTerms: Set<string>, text: string): number {
+		if (queryTerms.size === 0 || !text) return 0;
+
+		const textTerms = new Set(preprocessText(text, { applyStemming: true }));
+		let hits = 0;
+		for (const term of queryTerms) {
+			if (textTerms.has(term)) hits++;
+		}
+		return hits / queryTerms.size;
+	}
+
+	/**
+	 * Exponential decay on note age
+	 */
+	private recencyScore(modifiedTime: unknown, now: number): number {
+		if (typeof modifiedTime !== "number" || modifiedTime <= 0) return 0;
+
+		const ageDays = Math.max(0, now - modifiedTime) / DAY_MS;
+		return Math.pow(0.5, ageDays / this.recencyHalfLifeDays);
+	}
+
+	/**
+	 * Incoming link count per note, from the metadata cache
+	 */
+	private countBacklinks(): Map<string, number> {
+		const counts = new Map<string, number>();
+		const resolvedLinks = this.app.metadataCache.resolvedLinks || {};
+
+		for (const [source, targets] of Object.entries(resolvedLinks)) {
+			for (const target of Object.keys(targets)) {
+				if (target === source) continue;
+				counts.set(target, (counts.get(target) || 0) + 1);
+			}
+		}
+		return counts;
+	}
+}
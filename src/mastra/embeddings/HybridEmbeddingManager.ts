@@ -1,13 +1,17 @@
-// Hybrid Embedding Manager - Orchestrates between TF-IDF and TensorFlow.js
+// Hybrid Embedding Manager - Orchestrates between OpenAI-compatible, TensorFlow.js and TF-IDF embeddings
 import { Notice } from "obsidian";
-import { EmbeddingModel } from "../mastra/agents/types";
-import { TfIdfEmbeddingManager } from "./TfIdfEmbeddingManager";
+import { EmbeddingModel } from "../agents/types";
+import { TfIdfEmbeddingManager, TfIdfModelData } from "./TfIdfEmbeddingManager";
 import { TensorFlowEmbeddingManager } from "./TensorFlowEmbeddingManager";
 
 export type EmbeddingMethod = "auto" | "tensorflow" | "tfidf" | "openai";
 
+// The method actually producing vectors once "auto" has been resolved
+export type ActiveEmbeddingMethod = Exclude<EmbeddingMethod, "auto">;
+
 export interface HybridEmbeddingConfig {
 	method?: EmbeddingMethod;
+	remoteManager?: EmbeddingModel; // OpenAI-compatible provider used for "openai" and preferred by "auto"
 	tfIdfConfig?: {
 		dimensions?: number;
 		maxVocabularySize?: number;
@@ -15,21 +19,22 @@ export interface HybridEmbeddingConfig {
 		useStemming?: boolean;
 	};
 	fallbackTimeout?: number; // Timeout for TensorFlow.js initialization
+	prepareFallback?: () => Promise<void>; // Loads or builds the TF-IDF model when falling back mid-session
 }
 
 /**
  * Hybrid embedding manager that provides the best available embedding method
- * with graceful fallback from TensorFlow.js to TF-IDF
+ * with graceful fallback from the remote provider to TensorFlow.js to TF-IDF.
+ * The two local methods keep vault search working offline.
  */
 export class HybridEmbeddingManager implements EmbeddingModel {
-	readonly name: string;
-	readonly dimensions: number;
-
 	private config: HybridEmbeddingConfig;
 	private primaryManager: EmbeddingModel;
 	private fallbackManager: TfIdfEmbeddingManager;
 	private tensorflowManager: TensorFlowEmbeddingManager;
+	private remoteManager: EmbeddingModel | null;
 	private usingFallback = false;
+	private fallbackPreparation: Promise<void> | null = null;
 	private isInitialized = false;
 	private isInitializing = false;
 	private initializationAttempted = false;
@@ -46,20 +51,33 @@ export class HybridEmbeddingManager implements EmbeddingModel {
 			this.config.tfIdfConfig
 		);
 		this.tensorflowManager = new TensorFlowEmbeddingManager();
+		this.remoteManager = this.config.remoteManager || null;
 
 		// Set initial primary based on method
 		if (this.config.method === "tfidf") {
 			this.primaryManager = this.fallbackManager;
 			this.usingFallback = true;
-			this.name = "TF-IDF (Forced)";
-			this.dimensions = this.fallbackManager.dimensions;
-		} else {
+		} else if (this.config.method === "tensorflow" || !this.remoteManager) {
 			this.primaryManager = this.tensorflowManager;
-			this.name = "Hybrid (TensorFlow.js + TF-IDF)";
-			this.dimensions = this.tensorflowManager.dimensions;
+		} else {
+			this.primaryManager = this.remoteManager;
 		}
 	}
 
+	/**
+	 * Name of the model currently producing embeddings
+	 */
+	get name(): string {
+		return this.primaryManager.name;
+	}
+
+	/**
+	 * Dimensions of the model currently producing embeddings
+	 */
+	get dimensions(): number {
+		return this.primaryManager.dimensions;
+	}
+
 	/**
 	 * Initialize the hybrid embedding system
 	 */
@@ -82,8 +100,15 @@ export class HybridEmbeddingManager implements EmbeddingModel {
 			await this.fallbackManager.initialize();
 			console.log("TF-IDF manager initialized successfully");
 
-			// Try to initialize TensorFlow.js based on method
-			if (
+			// Prefer the remote provider, then TensorFlow.js, based on method
+			const remoteReady =
+				(this.config.method === "auto" || this.config.method === "openai") &&
+				(await this.initializeRemote());
+
+			if (remoteReady) {
+				this.primaryManager = this.remoteManager as EmbeddingModel;
+				this.usingFallback = false;
+			} else if (
 				this.config.method === "auto" ||
 				this.config.method === "tensorflow"
 			) {
@@ -122,6 +147,8 @@ export class HybridEmbeddingManager implements EmbeddingModel {
 		if (!this.isInitialized) {
 			await this.initialize();
 		}
+		// Vectors made before the TF-IDF model is ready would be all zeros
+		await this.fallbackPreparation;
 
 		try {
 			const embedding = await this.primaryManager.embed(text);
@@ -133,11 +160,11 @@ export class HybridEmbeddingManager implements EmbeddingModel {
 				);
 
 				// If using TensorFlow.js and it fails, switch to fallback
-				if (!this.usingFallback) {
+				if (this.canFallBackAtRuntime()) {
 					console.log(
 						"Switching to TF-IDF due to dimension mismatch"
 					);
-					this.useFallback("Dimension mismatch in TensorFlow.js");
+					await this.fallBackAtRuntime("Dimension mismatch in TensorFlow.js");
 					return await this.fallbackManager.embed(text);
 				}
 			}
@@ -147,11 +174,11 @@ export class HybridEmbeddingManager implements EmbeddingModel {
 			console.error("Primary embedding failed:", error);
 
 			// If primary fails and we're not already using fallback, switch
-			if (!this.usingFallback) {
+			if (this.canFallBackAtRuntime()) {
 				console.log(
 					"Switching to TF-IDF due to primary embedding failure"
 				);
-				this.useFallback(`Primary embedding error: ${error}`);
+				await this.fallBackAtRuntime(`Primary embedding error: ${error}`);
 				return await this.fallbackManager.embed(text);
 			}
 
@@ -166,6 +193,8 @@ export class HybridEmbeddingManager implements EmbeddingModel {
 		if (!this.isInitialized) {
 			await this.initialize();
 		}
+		// Vectors made before the TF-IDF model is ready would be all zeros
+		await this.fallbackPreparation;
 
 		try {
 			return await this.primaryManager.embedBatch(texts);
@@ -173,9 +202,9 @@ export class HybridEmbeddingManager implements EmbeddingModel {
 			console.error("Primary batch embedding failed:", error);
 
 			// If primary fails and we're not already using fallback, switch
-			if (!this.usingFallback) {
+			if (this.canFallBackAtRuntime()) {
 				console.log("Switching to TF-IDF for batch embedding");
-				this.useFallback(`Batch embedding error: ${error}`);
+				await this.fallBackAtRuntime(`Batch embedding error: ${error}`);
 				return await this.fallbackManager.embedBatch(texts);
 			}
 
@@ -195,6 +224,22 @@ export class HybridEmbeddingManager implements EmbeddingModel {
 		console.log(`Added ${documents.length} documents to TF-IDF corpus`);
 	}
 
+	/**
+	 * Load a persisted TF-IDF model; returns false if it must be rebuilt
+	 */
+	loadTfIdfModel(model: TfIdfModelData): boolean {
+		return this.fallbackManager.loadModel(model);
+	}
+
+	/**
+	 * Rebuild the TF-IDF model from a corpus
+	 */
+	async buildTfIdfModel(
+		documents: Array<{ content: string; source?: string }>
+	): Promise<TfIdfModelData> {
+		return await this.fallbackManager.buildModel(documents);
+	}
+
 	/**
 	 * Switch embedding method (useful for user preferences)
 	 */
@@ -208,12 +253,21 @@ export class HybridEmbeddingManager implements EmbeddingModel {
 
 		if (method === "tfidf") {
 			this.useFallback("Manual switch to TF-IDF");
+		} else if (method === "openai") {
+			if (await this.initializeRemote()) {
+				this.primaryManager = this.remoteManager as EmbeddingModel;
+				this.usingFallback = false;
+				console.log("Switched to remote embedding provider");
+			} else {
+				console.warn(
+					"Remote embedding provider not available, keeping current method"
+				);
+			}
 		} else if (method === "tensorflow") {
 			// Try to use TensorFlow.js only
 			if (this.tensorflowManager.isReady()) {
 				this.primaryManager = this.tensorflowManager;
 				this.usingFallback = false;
-				this.updateDimensions();
 				console.log("Switched to TensorFlow.js mode");
 			} else {
 				console.warn(
@@ -221,11 +275,14 @@ export class HybridEmbeddingManager implements EmbeddingModel {
 				);
 			}
 		} else if (method === "auto") {
-			// Auto mode: prefer TensorFlow.js, fallback to TF-IDF
-			if (this.tensorflowManager.isReady()) {
+			// Auto mode: prefer the remote provider, then TensorFlow.js, then TF-IDF
+			if (await this.initializeRemote()) {
+				this.primaryManager = this.remoteManager as EmbeddingModel;
+				this.usingFallback = false;
+				console.log("Auto mode: using remote embedding provider");
+			} else if (this.tensorflowManager.isReady()) {
 				this.primaryManager = this.tensorflowManager;
 				this.usingFallback = false;
-				this.updateDimensions();
 				console.log("Auto mode: using TensorFlow.js");
 			} else {
 				this.useFallback("Auto mode: TensorFlow.js not available");
@@ -241,6 +298,8 @@ export class HybridEmbeddingManager implements EmbeddingModel {
 	getActiveMethod(): string {
 		if (this.usingFallback) {
 			return "TF-IDF";
+		} else if (this.remoteManager && this.primaryManager === this.remoteManager) {
+			return `Remote (${this.remoteManager.name})`;
 		} else if (this.tensorflowManager.isReady()) {
 			return "TensorFlow.js (Universal Sentence Encoder)";
 		} else {
@@ -248,6 +307,29 @@ export class HybridEmbeddingManager implements EmbeddingModel {
 		}
 	}
 
+	/**
+	 * Get the active method as an identifier, used to tag stored vectors
+	 */
+	getActiveMethodId(): ActiveEmbeddingMethod {
+		if (this.primaryManager === this.fallbackManager) return "tfidf";
+		if (this.primaryManager === this.tensorflowManager) return "tensorflow";
+		return "openai";
+	}
+
+	/**
+	 * Whether embeddings are produced locally, without network access
+	 */
+	isOffline(): boolean {
+		return this.getActiveMethodId() !== "openai";
+	}
+
+	/**
+	 * Whether the active method needs a document corpus (TF-IDF) to produce useful vectors
+	 */
+	usesCorpus(): boolean {
+		return this.primaryManager === this.fallbackManager;
+	}
+
 	/**
 	 * Get embedding system status
 	 */
@@ -288,7 +370,7 @@ export class HybridEmbeddingManager implements EmbeddingModel {
 		return {
 			name: this.name,
 			dimensions: this.dimensions,
-			isLocal: true,
+			isLocal: this.isOffline(),
 			isInitialized: this.isInitialized,
 			cacheSize: primaryInfo.cacheSize,
 			activeMethod: this.getActiveMethod(),
@@ -307,6 +389,7 @@ export class HybridEmbeddingManager implements EmbeddingModel {
 	 * Clear embedding cache for all managers
 	 */
 	clearCache(): void {
+		this.remoteManager?.clearCache();
 		this.tensorflowManager.clearCache();
 		this.fallbackManager.clearCache();
 		console.log("All embedding caches cleared");
@@ -334,6 +417,7 @@ export class HybridEmbeddingManager implements EmbeddingModel {
 	 * Cleanup resources
 	 */
 	async cleanup(): Promise<void> {
+		await this.remoteManager?.cleanup();
 		await this.tensorflowManager.cleanup();
 		await this.fallbackManager.cleanup();
 		this.isInitialized = false;
@@ -342,6 +426,38 @@ export class HybridEmbeddingManager implements EmbeddingModel {
 		console.log("Hybrid embedding manager cleaned up");
 	}
 
+	/**
+	 * Initialize the remote provider; returns false when it is missing or unreachable
+	 */
+	private async initializeRemote(): Promise<boolean> {
+		if (!this.remoteManager) return false;
+		if (this.remoteManager.isReady()) return true;
+
+		try {
+			await this.remoteManager.initialize();
+			return true;
+		} catch (error) {
+			const errorMsg =
+				error instanceof Error ? error.message : String(error);
+			console.warn(`Remote embedding provider unavailable: ${errorMsg}`);
+
+			if (this.config.method === "openai") {
+				throw new Error(
+					`Remote embeddings required but unavailable: ${errorMsg}`
+				);
+			}
+			return false;
+		}
+	}
+
+	/**
+	 * Only TensorFlow.js falls back mid-session. A failing remote provider is
+	 * usually a transient network error and must not silently switch the index.
+	 */
+	private canFallBackAtRuntime(): boolean {
+		return !this.usingFallback && this.primaryManager === this.tensorflowManager;
+	}
+
 	/**
 	 * Initialize TensorFlow.js with timeout and fallback
 	 */
@@ -392,6 +508,20 @@ export class HybridEmbeddingManager implements EmbeddingModel {
 		}
 	}
 
+	/**
+	 * Switch to TF-IDF after the primary method failed mid-session, preparing
+	 * its model first since none was loaded while another method was active
+	 */
+	private async fallBackAtRuntime(reason: string): Promise<void> {
+		this.useFallback(reason);
+		if (this.config.prepareFallback) {
+			this.fallbackPreparation = this.config.prepareFallback().catch((error) => {
+				console.error("Failed to prepare the TF-IDF model:", error);
+			});
+			await this.fallbackPreparation;
+		}
+	}
+
 	/**
 	 * Switch to fallback manager (TF-IDF)
 	 */
@@ -399,14 +529,6 @@ export class HybridEmbeddingManager implements EmbeddingModel {
 		console.log(`Using TF-IDF fallback: ${reason}`);
 		this.primaryManager = this.fallbackManager;
 		this.usingFallback = true;
-		this.updateDimensions();
-	}
-
-	/**
-	 * Update dimensions based on active manager
-	 */
-	private updateDimensions(): void {
-		(this as any).dimensions = this.primaryManager.dimensions;
 	}
 
 	/**
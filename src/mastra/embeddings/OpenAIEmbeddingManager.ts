@@ -1,5 +1,18 @@
-// OpenAI Embedding Manager using text-embedding-3-small
-import { EmbeddingModel } from "../mastra/agents/types";
+// Embedding manager for OpenAI and OpenAI-compatible endpoints (Ollama, LM Studio, ...)
+import { EmbeddingModel } from "../agents/types";
+import type { IntelligencePluginSettings } from "../../types";
+import {
+	EMBEDDING_PROVIDER_BASE_URLS,
+	EmbeddingModelProviders,
+	EmbeddingModels,
+	KEYLESS_EMBEDDING_PROVIDERS,
+} from "../../constants";
+
+export interface EmbeddingProviderConfig {
+	baseUrl?: string; // API root, e.g. http://localhost:11434/v1
+	model?: string;
+	requiresApiKey?: boolean;
+}
 
 interface OpenAIEmbeddingResponse {
 	data: Array<{
@@ -14,22 +27,58 @@ interface OpenAIEmbeddingResponse {
 }
 
 /**
- * Manages embedding generation using OpenAI's text-embedding-3-small model
- * Provides fast, high-quality embeddings with real-time update capabilities
+ * Manages embedding generation through the OpenAI /embeddings API or any
+ * endpoint compatible with it. Dimensions are detected with a probe request
+ * during initialization.
  */
 export class OpenAIEmbeddingManager implements EmbeddingModel {
-	readonly name = "text-embedding-3-small";
-	readonly dimensions = 1536; // text-embedding-3-small dimensions
+	readonly name: string;
+	dimensions = 0; // Set from the probe request in initialize()
 
 	private apiKey: string | null = null;
 	private isInitialized = false;
 	private embedCache: Map<string, number[]> = new Map();
 	private batchSize = 100; // Optimal batch size for OpenAI API
 	private maxCacheSize = 2000; // Larger cache for cloud embeddings
-	private baseUrl = "https://api.openai.com/v1/embeddings";
+	private baseUrl: string;
+	private requiresApiKey: boolean;
 
-	constructor(apiKey?: string) {
+	constructor(apiKey?: string, config: EmbeddingProviderConfig = {}) {
 		this.apiKey = apiKey || null;
+		this.name = config.model || EmbeddingModels.OPENAI_EMBEDDING_SMALL;
+		const root = (config.baseUrl || EMBEDDING_PROVIDER_BASE_URLS[EmbeddingModelProviders.OPENAI] || "")
+			.replace(/\/+$/, "");
+		this.baseUrl = root.endsWith("/embeddings") ? root : `${root}/embeddings`;
+		this.requiresApiKey = config.requiresApiKey ?? true;
+	}
+
+	/**
+	 * Create a manager for the embedding provider configured in the plugin settings
+	 */
+	static fromSettings(settings: IntelligencePluginSettings): OpenAIEmbeddingManager {
+		const provider = settings.embeddingProvider || EmbeddingModelProviders.OPENAI;
+		const baseUrl = settings.embeddingBaseUrl?.trim() || EMBEDDING_PROVIDER_BASE_URLS[provider];
+		if (!baseUrl) {
+			throw new Error(`A base URL is required for the "${provider}" embedding provider`);
+		}
+
+		return new OpenAIEmbeddingManager(
+			settings.embeddingApiKey?.trim() || settings.openAIApiKey,
+			{
+				baseUrl,
+				model: settings.embeddingModel?.trim() || EmbeddingModels.OPENAI_EMBEDDING_SMALL,
+				requiresApiKey: OpenAIEmbeddingManager.providerRequiresApiKey(settings),
+			}
+		);
+	}
+
+	/**
+	 * Whether the configured provider needs an API key
+	 */
+	static providerRequiresApiKey(settings: IntelligencePluginSettings): boolean {
+		return !KEYLESS_EMBEDDING_PROVIDERS.includes(
+			settings.embeddingProvider || EmbeddingModelProviders.OPENAI
+		);
 	}
 
 	/**
@@ -51,22 +100,19 @@ export class OpenAIEmbeddingManager implements EmbeddingModel {
 			);
 			this.apiKey = apiKey;
 		}
-		if (!this.apiKey) {
+		if (!this.apiKey && this.requiresApiKey) {
 			throw new Error(
-				"OpenAI API key is required for embedding generation"
+				"An API key is required for this embedding provider"
 			);
 		}
 
-		// Test the API key with a simple embedding request
+		// Probe the endpoint: validates the key and detects the model's dimensions
 		try {
 			const processedText = this.preprocessText('test');
 
 			const response = await fetch(this.baseUrl, {
 				method: 'POST',
-				headers: {
-					'Authorization': `Bearer ${this.apiKey}`,
-					'Content-Type': 'application/json',
-				},
+				headers: this.getHeaders(),
 				body: JSON.stringify({
 					model: this.name,
 					input: processedText,
@@ -76,21 +122,22 @@ export class OpenAIEmbeddingManager implements EmbeddingModel {
 
 			if (!response.ok) {
 				const errorData = await response.json().catch(() => ({}));
-				throw new Error(`OpenAI API error: ${response.status} - ${errorData.error?.message || 'Unknown error'}`);
+				throw new Error(`Embedding API error: ${response.status} - ${errorData.error?.message || 'Unknown error'}`);
 			}
 
 			const data: OpenAIEmbeddingResponse = await response.json();
 
-			if (!data.data || data.data.length === 0) {
-				throw new Error('No embedding data received from OpenAI API');
+			if (!data.data || data.data.length === 0 || !data.data[0].embedding?.length) {
+				throw new Error('No embedding data received from embedding API');
 			}
 
+			this.dimensions = data.data[0].embedding.length;
 			this.isInitialized = true;
-			console.log('OpenAI embedding manager initialized successfully');
+			console.log(`Embedding manager initialized: ${this.name} (${this.dimensions} dimensions) at ${this.baseUrl}`);
 		} catch (error) {
 			const errorMsg = error instanceof Error ? error.message : String(error);
-			console.error('Failed to initialize OpenAI embedding manager:', errorMsg);
-			throw new Error(`OpenAI API key validation failed: ${errorMsg}`);
+			console.error('Failed to initialize embedding manager:', errorMsg);
+			throw new Error(`Embedding provider check failed: ${errorMsg}`);
 		}
 	}
 
@@ -98,7 +145,7 @@ export class OpenAIEmbeddingManager implements EmbeddingModel {
 	 * Generate embedding for a single text
 	 */
 	async embed(text: string): Promise<number[]> {
-		if (!this.isInitialized || !this.apiKey) {
+		if (!this.isReady()) {
 			throw new Error("OpenAI embedding manager not initialized");
 		}
 
@@ -113,10 +160,7 @@ export class OpenAIEmbeddingManager implements EmbeddingModel {
 
 			const response = await fetch(this.baseUrl, {
 				method: "POST",
-				headers: {
-					Authorization: `Bearer ${this.apiKey}`,
-					"Content-Type": "application/json",
-				},
+				headers: this.getHeaders(),
 				body: JSON.stringify({
 					model: this.name,
 					input: processedText,
@@ -127,7 +171,7 @@ export class OpenAIEmbeddingManager implements EmbeddingModel {
 			if (!response.ok) {
 				const errorData = await response.json().catch(() => ({}));
 				throw new Error(
-					`OpenAI API error: ${response.status} - ${
+					`Embedding API error: ${response.status} - ${
 						errorData.error?.message || "Unknown error"
 					}`
 				);
@@ -136,7 +180,7 @@ export class OpenAIEmbeddingManager implements EmbeddingModel {
 			const data: OpenAIEmbeddingResponse = await response.json();
 
 			if (!data.data || data.data.length === 0) {
-				throw new Error("No embedding data received from OpenAI API");
+				throw new Error("No embedding data received from embedding API");
 			}
 
 			const embedding = data.data[0].embedding;
@@ -162,7 +206,7 @@ export class OpenAIEmbeddingManager implements EmbeddingModel {
 	 * Generate embeddings for multiple texts (batch processing)
 	 */
 	async embedBatch(texts: string[]): Promise<number[][]> {
-		if (!this.isInitialized || !this.apiKey) {
+		if (!this.isReady()) {
 			throw new Error("OpenAI embedding manager not initialized");
 		}
 
@@ -203,10 +247,7 @@ export class OpenAIEmbeddingManager implements EmbeddingModel {
 
 					const response = await fetch(this.baseUrl, {
 						method: "POST",
-						headers: {
-							Authorization: `Bearer ${this.apiKey}`,
-							"Content-Type": "application/json",
-						},
+						headers: this.getHeaders(),
 						body: JSON.stringify({
 							model: this.name,
 							input: processedBatch,
@@ -219,7 +260,7 @@ export class OpenAIEmbeddingManager implements EmbeddingModel {
 							.json()
 							.catch(() => ({}));
 						throw new Error(
-							`OpenAI API error: ${response.status} - ${
+							`Embedding API error: ${response.status} - ${
 								errorData.error?.message || "Unknown error"
 							}`
 						);
@@ -309,7 +350,7 @@ export class OpenAIEmbeddingManager implements EmbeddingModel {
 		return {
 			name: this.name,
 			dimensions: this.dimensions,
-			isLocal: false,
+			isLocal: !this.requiresApiKey,
 			isInitialized: this.isInitialized,
 			cacheSize: this.embedCache.size,
 		};
@@ -319,7 +360,7 @@ export class OpenAIEmbeddingManager implements EmbeddingModel {
 	 * Check if embedding manager is ready
 	 */
 	isReady(): boolean {
-		return this.isInitialized && this.apiKey !== null;
+		return this.isInitialized && (this.apiKey !== null || !this.requiresApiKey);
 	}
 
 	/**
@@ -355,6 +396,19 @@ export class OpenAIEmbeddingManager implements EmbeddingModel {
 		console.log("OpenAI embedding manager cleaned up");
 	}
 
+	/**
+	 * Request headers; the Authorization header is omitted for keyless endpoints
+	 */
+	private getHeaders(): Record<string, string> {
+		const headers: Record<string, string> = {
+			"Content-Type": "application/json",
+		};
+		if (this.apiKey) {
+			headers.Authorization = `Bearer ${this.apiKey}`;
+		}
+		return headers;
+	}
+
 	/**
 	 * Preprocess text for embedding
 	 */
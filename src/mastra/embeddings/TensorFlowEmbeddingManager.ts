@@ -1,6 +1,6 @@
 // TensorFlow.js Embedding Manager using Universal Sentence Encoder
 import { Notice } from "obsidian";
-import { EmbeddingModel } from "../mastra/agents/types";
+import { EmbeddingModel } from "../agents/types";
 import { simpleHash } from "./utils/textProcessing";
 
 // Dynamic imports to handle TensorFlow.js loading gracefully
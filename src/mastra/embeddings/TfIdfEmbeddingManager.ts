@@ -1,6 +1,6 @@
 // TF-IDF Embedding Manager - Reliable browser-compatible embedding system
 import { Notice } from "obsidian";
-import { EmbeddingModel } from "../mastra/agents/types";
+import { EmbeddingModel } from "../agents/types";
 import {
 	preprocessText,
 	calculateTermFrequency,
@@ -24,6 +24,19 @@ export interface TfIdfConfig {
 	minWordLength?: number;
 }
 
+/**
+ * Serialized TF-IDF model. Terms are stored in vocabulary order with their
+ * document frequencies, so a loaded model reproduces the same vector space.
+ */
+export interface TfIdfModelData {
+	format: number;
+	version: string; // Hash of the settings and statistics below
+	settings: string;
+	totalDocuments: number;
+	terms: Array<[string, number]>;
+	builtAt: string;
+}
+
 interface DocumentData {
 	id: string;
 	content: string;
@@ -37,7 +50,9 @@ interface DocumentData {
  * text embeddings using term frequency-inverse document frequency calculations
  */
 export class TfIdfEmbeddingManager implements EmbeddingModel {
-	readonly name = "TF-IDF";
+	// Bump when tokenization or weighting changes so persisted models are rebuilt
+	static readonly MODEL_FORMAT = 1;
+
 	readonly dimensions: number;
 
 	private config: TfIdfConfig;
@@ -51,6 +66,7 @@ export class TfIdfEmbeddingManager implements EmbeddingModel {
 	private totalDocuments = 0;
 	private maxCacheSize = 1000;
 	private vocabularyLocked = false;
+	private modelVersion: string | null = null;
 
 	constructor(config: TfIdfConfig = {}) {
 		this.config = {
@@ -67,6 +83,13 @@ export class TfIdfEmbeddingManager implements EmbeddingModel {
 		this.dimensions = this.config.dimensions!;
 	}
 
+	/**
+	 * Includes the model version, so vectors from another model are never mixed in
+	 */
+	get name(): string {
+		return this.modelVersion ? `TF-IDF@${this.modelVersion}` : "TF-IDF";
+	}
+
 	/**
 	 * Initialize the TF-IDF embedding system
 	 */
@@ -206,6 +229,12 @@ export class TfIdfEmbeddingManager implements EmbeddingModel {
 			return "";
 		}
 
+		// A built model is frozen; changing its statistics would shift the vector space
+		if (this.vocabularyLocked) {
+			console.warn("TF-IDF model is built; rebuild it to include new documents");
+			return "";
+		}
+
 		const docId = createDocumentId(content, source);
 		const termFreq = calculateTermFrequency(tokens);
 
@@ -247,7 +276,7 @@ export class TfIdfEmbeddingManager implements EmbeddingModel {
 		}
 
 		// Lock vocabulary after initial corpus building
-		this.vocabularyLocked = true;
+		this.lockModel();
 
 		console.log(
 			`TF-IDF corpus ready: ${this.totalDocuments} documents, ${this.vocabulary.size} terms`
@@ -256,13 +285,122 @@ export class TfIdfEmbeddingManager implements EmbeddingModel {
 		return docIds;
 	}
 
+	/**
+	 * Build the model from a corpus, replacing any previous one. The result
+	 * depends only on the documents, not on their order: the vocabulary is the
+	 * `dimensions` terms with the highest document frequency, ties broken
+	 * alphabetically.
+	 */
+	async buildModel(
+		documents: Array<{ content: string; source?: string }>
+	): Promise<TfIdfModelData> {
+		if (!this.isInitialized) {
+			await this.initialize();
+		}
+
+		const documentFrequency = new Map<string, number>();
+		let totalDocuments = 0;
+
+		for (const doc of documents) {
+			const tokens = preprocessText(doc.content, {
+				removeStopwords: this.config.useStopwords,
+				applyStemming: this.config.useStemming,
+				minWordLength: this.config.minWordLength,
+			});
+			if (tokens.length === 0) continue;
+
+			totalDocuments++;
+			for (const token of new Set(tokens)) {
+				documentFrequency.set(token, (documentFrequency.get(token) || 0) + 1);
+			}
+		}
+
+		// Near-ubiquitous terms carry no signal, but only judge that on a real corpus
+		const maxDocumentFrequency =
+			totalDocuments >= 10
+				? this.config.maxDocumentFrequency! * totalDocuments
+				: Infinity;
+		const minDocumentFrequency = Math.min(
+			this.config.minDocumentFrequency!,
+			totalDocuments
+		);
+
+		const terms = [...documentFrequency.entries()]
+			.filter(([, df]) => df >= minDocumentFrequency && df <= maxDocumentFrequency)
+			.sort(([termA, dfA], [termB, dfB]) =>
+				dfB - dfA || (termA < termB ? -1 : termA > termB ? 1 : 0)
+			)
+			.slice(0, Math.min(this.dimensions, this.config.maxVocabularySize!));
+
+		const settings = this.getSettingsSignature();
+		const model: TfIdfModelData = {
+			format: TfIdfEmbeddingManager.MODEL_FORMAT,
+			version: simpleHash(JSON.stringify([settings, totalDocuments, terms])),
+			settings,
+			totalDocuments,
+			terms,
+			builtAt: new Date().toISOString(),
+		};
+
+		this.applyModel(model);
+		console.log(
+			`TF-IDF model ${model.version} built: ${totalDocuments} documents, ${terms.length} terms`
+		);
+		return model;
+	}
+
+	/**
+	 * Load a persisted model. Returns false if it was built with other settings
+	 * or an older format, in which case it must be rebuilt.
+	 */
+	loadModel(model: TfIdfModelData): boolean {
+		if (
+			model?.format !== TfIdfEmbeddingManager.MODEL_FORMAT ||
+			model.settings !== this.getSettingsSignature() ||
+			!Array.isArray(model.terms)
+		) {
+			return false;
+		}
+
+		this.applyModel(model);
+		return true;
+	}
+
+	/**
+	 * Export the current model, or null if none has been built
+	 */
+	exportModel(): TfIdfModelData | null {
+		if (!this.modelVersion) return null;
+
+		const terms: Array<[string, number]> = [...this.vocabulary.entries()]
+			.sort(([, indexA], [, indexB]) => indexA - indexB)
+			.map(([term]) => [term, this.documentFrequency.get(term) || 0]);
+		const settings = this.getSettingsSignature();
+
+		return {
+			format: TfIdfEmbeddingManager.MODEL_FORMAT,
+			version: this.modelVersion,
+			settings,
+			totalDocuments: this.totalDocuments,
+			terms,
+			builtAt: new Date().toISOString(),
+		};
+	}
+
+	/**
+	 * Version of the active model, or null if none has been built
+	 */
+	getModelVersion(): string | null {
+		return this.modelVersion;
+	}
+
 	/**
 	 * Find similar documents using cosine similarity
 	 */
 	async findSimilar(
 		queryText: string,
-		topK: number = 10,
-		threshold: number = 0.1
+		topK = 10,
+		threshold = 0.1
 	): Promise<
 		Array<{ id: string; score: number; content: string; source?: string }>
 	> {
@@ -357,11 +495,58 @@ export class TfIdfEmbeddingManager implements EmbeddingModel {
 		this.documents.clear();
 		this.totalDocuments = 0;
 		this.vocabularyLocked = false;
+		this.modelVersion = null;
 		this.isInitialized = false;
 
 		console.log("TF-IDF embedding manager cleaned up");
 	}
 
+	/**
+	 * Replace the vocabulary and statistics with a model and freeze it
+	 */
+	private applyModel(model: TfIdfModelData): void {
+		this.vocabulary.clear();
+		this.documentFrequency.clear();
+		model.terms.forEach(([term, df], index) => {
+			this.vocabulary.set(term, index);
+			this.documentFrequency.set(term, df);
+		});
+		this.totalDocuments = model.totalDocuments;
+		this.documents.clear();
+		this.vocabularyLocked = true;
+		this.modelVersion = model.version;
+		this.clearCache();
+	}
+
+	/**
+	 * Freeze an incrementally built corpus and give it a version
+	 */
+	private lockModel(): void {
+		this.vocabularyLocked = true;
+		const terms = [...this.vocabulary.keys()].map((term) => [
+			term,
+			this.documentFrequency.get(term) || 0,
+		]);
+		this.modelVersion = simpleHash(
+			JSON.stringify([this.getSettingsSignature(), this.totalDocuments, terms])
+		);
+	}
+
+	/**
+	 * Settings that shape the vector space
+	 */
+	private getSettingsSignature(): string {
+		return JSON.stringify([
+			this.config.dimensions,
+			this.config.maxVocabularySize,
+			this.config.minDocumentFrequency,
+			this.config.maxDocumentFrequency,
+			this.config.useStopwords,
+			this.config.useStemming,
+			this.config.minWordLength,
+		]);
+	}
+
 	/**
 	 * Generate TF-IDF vector from term frequencies
 	 */
@@ -8,12 +8,21 @@ import { ObsidianToolsImplementation } from "./tools/ObsidianTools";
 import { App } from "obsidian";
 import { MastraMemoryManager } from "./memory/MastraMemoryManager";
 import { SafetyManager } from "./safety/SafetyManager";
+import { ChangeJournal } from "./safety/ChangeJournal";
+import { parseSafetyPolicy } from "./safety/SafetyPolicy";
+import { UsageLedger } from "./usage/UsageLedger";
+import { getAgentModel } from "./agents/ModelRouting";
+import { getRequestContext } from "./RequestContext";
 import { MastraVectorStore } from "./agents/vectorstore/MastraVectorStore";
-import type { SafetyConfig, MemoryConfig } from "./agents/types";
+import { IndexManifest } from "./storage/IndexManifest";
+import { TfIdfModelStore } from "./storage/TfIdfModelStore";
+import { VaultIndexer } from "./indexing/VaultIndexer";
+import type { SafetyConfig, VectorSearchMode } from "./agents/types";
 import { openai } from "@ai-sdk/openai";
 import { z } from "zod";
 import { Agent } from "@mastra/core/agent";
-import type { IntelligencePluginSettings } from "../types";
+import type { AgentModelRole, IntelligencePluginSettings } from "../types";
+import type { HybridEmbeddingManager } from "./embeddings/HybridEmbeddingManager";
 
 // --- Inlined Agent Factory Functions ---
 
@@ -30,7 +39,7 @@ function createSupervisorAgent(
 		name: "Supervisor",
 		instructions: `You are the supervisor agent for an Obsidian intelligence system.\nYour role is to:\n1. Analyze user queries and determine which specialized agent should handle them\n2. Coordinate multiple agents when complex tasks require multiple steps\n3. Ensure responses are contextually appropriate for Obsidian users\n4. Maintain conversation flow and context\n\nAvailable agents:\n- Research: For finding information in the vault, semantic search, and knowledge retrieval\n- Refactoring: For code analysis, refactoring suggestions, and code improvements\n- Safety: For validating potentially destructive operations and risk assessment\n\nAlways provide clear, helpful responses that are specific to Obsidian workflows.`,
 		model: openaiClient || openai("gpt-4o-mini"),
-		tools: {
+		tools: ({ runtimeContext }) => ({
 			searchVault: {
 				description:
 					"Perform semantic search across all notes in the Obsidian vault",
@@ -46,21 +55,34 @@ function createSupervisorAgent(
 						.optional()
 						.default(true)
 						.describe("Include note content in results"),
+					mode: z
+						.enum(["dense", "lexical", "hybrid"])
+						.optional()
+						.default("hybrid")
+						.describe(
+							"Retrieval mode: semantic (dense), exact terms (lexical) or both (hybrid)"
+						),
 				}),
 				execute: async ({
 					query,
 					limit,
 					includeContent,
+					mode,
 				}: {
 					query: string;
 					limit?: number;
 					includeContent?: boolean;
+					mode?: VectorSearchMode;
 				}) => {
-					return await toolsImplementation.executeSearchVault({
-						query,
-						limit,
-						includeContent,
-					});
+					return await toolsImplementation.executeSearchVault(
+						{
+							query,
+							limit,
+							includeContent,
+							mode,
+						},
+						getRequestContext(runtimeContext)
+					);
 				},
 			},
 			memory: {
@@ -91,7 +113,7 @@ function createSupervisorAgent(
 					});
 				},
 			},
-		},
+		}),
 	});
 }
 
@@ -102,9 +124,9 @@ function createResearchAgent(toolsImplementation: ObsidianToolsImplementation, o
 	
 	return new Agent({
 		name: "Research",
-		instructions: `You are a research agent specialized in Obsidian vault analysis and knowledge retrieval.\nYour capabilities include:\n1. Semantic search across vault documents\n2. Finding relevant notes based on user queries\n3. Summarizing information from multiple sources\n4. Providing contextual answers with source citations\n5. Understanding Obsidian-specific concepts like backlinks, tags, and note relationships\n\nAlways provide sources for your information and explain how the information relates to the user's query.\nUse markdown formatting appropriate for Obsidian when presenting results.`,
+		instructions: `You are a research agent specialized in Obsidian vault analysis and knowledge retrieval.\nYour capabilities include:\n1. Semantic search across vault documents\n2. Finding relevant notes based on user queries\n3. Summarizing information from multiple sources\n4. Providing contextual answers with source citations\n5. Understanding Obsidian-specific concepts like backlinks, tags, and note relationships\n\nAlways provide sources for your information and explain how the information relates to the user's query.\nSearch results carry a citation marker such as [1]; put that marker right after each statement it supports.\nUse markdown formatting appropriate for Obsidian when presenting results.`,
 		model: openaiClient || openai("gpt-4o-mini"),
-		tools: {
+		tools: ({ runtimeContext }) => ({
 			searchVault: {
 				description:
 					"Perform semantic search across all notes in the Obsidian vault",
@@ -120,21 +142,34 @@ function createResearchAgent(toolsImplementation: ObsidianToolsImplementation, o
 						.optional()
 						.default(true)
 						.describe("Include note content in results"),
+					mode: z
+						.enum(["dense", "lexical", "hybrid"])
+						.optional()
+						.default("hybrid")
+						.describe(
+							"Retrieval mode: semantic (dense), exact terms (lexical) or both (hybrid)"
+						),
 				}),
 				execute: async ({
 					query,
 					limit,
 					includeContent,
+					mode,
 				}: {
 					query: string;
 					limit?: number;
 					includeContent?: boolean;
+					mode?: VectorSearchMode;
 				}) => {
-					return await toolsImplementation.executeSearchVault({
-						query,
-						limit,
-						includeContent,
-					});
+					return await toolsImplementation.executeSearchVault(
+						{
+							query,
+							limit,
+							includeContent,
+							mode,
+						},
+						getRequestContext(runtimeContext)
+					);
 				},
 			},
 			getNoteContent: {
@@ -181,7 +216,7 @@ function createResearchAgent(toolsImplementation: ObsidianToolsImplementation, o
 					);
 				},
 			},
-		},
+		}),
 	});
 }
 
@@ -198,7 +233,7 @@ function createRefactoringAgent(
 		name: "Refactoring",
 		instructions: `You are a code refactoring specialist focused on improving code quality and structure.\nYour expertise includes:\n1. Analyzing code for improvements and optimizations\n2. Suggesting refactoring patterns and best practices\n3. Identifying code smells and proposing solutions\n4. Ensuring code maintainability and readability\n5. Supporting multiple programming languages\n\nAlways explain your recommendations clearly and provide before/after examples when suggesting changes.\nConsider the broader context of the codebase when making suggestions.`,
 		model: openaiClient || openai("gpt-4o-mini"),
-		tools: {
+		tools: ({ runtimeContext }) => ({
 			searchVault: {
 				description:
 					"Perform semantic search across all notes in the Obsidian vault",
@@ -214,21 +249,34 @@ function createRefactoringAgent(
 						.optional()
 						.default(true)
 						.describe("Include note content in results"),
+					mode: z
+						.enum(["dense", "lexical", "hybrid"])
+						.optional()
+						.default("hybrid")
+						.describe(
+							"Retrieval mode: semantic (dense), exact terms (lexical) or both (hybrid)"
+						),
 				}),
 				execute: async ({
 					query,
 					limit,
 					includeContent,
+					mode,
 				}: {
 					query: string;
 					limit?: number;
 					includeContent?: boolean;
+					mode?: VectorSearchMode;
 				}) => {
-					return await toolsImplementation.executeSearchVault({
-						query,
-						limit,
-						includeContent,
-					});
+					return await toolsImplementation.executeSearchVault(
+						{
+							query,
+							limit,
+							includeContent,
+							mode,
+						},
+						getRequestContext(runtimeContext)
+					);
 				},
 			},
 			getNoteContent: {
@@ -265,14 +313,17 @@ function createRefactoringAgent(
 					content: string;
 					overwrite?: boolean;
 				}) => {
-					return await toolsImplementation.executeCreateNote({
-						path,
-						content,
-						overwrite,
-					});
+					return await toolsImplementation.executeCreateNote(
+						{
+							path,
+							content,
+							overwrite,
+						},
+						getRequestContext(runtimeContext)
+					);
 				},
 			},
-		},
+		}),
 	});
 }
 
@@ -352,6 +403,35 @@ function createSafetyAgent(toolsImplementation: ObsidianToolsImplementation, ope
 	});
 }
 
+/**
+ * Load the persisted TF-IDF model, building it from the vault when it is missing
+ * or stale and TF-IDF is in use. A rebuilt model gets a new version, which
+ * invalidates the stored vectors and manifest so every chunk is re-vectorized.
+ */
+async function prepareTfIdfModel(
+	app: App,
+	embeddingManager: HybridEmbeddingManager,
+	modelStore: TfIdfModelStore,
+	rebuild: boolean
+): Promise<void> {
+	const persisted = rebuild ? null : await modelStore.load();
+	if (persisted && embeddingManager.loadTfIdfModel(persisted)) {
+		console.log(`Loaded TF-IDF model ${persisted.version}`);
+		return;
+	}
+	if (!rebuild && !embeddingManager.usesCorpus()) return;
+
+	const documents = [];
+	for (const file of app.vault.getMarkdownFiles()) {
+		try {
+			documents.push({ content: await app.vault.cachedRead(file), source: file.path });
+		} catch (error) {
+			console.warn(`Skipping ${file.path} for the TF-IDF corpus:`, error);
+		}
+	}
+	await modelStore.save(await embeddingManager.buildTfIdfModel(documents));
+}
+
 /**
  * Creates and initializes the Mastra intelligence system with agents and tools.
  * This function sets up the Mastra orchestrator with agents, initializes the vector store,
@@ -364,31 +444,33 @@ export async function createMastraWithAgents({
 	settings,
 	plugin,
 	dataDir = ".obsidian/plugins/obsidian-intelligence/data",
+	rebuildTfIdfModel = false,
 }: {
 	app: App;
 	settings: IntelligencePluginSettings;
 	plugin: import("../main").default;
 	dataDir?: string;
+	rebuildTfIdfModel?: boolean; // Rebuild the TF-IDF model from the vault instead of loading it
 }) {
 	// Import the MastraOrchestrator
 	const { MastraOrchestrator } = await import("./MastraOrchestrator");
 	const { OpenAIEmbeddingManager } = await import("./embeddings/OpenAIEmbeddingManager");
+	const { HybridEmbeddingManager } = await import("./embeddings/HybridEmbeddingManager");
 	
-	// Create and initialize vector store
-	const vectorStore = new MastraVectorStore(app, {
-		dataDir,
-		indexName: "obsidian-intelligence",
-		dimensions: 1536,
-		fileName: "mastra-vectors.json",
-	});
-
-	// Validate API key before proceeding
-	if (!settings.openAIApiKey || settings.openAIApiKey.trim() === '') {
+	// Validate API key before proceeding; only the strict "openai" embedding
+	// method needs one, every other method can come up offline
+	const hasApiKey = !!settings.openAIApiKey && settings.openAIApiKey.trim() !== '';
+	const embeddingMethod = settings.embeddingMethod || "auto";
+	const remoteUsable =
+		hasApiKey || !!settings.embeddingApiKey?.trim() || !OpenAIEmbeddingManager.providerRequiresApiKey(settings);
+	if (!remoteUsable && embeddingMethod === "openai") {
 		throw new Error("OpenAI API key is missing. Please configure your API key in plugin settings.");
 	}
 
 	// Set the API key as an environment variable for the AI SDK
-	if (typeof process !== 'undefined' && process.env) {
+	if (!hasApiKey) {
+		console.warn("No OpenAI API key configured; chat agents will be unavailable until one is set");
+	} else if (typeof process !== 'undefined' && process.env) {
 		process.env.OPENAI_API_KEY = settings.openAIApiKey;
 		console.log("Set OPENAI_API_KEY environment variable");
 	} else {
@@ -410,52 +492,89 @@ export async function createMastraWithAgents({
 		}
 	}
 
-	// Initialize embedding manager with error handling
-	let embeddingManager;
+	// Incremental indexing: the manifest records what is already embedded,
+	// kept per embedding method like the vector stores themselves
+	const manifestFileName = (method: string) =>
+		method === "openai" ? undefined : `index-manifest-${method}.json`;
+	const indexManifest = new IndexManifest(app, { dataDir });
+
+	// Initialize embedding manager with error handling. The remote provider's
+	// probe request detects the dimensions the vector store is sized with; when
+	// it is unreachable the hybrid manager falls back to TensorFlow.js or TF-IDF.
+	const vectorStore = new MastraVectorStore(app, {
+		dataDir,
+		indexName: "obsidian-intelligence",
+		fileName: "mastra-vectors.json",
+		onStoreSwitch: async (method) => {
+			await indexManifest.switchFile(manifestFileName(method));
+			const modelName = vectorStore.getEmbeddingModelName();
+			if (modelName) {
+				indexManifest.setEmbeddingModel(modelName);
+			}
+			indexManifest.setChunker(vectorStore.getChunkerSignature());
+		},
+	});
+	const tfIdfModelStore = new TfIdfModelStore(app, { dataDir });
+	let embeddingManager: HybridEmbeddingManager;
 	try {
-		embeddingManager = new OpenAIEmbeddingManager(settings.openAIApiKey);
+		embeddingManager = new HybridEmbeddingManager({
+			method: embeddingMethod,
+			remoteManager: remoteUsable ? OpenAIEmbeddingManager.fromSettings(settings) : undefined,
+			// A runtime fallback to TF-IDF needs a model even if none was loaded at startup
+			prepareFallback: () => prepareTfIdfModel(app, embeddingManager, tfIdfModelStore, false),
+		});
+		await embeddingManager.initialize();
+		await prepareTfIdfModel(app, embeddingManager, tfIdfModelStore, rebuildTfIdfModel);
 		await vectorStore.initialize(embeddingManager, app);
 	} catch (error) {
 		console.error("Failed to initialize embedding manager:", error);
 		throw new Error(`Vector store initialization failed: ${error instanceof Error ? error.message : String(error)}`);
 	}
 
+	await indexManifest.switchFile(manifestFileName(vectorStore.getEmbeddingMethod()));
+	await indexManifest.initialize();
+	const vaultIndexer = new VaultIndexer(app, vectorStore, indexManifest);
+
 	const memoryDefaults = { dataDir };
 	const safetyDefaults: SafetyConfig = {
 		requireApprovalForDestruction: true,
 		sessionTimeout: 3600000,
 		maxAutoApprovals: 10,
+		policyRules: parseSafetyPolicy(settings.safetyPolicy || "").rules,
 	};
 	
 	// Create simplified memory manager without complex Mastra storage for now
 	const memoryManager = new MastraMemoryManager(app, memoryDefaults);
+	await memoryManager.initialize();
 	const safetyManager = new SafetyManager(safetyDefaults);
+	await safetyManager.initialize();
+	const changeJournal = new ChangeJournal(app, { dataDir });
+	await changeJournal.initialize();
+	const usageLedger = new UsageLedger(app, { dataDir, budgets: settings.usageBudgets });
+	await usageLedger.initialize();
 	const toolsImplementation = new ObsidianToolsImplementation(
 		app,
 		vectorStore,
 		memoryManager,
-		safetyManager
+		safetyManager,
+		changeJournal
 	);
 	
-	// Create OpenAI client instance to share across agents
-	let openaiClient;
-	try {
-		openaiClient = openai("gpt-4o-mini");
-		console.log("Created OpenAI client");
-	} catch (error) {
-		console.error("Failed to create OpenAI client:", error);
-		throw new Error(`OpenAI client creation failed: ${error instanceof Error ? error.message : String(error)}`);
-	}
+	// Each agent runs on the model the settings route it to
+	const createModel = (role: AgentModelRole) => openai(getAgentModel(settings, role));
 
-	// Create agents with error handling
-	let agents;
+	// Create agents with error handling. Without an API key only indexing and
+	// search run; the orchestrator reports the missing key on each request.
+	let agents = {};
 	try {
-		agents = {
-			supervisor: createSupervisorAgent(toolsImplementation, settings.openAIApiKey, openaiClient),
-			research: createResearchAgent(toolsImplementation, settings.openAIApiKey, openaiClient),
-			refactoring: createRefactoringAgent(toolsImplementation, settings.openAIApiKey, openaiClient),
-			safety: createSafetyAgent(toolsImplementation, settings.openAIApiKey, openaiClient),
-		};
+		if (hasApiKey) {
+			agents = {
+				supervisor: createSupervisorAgent(toolsImplementation, settings.openAIApiKey, createModel("supervisor")),
+				research: createResearchAgent(toolsImplementation, settings.openAIApiKey, createModel("research")),
+				refactoring: createRefactoringAgent(toolsImplementation, settings.openAIApiKey, createModel("refactoring")),
+				safety: createSafetyAgent(toolsImplementation, settings.openAIApiKey, createModel("safety")),
+			};
+		}
 	} catch (error) {
 		console.error("Failed to create agents:", error);
 		throw new Error(`Agent creation failed: ${error instanceof Error ? error.message : String(error)}`);
@@ -471,6 +590,8 @@ export async function createMastraWithAgents({
 		settings,
 		plugin,
 		dataDir,
+		vaultIndexer,
+		usageLedger,
 	});
 	
 	// Setup the controller agent with tools implementation
@@ -0,0 +1,317 @@
+// Splits Markdown notes into chunks along their structure
+export interface MarkdownChunkerConfig {
+	maxChunkSize?: number; // Soft limit in characters
+}
+
+export interface MarkdownChunk {
+	content: string;
+	headingPath: string[]; // Enclosing headings, outermost first
+	startLine: number; // 1-based, inclusive
+	endLine: number; // 1-based, inclusive
+}
+
+type BlockType = "heading" | "code" | "callout" | "table" | "list" | "paragraph";
+
+interface Block {
+	type: BlockType;
+	lines: string[];
+	startLine: number; // 0-based index into the note
+	endLine: number; // 0-based, inclusive
+	level?: number; // Heading level
+}
+
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const FENCE = /^\s*(`{3,}|~{3,})/;
+const LIST_ITEM = /^(\s*)([-*+]|\d+[.)])\s+/;
+const TABLE_ROW = /^\s*\|/;
+const QUOTE = /^\s*>/;
+
+/**
+ * Structure-aware Markdown chunker. Chunks never cross a heading and never cut
+ * through a code fence, callout, table or list item unless that block alone is
+ * larger than the size limit, in which case it is split on line boundaries.
+ */
+export class MarkdownChunker {
+	// Bump when chunk boundaries or metadata change so existing indexes rebuild
+	static readonly VERSION = "markdown-v2";
+
+	private maxChunkSize: number;
+
+	constructor(config: MarkdownChunkerConfig = {}) {
+		this.maxChunkSize = config.maxChunkSize || 1000;
+	}
+
+	/**
+	 * Split a note into chunks
+	 */
+	chunk(text: string): MarkdownChunk[] {
+		const lines = text.split(/\r?\n/);
+		const blocks = this.parseBlocks(lines, this.frontmatterEnd(lines));
+		const chunks: MarkdownChunk[] = [];
+		const headingStack: { level: number; title: string }[] = [];
+
+		let current: Block[] = [];
+		let currentSize = 0;
+		let currentPath: string[] = [];
+
+		const flush = () => {
+			if (current.length > 0 && current.some((block) => block.type !== "heading")) {
+				chunks.push(this.toChunk(current, currentPath));
+			}
+			current = [];
+			currentSize = 0;
+		};
+
+		for (const block of blocks) {
+			if (block.type === "heading") {
+				flush();
+				while (
+					headingStack.length > 0 &&
+					headingStack[headingStack.length - 1].level >= (block.level as number)
+				) {
+					headingStack.pop();
+				}
+				headingStack.push({
+					level: block.level as number,
+					title: HEADING.exec(block.lines[0])?.[2] || "",
+				});
+				currentPath = headingStack.map((heading) => heading.title);
+				current = [block];
+				currentSize = block.lines[0].length;
+				continue;
+			}
+
+			for (const piece of this.splitOversized(block)) {
+				const size = this.blockSize(piece);
+				if (currentSize + size > this.maxChunkSize && current.some((b) => b.type !== "heading")) {
+					flush();
+				}
+				current.push(piece);
+				currentSize += size + 1;
+			}
+		}
+		flush();
+
+		return chunks;
+	}
+
+	/**
+	 * Identifies the chunking scheme and size, for index invalidation
+	 */
+	getSignature(): string {
+		return `${MarkdownChunker.VERSION}:${this.maxChunkSize}`;
+	}
+
+	/**
+	 * Format a heading path for display, e.g. "Project X > Risks > Budget"
+	 */
+	static formatHeadingPath(headingPath: string[]): string {
+		return headingPath.join(" > ");
+	}
+
+	/**
+	 * Index of the first line after YAML frontmatter, or 0 if there is none
+	 */
+	private frontmatterEnd(lines: string[]): number {
+		if (lines[0]?.trim() !== "---") return 0;
+
+		for (let i = 1; i < lines.length; i++) {
+			if (lines[i].trim() === "---" || lines[i].trim() === "...") {
+				return i + 1;
+			}
+		}
+		return 0;
+	}
+
+	/**
+	 * Group lines into block-level Markdown elements
+	 */
+	private parseBlocks(lines: string[], start: number): Block[] {
+		const blocks: Block[] = [];
+		let i = start;
+
+		while (i < lines.length) {
+			const line = lines[i];
+
+			if (line.trim() === "") {
+				i++;
+				continue;
+			}
+
+			const heading = HEADING.exec(line);
+			if (heading) {
+				blocks.push({ type: "heading", lines: [line], startLine: i, endLine: i, level: heading[1].length });
+				i++;
+				continue;
+			}
+
+			const fence = FENCE.exec(line);
+			if (fence) {
+				const marker = fence[1];
+				let end = i + 1;
+				while (end < lines.length && !lines[end].trim().startsWith(marker)) {
+					end++;
+				}
+				end = Math.min(end, lines.length - 1);
+				blocks.push({ type: "code", lines: lines.slice(i, end + 1), startLine: i, endLine: end });
+				i = end + 1;
+				continue;
+			}
+
+			if (QUOTE.test(line)) {
+				const end = this.scanWhile(lines, i, (l) => QUOTE.test(l));
+				blocks.push({ type: "callout", lines: lines.slice(i, end), startLine: i, endLine: end - 1 });
+				i = end;
+				continue;
+			}
+
+			if (TABLE_ROW.test(line)) {
+				const end = this.scanWhile(lines, i, (l) => TABLE_ROW.test(l));
+				blocks.push({ type: "table", lines: lines.slice(i, end), startLine: i, endLine: end - 1 });
+				i = end;
+				continue;
+			}
+
+			const listItem = LIST_ITEM.exec(line);
+			if (listItem) {
+				// Each top-level item, with its nested items and continuation lines, is one block
+				const indent = listItem[1].length;
+				const end = this.scanWhile(lines, i + 1, (l) => {
+					if (l.trim() === "") return false;
+					const nested = LIST_ITEM.exec(l);
+					if (nested) return nested[1].length > indent;
+					return !HEADING.test(l) && !FENCE.test(l) && /^\s/.test(l);
+				});
+				blocks.push({ type: "list", lines: lines.slice(i, end), startLine: i, endLine: end - 1 });
+				i = end;
+				continue;
+			}
+
+			const end = this.scanWhile(lines, i, (l) =>
+				l.trim() !== "" && !HEADING.test(l) && !FENCE.test(l) && !LIST_ITEM.test(l) &&
+				!TABLE_ROW.test(l) && !QUOTE.test(l)
+			);
+			blocks.push({ type: "paragraph", lines: lines.slice(i, end), startLine: i, endLine: end - 1 });
+			i = end;
+		}
+
+		return blocks;
+	}
+
+	private scanWhile(lines: string[], start: number, predicate: (line: string) => boolean): number {
+		let end = start;
+		while (end < lines.length && predicate(lines[end])) {
+			end++;
+		}
+		return end;
+	}
+
+	/**
+	 * Break a block that exceeds the size limit on line (or sentence) boundaries.
+	 * Table pieces repeat the header row and code pieces are re-fenced.
+	 */
+	private splitOversized(block: Block): Block[] {
+		if (this.blockSize(block) <= this.maxChunkSize) {
+			return [block];
+		}
+
+		if (block.lines.length === 1) {
+			return this.splitSentences(block);
+		}
+
+		let prefix: string[] = [];
+		let suffix: string[] = [];
+		let body = block.lines;
+		let bodyStart = block.startLine;
+
+		if (block.type === "table" && block.lines.length > 2) {
+			prefix = block.lines.slice(0, 2);
+			body = block.lines.slice(2);
+			bodyStart += 2;
+		} else if (block.type === "code" && block.lines.length > 2) {
+			const closed = FENCE.test(block.lines[block.lines.length - 1]);
+			prefix = [block.lines[0]];
+			suffix = [FENCE.exec(block.lines[0])?.[1] || "```"];
+			body = block.lines.slice(1, closed ? -1 : undefined);
+			bodyStart += 1;
+		}
+
+		const overhead = [...prefix, ...suffix].reduce((sum, line) => sum + line.length + 1, 0);
+		const pieces: Block[] = [];
+		let pieceLines: string[] = [];
+		let pieceStart = bodyStart;
+		let pieceSize = overhead;
+
+		// Line ranges of later pieces cover only their own body lines
+		const pushPiece = (endLine: number) => {
+			pieces.push({
+				type: block.type,
+				lines: [...prefix, ...pieceLines, ...suffix],
+				startLine: pieces.length === 0 ? block.startLine : pieceStart,
+				endLine,
+			});
+		};
+
+		body.forEach((line, index) => {
+			if (pieceSize + line.length > this.maxChunkSize && pieceLines.length > 0) {
+				pushPiece(bodyStart + index - 1);
+				pieceLines = [];
+				pieceStart = bodyStart + index;
+				pieceSize = overhead;
+			}
+			pieceLines.push(line);
+			pieceSize += line.length + 1;
+		});
+		if (pieceLines.length > 0) {
+			pushPiece(block.endLine);
+		}
+
+		return pieces.flatMap((piece) =>
+			piece.lines.length === 1 ? this.splitSentences(piece) : [piece]
+		);
+	}
+
+	/**
+	 * Split a single long line into sentence-sized pieces
+	 */
+	private splitSentences(block: Block): Block[] {
+		const sentences = block.lines[0].match(/[^.!?]+[.!?]*\s*/g) || [block.lines[0]];
+		const pieces: Block[] = [];
+		let current = "";
+
+		for (const sentence of sentences) {
+			if (current.length + sentence.length > this.maxChunkSize && current.length > 0) {
+				pieces.push({ ...block, lines: [current.trim()] });
+				current = "";
+			}
+			current += sentence;
+		}
+		if (current.trim().length > 0) {
+			pieces.push({ ...block, lines: [current.trim()] });
+		}
+		return pieces;
+	}
+
+	private blockSize(block: Block): number {
+		return block.lines.reduce((sum, line) => sum + line.length + 1, 0);
+	}
+
+	private toChunk(blocks: Block[], headingPath: string[]): MarkdownChunk {
+		const first = blocks[0];
+		const last = blocks[blocks.length - 1];
+		return {
+			content: blocks
+				.map((block, index) => {
+					const previous = blocks[index - 1];
+					// Keep adjacent blocks (e.g. list items) tight, as in the note
+					const separator = !previous ? "" : block.startLine === previous.endLine + 1 ? "\n" : "\n\n";
+					return separator + block.lines.join("\n");
+				})
+				.join("")
+				.trim(),
+			headingPath,
+			startLine: first.startLine + 1,
+			endLine: last.endLine + 1,
+		};
+	}
+}
@@ -0,0 +1,323 @@
+// Keeps the vector store in sync with the vault through file events
+import { App, EventRef, TAbstractFile, TFile } from "obsidian";
+import { MastraVectorStore } from "../agents/vectorstore/MastraVectorStore";
+import { IndexManifest } from "../storage/IndexManifest";
+import { simpleHash } from "../embeddings/utils/textProcessing";
+
+export interface VaultIndexerConfig {
+	debounceMs?: number;
+}
+
+export interface ReconcileResult {
+	indexed: number;
+	removed: number;
+	unchanged: number;
+	failed: number;
+}
+
+// A created file has nothing indexed yet; a modified one may be indexed
+// under its path, so it can't be treated as new when it is renamed
+type PendingChange =
+	| { type: "create" }
+	| { type: "modify" }
+	| { type: "delete" }
+	| { type: "rename"; oldPath: string };
+
+/**
+ * Subscribes to vault create/modify/rename/delete events, debounces them and
+ * re-embeds only what changed. A persisted manifest of per-file hashes lets
+ * startup reconcile just the drift since the last session.
+ */
+export class VaultIndexer {
+	private app: App;
+	private vectorStore: MastraVectorStore;
+	private manifest: IndexManifest;
+	private debounceMs: number;
+	private eventRefs: EventRef[] = [];
+	private pending: Map<string, PendingChange> = new Map();
+	private flushTimer: number | null = null;
+	private processing: Promise<void> = Promise.resolve();
+	private isRunning = false;
+	// Once stopped, the indexer belongs to a torn-down store and never starts again
+	private stopped = false;
+
+	constructor(
+		app: App,
+		vectorStore: MastraVectorStore,
+		manifest: IndexManifest,
+		config: VaultIndexerConfig = {}
+	) {
+		this.app = app;
+		this.vectorStore = vectorStore;
+		this.manifest = manifest;
+		this.debounceMs = config.debounceMs ?? 2000;
+	}
+
+	/**
+	 * Start listening to vault events, unless the indexer was stopped
+	 */
+	start(): void {
+		if (this.isRunning || this.stopped) return;
+		this.isRunning = true;
+
+		this.eventRefs.push(
+			this.app.vault.on("create", (file) => this.queue(file, { type: "create" })),
+			this.app.vault.on("modify", (file) => this.queueModify(file)),
+			this.app.vault.on("delete", (file) => this.queueDelete(file)),
+			this.app.vault.on("rename", (file, oldPath) => this.queueRename(file, oldPath))
+		);
+		console.log("VaultIndexer listening for vault changes");
+	}
+
+	/**
+	 * Stop listening and flush whatever is still queued
+	 */
+	async stop(): Promise<void> {
+		this.stopped = true;
+		if (!this.isRunning) return;
+		this.isRunning = false;
+
+		for (const ref of this.eventRefs) {
+			this.app.vault.offref(ref);
+		}
+		this.eventRefs = [];
+
+		await this.flush();
+	}
+
+	/**
+	 * Bring the index in line with the vault, embedding only files whose
+	 * content changed since they were last recorded in the manifest
+	 */
+	async reconcile(): Promise<ReconcileResult> {
+		const run = this.processing.then(() => this.reconcileNow());
+		this.processing = run.then(
+			() => undefined,
+			() => undefined
+		);
+		return run;
+	}
+
+	/**
+	 * Process queued changes immediately
+	 */
+	async flush(): Promise<void> {
+		if (this.flushTimer !== null) {
+			window.clearTimeout(this.flushTimer);
+			this.flushTimer = null;
+		}
+
+		const changes = new Map(this.pending);
+		this.pending.clear();
+		if (changes.size === 0) {
+			return this.processing;
+		}
+
+		// A failed batch is logged; it must not stop the batches after it
+		const run = this.processing.then(() => this.applyChanges(changes));
+		this.processing = run.then(
+			() => undefined,
+			(error) => console.error("VaultIndexer failed to apply changes:", error)
+		);
+		return this.processing;
+	}
+
+	/**
+	 * Whether the indexer was stopped, e.g. by a re-initialization
+	 */
+	isStopped(): boolean {
+		return this.stopped;
+	}
+
+	/**
+	 * Number of changes waiting for the debounce timer
+	 */
+	getPendingCount(): number {
+		return this.pending.size;
+	}
+
+	/**
+	 * Whether the index is built with a local (offline) embedding method
+	 */
+	isOffline(): boolean {
+		return this.vectorStore.getEmbeddingMethod() !== "openai";
+	}
+
+	private queue(file: TAbstractFile, change: PendingChange): void {
+		if (!this.isIndexable(file)) return;
+
+		this.pending.set(file.path, change);
+		this.scheduleFlush();
+	}
+
+	private queueModify(file: TAbstractFile): void {
+		// A created or renamed file is re-read when its change is applied anyway
+		const previous = this.pending.get(file.path);
+		if (previous?.type === "create" || previous?.type === "rename") {
+			this.scheduleFlush();
+			return;
+		}
+		this.queue(file, { type: "modify" });
+	}
+
+	private queueDelete(file: TAbstractFile): void {
+		// A file renamed and deleted within one debounce window is still indexed under its old path
+		const previous = this.pending.get(file.path);
+		if (previous?.type === "rename" && this.isIndexable(file)) {
+			this.pending.set(previous.oldPath, { type: "delete" });
+		}
+		this.queue(file, { type: "delete" });
+	}
+
+	private queueRename(file: TAbstractFile, oldPath: string): void {
+		if (!this.isIndexable(file)) return;
+
+		const previous = this.pending.get(oldPath);
+		this.pending.delete(oldPath);
+
+		// A file created and renamed within one debounce window has nothing to move
+		if (previous?.type === "create") {
+			this.pending.set(file.path, { type: "create" });
+		} else {
+			const originalPath = previous?.type === "rename" ? previous.oldPath : oldPath;
+			this.pending.set(file.path, { type: "rename", oldPath: originalPath });
+		}
+		this.scheduleFlush();
+	}
+
+	private scheduleFlush(): void {
+		if (this.flushTimer !== null) {
+			window.clearTimeout(this.flushTimer);
+		}
+		this.flushTimer = window.setTimeout(() => {
+			this.flushTimer = null;
+			this.flush().catch((error) => {
+				console.error("VaultIndexer failed to apply changes:", error);
+			});
+		}, this.debounceMs);
+	}
+
+	private isIndexable(file: TAbstractFile): boolean {
+		return file instanceof TFile && file.extension === "md";
+	}
+
+	private async applyChanges(changes: Map<string, PendingChange>): Promise<void> {
+		for (const [path, change] of changes) {
+			try {
+				if (change.type === "delete") {
+					await this.vectorStore.removeFile(path);
+					this.manifest.delete(path);
+					continue;
+				}
+
+				const file = this.app.vault.getAbstractFileByPath(path);
+				if (!(file instanceof TFile)) continue;
+
+				if (change.type === "rename") {
+					const entry = this.manifest.get(change.oldPath);
+					await this.vectorStore.renameFile(
+						change.oldPath,
+						file,
+						entry?.chunkHashes.length || 0
+					);
+					this.manifest.rename(change.oldPath, path);
+				}
+
+				await this.syncFile(file);
+			} catch (error) {
+				console.error(`VaultIndexer failed to sync ${path}:`, error);
+			}
+		}
+
+		await this.manifest.save();
+	}
+
+	private async reconcileNow(): Promise<ReconcileResult> {
+		const result: ReconcileResult = { indexed: 0, removed: 0, unchanged: 0, failed: 0 };
+
+		const modelName = this.vectorStore.getEmbeddingModelName();
+		if (modelName) {
+			this.manifest.setEmbeddingModel(modelName);
+		}
+		this.manifest.setChunker(this.vectorStore.getChunkerSignature());
+
+		// A manifest without vectors behind it (e.g. a deleted vector file) is stale
+		if (this.manifest.size() > 0 && (await this.vectorStore.getDocumentCount()) === 0) {
+			console.log("Vector store is empty, discarding index manifest");
+			this.manifest.clear();
+		}
+
+		const files = this.app.vault.getMarkdownFiles();
+		const seen = new Set<string>();
+
+		for (const file of files) {
+			seen.add(file.path);
+			try {
+				const changed = await this.syncFile(file);
+				if (changed) {
+					result.indexed++;
+				} else {
+					result.unchanged++;
+				}
+			} catch (error) {
+				result.failed++;
+				console.warn(`Failed to index ${file.path}:`, error);
+			}
+		}
+
+		for (const path of this.manifest.paths()) {
+			if (seen.has(path)) continue;
+			try {
+				await this.vectorStore.removeFile(path);
+				this.manifest.delete(path);
+				result.removed++;
+			} catch (error) {
+				result.failed++;
+				console.warn(`Failed to remove ${path} from index:`, error);
+			}
+		}
+
+		await this.manifest.save();
+		console.log(
+			`Vault index reconciled: ${result.indexed} indexed, ${result.removed} removed, ${result.unchanged} unchanged, ${result.failed} failed`
+		);
+		return result;
+	}
+
+	/**
+	 * Re-embed a file if its content differs from the manifest.
+	 * Returns whether anything was re-indexed.
+	 */
+	private async syncFile(file: TFile): Promise<boolean> {
+		const entry = this.manifest.get(file.path);
+		if (entry && entry.mtime === file.stat.mtime && entry.size === file.stat.size) {
+			return false;
+		}
+
+		const content = await this.app.vault.cachedRead(file);
+		const hash = simpleHash(content);
+
+		if (entry && entry.hash === hash) {
+			this.manifest.set(file.path, {
+				...entry,
+				mtime: file.stat.mtime,
+				size: file.stat.size,
+			});
+			return false;
+		}
+
+		const chunkHashes = await this.vectorStore.indexFile(
+			file,
+			content,
+			entry?.chunkHashes
+		);
+		this.manifest.set(file.path, {
+			mtime: file.stat.mtime,
+			size: file.stat.size,
+			hash,
+			chunkHashes,
+			indexedAt: new Date().toISOString(),
+		});
+		return true;
+	}
+}
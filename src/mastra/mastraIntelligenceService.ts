@@ -5,10 +5,24 @@ import type {
 	IntelligencePluginSettings,
 	LangChainChatMessage,
 	MetadataFilter,
+	PlanEdits,
+	PlanPreview,
+	QueryOptions,
+	QueryResult,
+	UsageBudgets,
 } from "../types";
 import IntelligencePlugin from "../main";
 import { createMastraWithAgents } from "./index";
-import type { AgentResponse, ChatMessage } from "./agents/types";
+import { OpenAIEmbeddingManager } from "./embeddings/OpenAIEmbeddingManager";
+import type { ChangeJournal } from "./safety/ChangeJournal";
+import type { UsageLedger } from "./usage/UsageLedger";
+import type {
+	AgentResponse,
+	ApprovalEvent,
+	ApprovalResult,
+	ChatMessage,
+	SafetyPolicyRule,
+} from "./agents/types";
 
 export class MastraIntelligenceService {
 	private app: App;
@@ -17,6 +31,12 @@ export class MastraIntelligenceService {
 	private mastraOrchestrator: import("./MastraOrchestrator").MastraOrchestrator | null = null;
 	private isInitialized = false;
 	private isInitializing = false;
+	private rebuildTfIdfModel = false;
+	// Chat views listening for approvals; they outlive re-initialization
+	private approvalListeners: Set<(event: ApprovalEvent) => void> = new Set();
+	private unsubscribeApprovals: (() => void) | null = null;
+	// Chat views offering to resume plans interrupted by a reload
+	private interruptedPlanListeners: Set<(plans: PlanPreview[]) => void> = new Set();
 
 	constructor(
 		app: App,
@@ -39,7 +59,14 @@ export class MastraIntelligenceService {
 		this.isInitializing = true;
 		this.plugin.updateStatusBar("Intelligence: Initializing...");
 		try {
-			if (!this.settings.openAIApiKey) {
+			// Without a key the local embedding methods still run; only a
+			// strict "openai" embedding method cannot start
+			if (
+				!this.settings.openAIApiKey &&
+				!this.settings.embeddingApiKey &&
+				this.settings.embeddingMethod === "openai" &&
+				OpenAIEmbeddingManager.providerRequiresApiKey(this.settings)
+			) {
 				throw new Error(
 					"OpenAI API key is required. Please set your API key in plugin settings."
 				);
@@ -48,10 +75,19 @@ export class MastraIntelligenceService {
 				app: this.app,
 				settings: this.settings,
 				plugin: this.plugin,
+				rebuildTfIdfModel: this.rebuildTfIdfModel,
 			});
+			this.rebuildTfIdfModel = false;
+			this.unsubscribeApprovals = this.mastraOrchestrator
+				.getSafetyManager()
+				?.onApprovalChange((event) =>
+					this.approvalListeners.forEach((listener) => listener(event))
+				) || null;
 			this.isInitialized = true;
-			this.plugin.updateStatusBar("Intelligence: Ready");
+			this.plugin.updateStatusBar(this.getReadyStatus());
 			new Notice("Mastra Intelligence System Ready!");
+			void this.syncVaultIndex();
+			void this.announceInterruptedPlans();
 		} catch (error) {
 			const errorMessage =
 				error instanceof Error ? error.message : String(error);
@@ -64,11 +100,61 @@ export class MastraIntelligenceService {
 	}
 
 	async reInitialize(): Promise<void> {
-		this.isInitialized = false;
+		await this.cleanup();
 		this.plugin.updateStatusBar("Intelligence: Re-initializing...");
 		await this.initialize();
 	}
 
+	/**
+	 * Rebuild the TF-IDF model from the vault. Its new version invalidates the
+	 * offline index, so all chunks are re-vectorized by the following reconcile.
+	 */
+	async rebuildTfIdfIndex(): Promise<void> {
+		this.rebuildTfIdfModel = true;
+		await this.reInitialize();
+	}
+
+	/**
+	 * Reconcile the vector index with the vault, then keep it in sync
+	 * through vault events. Runs in the background after initialization.
+	 */
+	private async syncVaultIndex(): Promise<void> {
+		const orchestrator = this.mastraOrchestrator;
+		const indexer = orchestrator?.getVaultIndexer();
+		if (!indexer) return;
+
+		this.plugin.updateStatusBar("Intelligence: Indexing...");
+		try {
+			const result = await indexer.reconcile();
+			// A re-initialization or cleanup during the reconcile replaced this indexer
+			if (this.mastraOrchestrator !== orchestrator || indexer.isStopped()) {
+				return;
+			}
+			indexer.start();
+			if (result.indexed > 0 || result.removed > 0) {
+				new Notice(
+					`Vault index updated: ${result.indexed} notes indexed, ${result.removed} removed.`
+				);
+			}
+			this.plugin.updateStatusBar(this.getReadyStatus());
+		} catch (error) {
+			const errorMessage =
+				error instanceof Error ? error.message : String(error);
+			console.error("Vault indexing failed:", errorMessage);
+			new Notice(`Vault indexing failed: ${errorMessage}`);
+			this.plugin.updateStatusBar("Intelligence: Index Error");
+		}
+	}
+
+	/**
+	 * Status bar text once ready, flagging offline (local) embeddings
+	 */
+	private getReadyStatus(): string {
+		return this.mastraOrchestrator?.getVaultIndexer()?.isOffline()
+			? "Intelligence: Ready (offline)"
+			: "Intelligence: Ready";
+	}
+
 	getIsInitialized(): boolean {
 		return this.isInitialized;
 	}
@@ -76,8 +162,9 @@ export class MastraIntelligenceService {
 	async processQueryWithHistory(
 		semanticQuery: string,
 		history: LangChainChatMessage[],
-		metadataFilters?: MetadataFilter[]
-	): Promise<string | null> {
+		metadataFilters?: MetadataFilter[],
+		options: QueryOptions = {}
+	): Promise<QueryResult | null> {
 		if (!this.isInitialized || !this.mastraOrchestrator) {
 			new Notice(
 				"Intelligence Service is not initialized. Please try again or re-initialize."
@@ -102,19 +189,16 @@ export class MastraIntelligenceService {
 			}));
 			const response: AgentResponse = await this.mastraOrchestrator.run({
 				input: semanticQuery,
-				conversationId: "default", // TODO: Use real conversationId if available
+				conversationId: options.conversationId || "default",
 				chatHistory,
 				metadataFilters,
+				filterExpression: options.filterExpression,
+				onToken: options.onToken,
+				abortSignal: options.signal,
+				dryRun: options.dryRun,
 			});
 			this.plugin.updateStatusBar("Intelligence: Ready");
-			
-			// Check if the response was successful
-			if (!response.success) {
-				console.error("Agent response failed:", response.error);
-				return response.content; // Still return the error message to user
-			}
-			
-			return response.content;
+			return this.toQueryResult(response);
 		} catch (error) {
 			const errorMessage =
 				error instanceof Error ? error.message : String(error);
@@ -125,6 +209,119 @@ export class MastraIntelligenceService {
 		}
 	}
 
+	/**
+	 * Run a plan the user reviewed in the chat, by id, with their edits
+	 */
+	async runPlan(
+		planId: string,
+		edits: PlanEdits,
+		options: QueryOptions = {}
+	): Promise<QueryResult | null> {
+		return this.runStoredPlan("Running plan", options, (orchestrator, streamOptions) =>
+			orchestrator.runPlan(planId, edits, streamOptions)
+		);
+	}
+
+	/**
+	 * Resume a plan interrupted by a reload, skipping its completed tasks
+	 */
+	async resumePlan(
+		planId: string,
+		options: QueryOptions = {}
+	): Promise<QueryResult | null> {
+		return this.runStoredPlan("Resuming plan", options, (orchestrator, streamOptions) =>
+			orchestrator.resumePlan(planId, streamOptions)
+		);
+	}
+
+	/**
+	 * Cancel a running, pending or interrupted plan
+	 */
+	async cancelPlan(planId: string): Promise<void> {
+		await this.mastraOrchestrator?.cancelPlan(planId);
+	}
+
+	/**
+	 * Plans that were running when Obsidian closed, once initialized
+	 */
+	async getInterruptedPlans(): Promise<PlanPreview[]> {
+		if (!this.isInitialized || !this.mastraOrchestrator) return [];
+		return await this.mastraOrchestrator.getInterruptedPlans();
+	}
+
+	/**
+	 * Subscribe to the interrupted plans found when the service initializes
+	 */
+	onInterruptedPlans(listener: (plans: PlanPreview[]) => void): () => void {
+		this.interruptedPlanListeners.add(listener);
+		return () => this.interruptedPlanListeners.delete(listener);
+	}
+
+	private async announceInterruptedPlans(): Promise<void> {
+		try {
+			const plans = await this.getInterruptedPlans();
+			if (plans.length === 0) return;
+
+			new Notice(
+				`${plans.length === 1 ? "A plan was" : `${plans.length} plans were`} interrupted. Open the chat to resume or cancel.`
+			);
+			this.interruptedPlanListeners.forEach((listener) => listener(plans));
+		} catch (error) {
+			console.error("Failed to check for interrupted plans:", error);
+		}
+	}
+
+	private async runStoredPlan(
+		status: string,
+		options: QueryOptions,
+		run: (
+			orchestrator: import("./MastraOrchestrator").MastraOrchestrator,
+			streamOptions: { conversationId: string; onToken?: (token: string) => void; abortSignal?: AbortSignal }
+		) => Promise<AgentResponse>
+	): Promise<QueryResult | null> {
+		if (!this.isInitialized || !this.mastraOrchestrator) {
+			new Notice(
+				"Intelligence Service is not initialized. Please try again or re-initialize."
+			);
+			return null;
+		}
+		this.plugin.updateStatusBar(`Intelligence: ${status}...`);
+		try {
+			const response = await run(this.mastraOrchestrator, {
+				conversationId: options.conversationId || "default",
+				onToken: options.onToken,
+				abortSignal: options.signal,
+			});
+			this.plugin.updateStatusBar("Intelligence: Ready");
+			return this.toQueryResult(response);
+		} catch (error) {
+			const errorMessage =
+				error instanceof Error ? error.message : String(error);
+			new Notice(`Error ${status.toLowerCase()}: ${errorMessage}`);
+			console.error(errorMessage);
+			this.plugin.updateStatusBar("Intelligence: Error");
+			return null;
+		}
+	}
+
+	private toQueryResult(response: AgentResponse): QueryResult {
+		// Check if the response was successful
+		if (!response.success && !response.metadata?.stopped) {
+			console.error("Agent response failed:", response.error);
+			// Still return the error message to user
+		}
+
+		return {
+			content: response.content,
+			agentsUsed: response.metadata?.agentsUsed || [response.agentUsed],
+			citations: response.citations || [],
+			model: response.metadata?.model,
+			stopped: response.metadata?.stopped === true,
+			error: response.success ? undefined : response.error,
+			plan: response.plan,
+		};
+	}
+
 	setAutoApproval(enabled: boolean): void {
 		if (
 			this.mastraOrchestrator &&
@@ -134,6 +331,60 @@ export class MastraIntelligenceService {
 		}
 	}
 
+	/**
+	 * Subscribe to file operations waiting for approval and their outcomes
+	 */
+	onApprovalChange(listener: (event: ApprovalEvent) => void): () => void {
+		this.approvalListeners.add(listener);
+		return () => this.approvalListeners.delete(listener);
+	}
+
+	async approvePendingOperation(
+		requestId: string,
+		allowFutureAuto = false
+	): Promise<ApprovalResult | null> {
+		const safetyManager = this.mastraOrchestrator?.getSafetyManager();
+		if (!safetyManager) return null;
+		return await safetyManager.approvePendingOperation(requestId, allowFutureAuto);
+	}
+
+	async cancelPendingOperation(
+		requestId: string,
+		reason?: string
+	): Promise<ApprovalResult | null> {
+		const safetyManager = this.mastraOrchestrator?.getSafetyManager();
+		if (!safetyManager) return null;
+		return await safetyManager.cancelPendingOperation(requestId, reason);
+	}
+
+	/**
+	 * Apply new per-path safety policy rules without re-initializing
+	 */
+	setSafetyPolicyRules(rules: SafetyPolicyRule[]): void {
+		this.mastraOrchestrator?.getSafetyManager()?.setPolicyRules(rules);
+	}
+
+	/**
+	 * Get the journal for undoing agent file changes, once initialized
+	 */
+	getChangeJournal(): ChangeJournal | null {
+		return this.mastraOrchestrator?.getChangeJournal() || null;
+	}
+
+	/**
+	 * Apply new usage budgets without re-initializing
+	 */
+	setUsageBudgets(budgets: UsageBudgets): void {
+		this.mastraOrchestrator?.getUsageLedger()?.setBudgets(budgets);
+	}
+
+	/**
+	 * Get the ledger of the agents' token usage and cost, once initialized
+	 */
+	getUsageLedger(): UsageLedger | null {
+		return this.mastraOrchestrator?.getUsageLedger() || null;
+	}
+
 	getSystemStatus(): Record<string, unknown> {
 		if (this.mastraOrchestrator && this.mastraOrchestrator.getStatus) {
 			return this.mastraOrchestrator.getStatus();
@@ -145,6 +396,9 @@ export class MastraIntelligenceService {
 		if (this.mastraOrchestrator && this.mastraOrchestrator.cleanup) {
 			await this.mastraOrchestrator.cleanup();
 		}
+		this.unsubscribeApprovals?.();
+		this.unsubscribeApprovals = null;
+		this.mastraOrchestrator = null;
 		this.isInitialized = false;
 	}
 }
@@ -1,7 +1,7 @@
 // Enhanced memory manager for Obsidian Intelligence with execution context support
 import { ObsidianMemoryStore } from "../storage/ObsidianMemoryStore";
 import { ChatMessage } from "../agents/types";
-import { ExecutionContext, AgentInteraction, TaskArtifact } from "../planning/types";
+import { ExecutionContext, ExecutionPlan, AgentInteraction, TaskArtifact } from "../planning/types";
 import { App } from "obsidian";
 
 export interface MastraMemoryConfig {
@@ -29,6 +29,11 @@ export interface ExecutionContextData {
 	updatedAt: string;
 }
 
+// Finished plans beyond this many are dropped, oldest first
+const MAX_FINISHED_PLANS = 50;
+// Previewed plans that were never run are dropped after this long
+const MAX_PENDING_PLAN_AGE = 7 * 24 * 60 * 60 * 1000;
+
 /**
  * Simplified memory manager using direct Obsidian storage
  */
@@ -71,7 +76,7 @@ export class MastraMemoryManager {
 	/**
 	 * Add a message to a conversation thread
 	 */
-	async addMessage(message: ChatMessage, conversationId: string, userId: string = "default"): Promise<void> {
+	async addMessage(message: ChatMessage, conversationId: string, userId = "default"): Promise<void> {
 		if (!this.isInitialized) {
 			throw new Error("Memory manager not initialized");
 		}
@@ -98,7 +103,7 @@ export class MastraMemoryManager {
 	/**
 	 * Get conversation history from memory
 	 */
-	async getConversationHistory(conversationId: string, userId: string = "default"): Promise<ChatMessage[]> {
+	async getConversationHistory(conversationId: string, userId = "default"): Promise<ChatMessage[]> {
 		if (!this.isInitialized) {
 			throw new Error("Memory manager not initialized");
 		}
@@ -128,7 +133,7 @@ export class MastraMemoryManager {
 	/**
 	 * Clear conversation history for a specific thread
 	 */
-	async clearConversation(conversationId: string, userId: string = "default"): Promise<void> {
+	async clearConversation(conversationId: string, userId = "default"): Promise<void> {
 		if (!this.isInitialized) {
 			throw new Error("Memory manager not initialized");
 		}
@@ -146,7 +151,7 @@ export class MastraMemoryManager {
 	/**
 	 * Get all conversation IDs for a user
 	 */
-	async getConversationIds(userId: string = "default"): Promise<string[]> {
+	async getConversationIds(userId = "default"): Promise<string[]> {
 		if (!this.isInitialized) {
 			throw new Error("Memory manager not initialized");
 		}
@@ -165,7 +170,7 @@ export class MastraMemoryManager {
 	/**
 	 * Get conversation count
 	 */
-	async getConversationCount(userId: string = "default"): Promise<number> {
+	async getConversationCount(userId = "default"): Promise<number> {
 		try {
 			const conversationIds = await this.getConversationIds(userId);
 			return conversationIds.length;
@@ -178,7 +183,7 @@ export class MastraMemoryManager {
 	/**
 	 * Search through conversation history
 	 */
-	async searchConversations(query: string, userId: string = "default", limit: number = 10): Promise<ChatMessage[]> {
+	async searchConversations(query: string, userId = "default", limit = 10): Promise<ChatMessage[]> {
 		if (!this.isInitialized) {
 			throw new Error("Memory manager not initialized");
 		}
@@ -210,7 +215,7 @@ export class MastraMemoryManager {
 	/**
 	 * Add context or facts to memory for long-term retention
 	 */
-	async addContext(context: string, userId: string = "default", threadId?: string): Promise<void> {
+	async addContext(context: string, userId = "default", threadId?: string): Promise<void> {
 		if (!this.isInitialized) {
 			throw new Error("Memory manager not initialized");
 		}
@@ -233,7 +238,7 @@ export class MastraMemoryManager {
 	/**
 	 * Get stored context for a user
 	 */
-	async getContext(userId: string = "default", threadId?: string): Promise<string[]> {
+	async getContext(userId = "default", threadId?: string): Promise<string[]> {
 		if (!this.isInitialized) {
 			throw new Error("Memory manager not initialized");
 		}
@@ -258,7 +263,7 @@ export class MastraMemoryManager {
 	/**
 	 * Get memory statistics
 	 */
-	async getStats(userId: string = "default"): Promise<{
+	async getStats(userId = "default"): Promise<{
 		totalConversations: number;
 		totalMessages: number;
 		contextItems: number;
@@ -292,7 +297,11 @@ export class MastraMemoryManager {
 	/**
 	 * Store execution context for a plan
 	 */
-	async storeExecutionContext(context: ExecutionContext): Promise<void> {
+	async storeExecutionContext(
+		context: ExecutionContext,
+		status?: ExecutionContextData['status'],
+		artifacts: TaskArtifact[] = []
+	): Promise<void> {
 		if (!this.isInitialized) {
 			throw new Error("Memory manager not initialized");
 		}
@@ -310,9 +319,9 @@ export class MastraMemoryManager {
 				sessionStartTime: context.sessionStartTime.toISOString(),
 				totalTokensUsed: context.totalTokensUsed,
 				agentInteractions: context.agentInteractions,
-				artifacts: [],
-				status: context.failedTasks.length > 0 ? 'failed' : 
-						 context.completedTasks.length > 0 ? 'completed' : 'active',
+				artifacts,
+				status: status || (context.failedTasks.length > 0 ? 'failed' :
+					context.completedTasks.length > 0 ? 'completed' : 'active'),
 				createdAt: context.sessionStartTime.toISOString(),
 				updatedAt: new Date().toISOString()
 			};
@@ -356,6 +365,93 @@ export class MastraMemoryManager {
 		}
 	}
 
+	/**
+	 * Store an execution plan with its task statuses and outputs
+	 */
+	async storeExecutionPlan(plan: ExecutionPlan): Promise<void> {
+		if (!this.isInitialized) {
+			throw new Error("Memory manager not initialized");
+		}
+
+		try {
+			// Dates are stored as ISO strings
+			await this.storage.set(`plan:${plan.id}`, JSON.parse(JSON.stringify(plan)));
+			await this.pruneExecutionPlans();
+		} catch (error) {
+			console.error("Failed to store execution plan:", error);
+			throw error;
+		}
+	}
+
+	/**
+	 * Retrieve a stored execution plan
+	 */
+	async getExecutionPlan(planId: string): Promise<ExecutionPlan | null> {
+		if (!this.isInitialized) {
+			throw new Error("Memory manager not initialized");
+		}
+
+		try {
+			const planData = await this.storage.get(`plan:${planId}`);
+			return planData ? this.reviveExecutionPlan(planData) : null;
+		} catch (error) {
+			console.error("Failed to get execution plan:", error);
+			return null;
+		}
+	}
+
+	/**
+	 * All stored execution plans, most recent first
+	 */
+	async getExecutionPlans(): Promise<ExecutionPlan[]> {
+		if (!this.isInitialized) {
+			throw new Error("Memory manager not initialized");
+		}
+
+		try {
+			const entries = await this.storage.entries();
+			return entries
+				.filter(([key, value]) => key.startsWith("plan:") && value)
+				.map(([, value]) => this.reviveExecutionPlan(value))
+				.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+		} catch (error) {
+			console.error("Failed to get execution plans:", error);
+			return [];
+		}
+	}
+
+	/**
+	 * Drop the oldest finished plans, previewed plans left unrun, and their
+	 * execution contexts
+	 */
+	private async pruneExecutionPlans(): Promise<void> {
+		const plans = await this.getExecutionPlans();
+		const finished = plans.filter(
+			plan => plan.status === "completed" || plan.status === "failed" || plan.status === "cancelled"
+		);
+		const stalePending = plans.filter(
+			plan => plan.status === "pending" && Date.now() - plan.createdAt.getTime() > MAX_PENDING_PLAN_AGE
+		);
+		for (const plan of [...finished.slice(MAX_FINISHED_PLANS), ...stalePending]) {
+			await this.storage.delete(`plan:${plan.id}`);
+			await this.storage.delete(`execution:${plan.id}`);
+		}
+	}
+
+	private reviveExecutionPlan(planData: any): ExecutionPlan {
+		const toDate = (value?: string) => (value ? new Date(value) : undefined);
+		return {
+			...planData,
+			createdAt: new Date(planData.createdAt),
+			tasks: planData.tasks.map((task: any) => ({
+				...task,
+				createdAt: new Date(task.createdAt),
+				startedAt: toDate(task.startedAt),
+				completedAt: toDate(task.completedAt),
+			})),
+		};
+	}
+
 	/**
 	 * Store agent interaction
 	 */
@@ -3,32 +3,47 @@ import {
 	ExecutionPlan, 
 	Task, 
 	TaskResult, 
-	TaskStatus, 
 	ExecutionContext,
+	TaskDependency,
 	TaskExecutionError,
-	AgentInteraction,
-	TaskArtifact
+	TaskStatus,
+	FailurePolicy,
+	AgentInteraction
 } from "./types";
-import type { AgentResponse } from "../agents/types";
+import { evaluateCondition, findInputReferences, resolveTaskInput, UpstreamResult } from "./TaskDataflow";
+import type { RequestContext } from "../RequestContext";
 
 export interface ExecutionEngineConfig {
 	maxConcurrentTasks: number;
 	taskTimeout: number; // in milliseconds
 	enableRetries: boolean;
 	maxRetryDelay: number; // in milliseconds
+	// Persists the plan and context after each task so an interrupted plan can resume
+	checkpoint?: (plan: ExecutionPlan, context: ExecutionContext, result?: TaskResult) => Promise<void>;
+	// Checked before each task starts; a reason stops the plan, like a fail-fast failure
+	checkBudget?: (plan: ExecutionPlan, context: ExecutionContext, request?: RequestContext) => string | null;
 }
 
 export interface TaskExecutor {
-	executeTask(task: Task, context: ExecutionContext): Promise<TaskResult>;
+	executeTask(task: Task, context: ExecutionContext, signal?: AbortSignal, request?: RequestContext): Promise<TaskResult>;
 	getAgentId(): string;
 	isAvailable(): boolean;
 }
 
+// A skipped task may be blocked by a task that didn't complete
+type TaskReadiness = { state: "ready" } | { state: "waiting" } | { state: "skip"; reason: string; blockedBy?: string };
+
+const isFinished = (status: TaskStatus) => status !== "pending" && status !== "in_progress";
+
 export class ExecutionEngine {
 	private config: ExecutionEngineConfig;
 	private executors: Map<string, TaskExecutor> = new Map();
 	private runningTasks: Map<string, Promise<TaskResult>> = new Map();
 	private executionContext: ExecutionContext | null = null;
+	// Aborts the executor calls of each running plan
+	private planAbortControllers: Map<string, AbortController> = new Map();
+	// Checkpoints are written one at a time, in order
+	private checkpointQueue: Promise<void> = Promise.resolve();
 
 	constructor(config: ExecutionEngineConfig) {
 		this.config = config;
@@ -42,9 +57,17 @@ export class ExecutionEngine {
 	}
 
 	/**
-	 * Execute a complete execution plan
+	 * Execute a complete execution plan. Tasks already completed, e.g. before
+	 * an interruption, are skipped and keep their earlier results. Aborting the
+	 * signal or calling cancelExecution stops the plan. Every executor call gets
+	 * the request the plan runs for.
 	 */
-	async executePlan(plan: ExecutionPlan, context: ExecutionContext): Promise<{
+	async executePlan(
+		plan: ExecutionPlan,
+		context: ExecutionContext,
+		signal?: AbortSignal,
+		request?: RequestContext
+	): Promise<{
 		success: boolean;
 		results: TaskResult[];
 		errors: string[];
@@ -52,39 +75,59 @@ export class ExecutionEngine {
 	}> {
 		const startTime = Date.now();
 		this.executionContext = context;
+		const abortController = new AbortController();
+		const abort = () => abortController.abort();
+		signal?.addEventListener("abort", abort);
+		if (signal?.aborted) abort();
+		this.planAbortControllers.set(plan.id, abortController);
 		
 		try {
 			// Update plan status
 			plan.status = "in_progress";
 			
-			// Initialize execution tracking
-			const results: TaskResult[] = [];
+			// Initialize execution tracking, keeping the results of finished tasks
+			const results: TaskResult[] = plan.tasks
+				.filter(task => task.status === "completed")
+				.map(task => this.createRestoredResult(task));
 			const errors: string[] = [];
+			plan.tasks.forEach(task => {
+				// Interrupted mid-task: run it again
+				if (task.status === "in_progress") task.status = "pending";
+			});
+			await this.saveCheckpoint(plan, context);
 			
 			// Execute based on execution mode
 			if (plan.mode === "parallel") {
-				const parallelResults = await this.executeParallel(plan, context);
+				const parallelResults = await this.executeParallel(plan, context, abortController.signal, request);
 				results.push(...parallelResults.results);
 				errors.push(...parallelResults.errors);
 			} else {
-				const sequentialResults = await this.executeSequential(plan, context);
+				const sequentialResults = await this.executeSequential(plan, context, abortController.signal, request);
 				results.push(...sequentialResults.results);
 				errors.push(...sequentialResults.errors);
 			}
 			
-			// Update plan status based on results
-			const failedTasks = results.filter(r => r.status === "failed");
-			plan.status = failedTasks.length > 0 ? "failed" : "completed";
+			// Update plan status based on results; a failure a fallback recovered from doesn't fail the plan
+			const failedTasks = results.filter(r => r.status === "failed" && !this.isRecovered(plan, r.taskId));
+			if (abortController.signal.aborted) {
+				plan.status = "cancelled";
+				plan.tasks.forEach(task => {
+					if (task.status === "pending" || task.status === "in_progress") task.status = "cancelled";
+				});
+				errors.push("Execution cancelled");
+			} else {
+				plan.status = failedTasks.length > 0 ? "failed" : "completed";
+			}
 			
 			// Update execution context
 			context.completedTasks = results.filter(r => r.status === "completed").map(r => r.taskId);
 			context.failedTasks = failedTasks.map(r => r.taskId);
-			context.totalTokensUsed = results.reduce((sum, r) => sum + r.tokensUsed, context.totalTokensUsed);
+			await this.saveCheckpoint(plan, context);
 			
 			const duration = Date.now() - startTime;
 			
 			return {
-				success: failedTasks.length === 0,
+				success: failedTasks.length === 0 && !abortController.signal.aborted,
 				results,
 				errors,
 				duration
@@ -92,6 +135,7 @@ export class ExecutionEngine {
 			
 		} catch (error) {
 			plan.status = "failed";
+			await this.saveCheckpoint(plan, context);
 			const duration = Date.now() - startTime;
 			
 			return {
@@ -100,53 +144,87 @@ export class ExecutionEngine {
 				errors: [error instanceof Error ? error.message : String(error)],
 				duration
 			};
+		} finally {
+			signal?.removeEventListener("abort", abort);
+			this.planAbortControllers.delete(plan.id);
 		}
 	}
 
+	/**
+	 * Whether a plan is executing in this engine
+	 */
+	isPlanRunning(planId: string): boolean {
+		return this.planAbortControllers.has(planId);
+	}
+
 	/**
 	 * Execute tasks in parallel with dependency management
 	 */
-	private async executeParallel(plan: ExecutionPlan, context: ExecutionContext): Promise<{
+	private async executeParallel(
+		plan: ExecutionPlan,
+		context: ExecutionContext,
+		signal: AbortSignal,
+		request?: RequestContext
+	): Promise<{
 		results: TaskResult[];
 		errors: string[];
 	}> {
 		const results: TaskResult[] = [];
 		const errors: string[] = [];
-		const completed = new Set<string>();
 		const running = new Map<string, Promise<TaskResult>>();
+		let halted = false;
+		let budgetReason: string | null = null;
 		
 		// Build dependency map
 		const dependencyMap = this.buildDependencyMap(plan);
 		
-		// Continue until all tasks are processed
-		while (completed.size < plan.tasks.length) {
-			// Find tasks ready to execute
-			const readyTasks = plan.tasks.filter(task => 
-				!completed.has(task.id) && 
-				!running.has(task.id) &&
-				this.areDependenciesMet(task, completed, dependencyMap)
-			);
+		// Continue until all tasks are processed, a failure stops the plan or it is cancelled
+		while (!signal.aborted && !halted) {
+			// Skip the tasks of branches not taken, and find tasks ready to execute
+			const readyTasks: Task[] = [];
+			let skippedAny = false;
+			for (const task of plan.tasks) {
+				if (task.status !== "pending" || running.has(task.id)) continue;
+				const readiness = this.getReadiness(task, plan, dependencyMap);
+				if (readiness.state === "skip") {
+					this.skipTask(task, readiness.reason, readiness.blockedBy);
+					skippedAny = true;
+				} else if (readiness.state === "ready") {
+					readyTasks.push(task);
+				}
+			}
+			// A skipped task may decide the fate of the tasks after it
+			if (skippedAny) continue;
 			
 			// Start execution of ready tasks (up to concurrency limit)
 			const availableSlots = this.config.maxConcurrentTasks - running.size;
 			const tasksToStart = readyTasks.slice(0, availableSlots);
 			
 			for (const task of tasksToStart) {
-				const executionPromise = this.executeTask(task, context);
+				budgetReason = this.config.checkBudget?.(plan, context, request) || null;
+				if (budgetReason) {
+					halted = true;
+					break;
+				}
+				const executionPromise = this.executeTask(task, plan, context, signal, request);
 				running.set(task.id, executionPromise);
 				
 				// Handle completion
 				executionPromise.then(result => {
 					running.delete(task.id);
-					completed.add(task.id);
 					results.push(result);
 					
 					if (result.status === "failed") {
 						errors.push(`Task ${task.id} failed: ${result.error}`);
+						halted = halted || this.getFailurePolicy(plan, task) === "fail-fast";
+					}
+					if (result.output) {
+						context.sharedData[task.id] = result.output;
 					}
+					this.recordResult(context, result);
+					void this.saveCheckpoint(plan, context, result);
 				}).catch(error => {
 					running.delete(task.id);
-					completed.add(task.id);
 					errors.push(`Task ${task.id} error: ${error.message}`);
 				});
 			}
@@ -156,11 +234,12 @@ export class ExecutionEngine {
 				await Promise.race(Array.from(running.values()));
 			} else if (readyTasks.length === 0) {
 				// No tasks ready and none running - check for deadlock
-				const remainingTasks = plan.tasks.filter(task => !completed.has(task.id));
+				const remainingTasks = plan.tasks.filter(task => task.status === "pending");
 				if (remainingTasks.length > 0) {
 					errors.push(`Execution deadlock: remaining tasks have unmet dependencies`);
-					break;
+					remainingTasks.forEach(task => this.skipTask(task, "its dependencies never finished"));
 				}
+				break;
 			}
 		}
 		
@@ -168,6 +247,7 @@ export class ExecutionEngine {
 		if (running.size > 0) {
 			await Promise.all(Array.from(running.values()));
 		}
+		this.skipRemainingTasks(plan, halted, errors, budgetReason);
 		
 		return { results, errors };
 	}
@@ -175,38 +255,64 @@ export class ExecutionEngine {
 	/**
 	 * Execute tasks sequentially
 	 */
-	private async executeSequential(plan: ExecutionPlan, context: ExecutionContext): Promise<{
+	private async executeSequential(
+		plan: ExecutionPlan,
+		context: ExecutionContext,
+		signal: AbortSignal,
+		request?: RequestContext
+	): Promise<{
 		results: TaskResult[];
 		errors: string[];
 	}> {
 		const results: TaskResult[] = [];
 		const errors: string[] = [];
+		let halted = false;
+		let budgetReason: string | null = null;
 		
 		// Sort tasks by dependencies (topological sort)
-		const sortedTasks = this.topologicalSort(plan.tasks, plan.dependencies);
+		const dependencyMap = this.buildDependencyMap(plan);
+		const sortedTasks = this.topologicalSort(plan, dependencyMap);
 		
 		for (const task of sortedTasks) {
+			if (signal.aborted || halted) break;
+			if (task.status !== "pending") continue;
+			
+			const readiness = this.getReadiness(task, plan, dependencyMap);
+			if (readiness.state !== "ready") {
+				if (readiness.state === "skip") {
+					this.skipTask(task, readiness.reason, readiness.blockedBy);
+				} else {
+					this.skipTask(task, "its dependencies never finished");
+				}
+				continue;
+			}
+			
+			budgetReason = this.config.checkBudget?.(plan, context, request) || null;
+			if (budgetReason) {
+				halted = true;
+				break;
+			}
+			
 			try {
-				const result = await this.executeTask(task, context);
+				const result = await this.executeTask(task, plan, context, signal, request);
 				results.push(result);
 				
 				if (result.status === "failed") {
 					errors.push(`Task ${task.id} failed: ${result.error}`);
-					
-					// Decide whether to continue or stop
-					if (task.priority === "critical") {
-						break; // Stop execution on critical task failure
-					}
+					halted = this.getFailurePolicy(plan, task) === "fail-fast";
 				}
 				
 				// Update context with intermediate results
 				if (result.output) {
 					context.sharedData[task.id] = result.output;
 				}
+				this.recordResult(context, result);
+				await this.saveCheckpoint(plan, context, result);
 				
 			} catch (error) {
 				const errorMsg = `Task ${task.id} execution error: ${error instanceof Error ? error.message : String(error)}`;
 				errors.push(errorMsg);
+				task.status = "failed";
 				
 				// Create failed result
 				results.push({
@@ -219,11 +325,10 @@ export class ExecutionEngine {
 					quality: { score: 0, factors: {} }
 				});
 				
-				if (task.priority === "critical") {
-					break;
-				}
+				halted = this.getFailurePolicy(plan, task) === "fail-fast";
 			}
 		}
+		this.skipRemainingTasks(plan, halted, errors, budgetReason);
 		
 		return { results, errors };
 	}
@@ -231,10 +336,24 @@ export class ExecutionEngine {
 	/**
 	 * Execute a single task
 	 */
-	private async executeTask(task: Task, context: ExecutionContext): Promise<TaskResult> {
+	private async executeTask(
+		task: Task,
+		plan: ExecutionPlan,
+		context: ExecutionContext,
+		signal?: AbortSignal,
+		request?: RequestContext
+	): Promise<TaskResult> {
 		const startTime = Date.now();
+		// Aborts this attempt's executor call on a timeout, or with the plan
+		const attempt = new AbortController();
+		const abortAttempt = () => attempt.abort();
+		signal?.addEventListener("abort", abortAttempt, { once: true });
 		
 		try {
+			if (signal?.aborted) {
+				throw new Error("Execution cancelled");
+			}
+			
 			// Update task status
 			task.status = "in_progress";
 			task.startedAt = new Date();
@@ -258,13 +377,29 @@ export class ExecutionEngine {
 				);
 			}
 			
-			// Execute with timeout
-			const executionPromise = executor.executeTask(task, context);
+			// Execute with upstream outputs filled in, with a timeout, stopping at once if the plan is cancelled
+			const input = this.resolveInput(task, plan);
+			const executionPromise = executor.executeTask({ ...task, input }, context, attempt.signal, request);
+			this.runningTasks.set(task.id, executionPromise);
+			let timer: ReturnType<typeof setTimeout> | undefined;
 			const timeoutPromise = new Promise<never>((_, reject) => {
-				setTimeout(() => reject(new Error("Task execution timeout")), this.config.taskTimeout);
+				timer = setTimeout(() => {
+					attempt.abort();
+					reject(new Error("Task execution timeout"));
+				}, this.config.taskTimeout);
+			});
+			let rejectOnAbort: (() => void) | undefined;
+			const abortPromise = new Promise<never>((_, reject) => {
+				rejectOnAbort = () => reject(new Error("Execution cancelled"));
+				signal?.addEventListener("abort", rejectOnAbort, { once: true });
 			});
 			
-			const result = await Promise.race([executionPromise, timeoutPromise]);
+			const result = await Promise.race([executionPromise, timeoutPromise, abortPromise]).finally(() => {
+				clearTimeout(timer);
+				signal?.removeEventListener("abort", abortAttempt);
+				if (rejectOnAbort) signal?.removeEventListener("abort", rejectOnAbort);
+				this.runningTasks.delete(task.id);
+			});
 			
 			// Update task status
 			task.status = result.status;
@@ -291,7 +426,11 @@ export class ExecutionEngine {
 			
 		} catch (error) {
 			// Handle retry logic
-			if (this.config.enableRetries && task.retryCount < task.maxRetries) {
+			const retryable = !(error instanceof TaskExecutionError && error.details?.retryable === false);
+			// The failed attempt's call must not keep running next to a retry
+			attempt.abort();
+			signal?.removeEventListener("abort", abortAttempt);
+			if (this.config.enableRetries && retryable && task.retryCount < task.maxRetries && !signal?.aborted) {
 				task.retryCount++;
 				
 				// Exponential backoff
@@ -301,11 +440,11 @@ export class ExecutionEngine {
 				);
 				
 				await new Promise(resolve => setTimeout(resolve, delay));
-				return this.executeTask(task, context); // Recursive retry
+				return this.executeTask(task, plan, context, signal, request); // Recursive retry
 			}
 			
-			// Task failed permanently
-			task.status = "failed";
+			// Task failed permanently, or stopped with the plan
+			task.status = signal?.aborted ? "cancelled" : "failed";
 			task.completedAt = new Date();
 			
 			const duration = Date.now() - startTime;
@@ -325,7 +464,7 @@ export class ExecutionEngine {
 			
 			return {
 				taskId: task.id,
-				status: "failed",
+				status: task.status,
 				error: errorMsg,
 				duration,
 				agentUsed: task.agentId || "unknown",
@@ -336,40 +475,195 @@ export class ExecutionEngine {
 	}
 
 	/**
-	 * Build dependency map for parallel execution
+	 * Result of a task completed in an earlier run of the plan
+	 */
+	private createRestoredResult(task: Task): TaskResult {
+		return {
+			taskId: task.id,
+			status: "completed",
+			output: task.output,
+			duration: task.metadata.actualDuration || 0,
+			agentUsed: task.agentId || "unknown",
+			tokensUsed: 0,
+			quality: { score: 1, factors: { restored: 1 } }
+		};
+	}
+
+	/**
+	 * Track a finished task in the context, for checkpoints
 	 */
-	private buildDependencyMap(plan: ExecutionPlan): Map<string, string[]> {
-		const dependencyMap = new Map<string, string[]>();
+	private recordResult(context: ExecutionContext, result: TaskResult): void {
+		if (result.status === "completed" && !context.completedTasks.includes(result.taskId)) {
+			context.completedTasks.push(result.taskId);
+		} else if (result.status === "failed" && !context.failedTasks.includes(result.taskId)) {
+			context.failedTasks.push(result.taskId);
+		}
+		context.totalTokensUsed += result.tokensUsed;
+	}
+
+	/**
+	 * Queue a checkpoint; a failed checkpoint doesn't stop the plan
+	 */
+	private saveCheckpoint(plan: ExecutionPlan, context: ExecutionContext, result?: TaskResult): Promise<void> {
+		const checkpoint = this.config.checkpoint;
+		if (!checkpoint) return Promise.resolve();
+
+		this.checkpointQueue = this.checkpointQueue
+			.then(() => checkpoint(plan, context, result))
+			.catch(error => console.error(`Failed to checkpoint plan ${plan.id}:`, error));
+		return this.checkpointQueue;
+	}
+
+	/**
+	 * Build dependency map: explicit plan dependencies, task dependencies and
+	 * the tasks whose outputs a task's input refers to
+	 */
+	private buildDependencyMap(plan: ExecutionPlan): Map<string, TaskDependency[]> {
+		const dependencyMap = new Map<string, TaskDependency[]>(plan.tasks.map(task => [task.id, []]));
+		const taskIds = new Set(plan.tasks.map(task => task.id));
+		const addDependency = (dep: TaskDependency) => {
+			const dependencies = dependencyMap.get(dep.to);
+			if (!dependencies || !taskIds.has(dep.from) || dependencies.some(d => d.from === dep.from)) return;
+			dependencies.push(dep);
+		};
 		
-		// Initialize with task dependencies
+		// Explicit dependencies first, so their type and condition are kept
+		plan.dependencies.forEach(addDependency);
 		plan.tasks.forEach(task => {
-			dependencyMap.set(task.id, [...task.dependencies]);
+			[...task.dependencies, ...findInputReferences(task.input)].forEach(from =>
+				addDependency({ from, to: task.id, type: "hard" })
+			);
 		});
 		
-		// Add explicit dependencies from plan
-		plan.dependencies.forEach(dep => {
-			const dependencies = dependencyMap.get(dep.to) || [];
-			if (!dependencies.includes(dep.from)) {
-				dependencies.push(dep.from);
+		return dependencyMap;
+	}
+
+	/**
+	 * Whether a pending task can run now, must wait for its dependencies, or
+	 * is skipped: a condition on it is false, a task it needs didn't
+	 * complete, or it is a fallback for a task that didn't fail
+	 */
+	private getReadiness(task: Task, plan: ExecutionPlan, dependencyMap: Map<string, TaskDependency[]>): TaskReadiness {
+		const primary = plan.tasks.find(t => this.getFallbackTask(plan, t)?.id === task.id);
+		if (primary) {
+			if (!isFinished(primary.status)) return { state: "waiting" };
+			if (primary.status !== "failed") return { state: "skip", reason: `${primary.id} didn't fail` };
+		}
+		
+		for (const dep of dependencyMap.get(task.id) || []) {
+			const upstream = this.getEffectiveResult(plan, dep.from);
+			if (!upstream) return { state: "waiting" };
+			
+			if (dep.condition) {
+				if (!evaluateCondition(dep.condition, upstream)) {
+					return { state: "skip", reason: `condition "${dep.condition}" on ${dep.from} is false` };
+				}
+			} else if (dep.type === "hard" && upstream.status !== "completed") {
+				return {
+					state: "skip",
+					reason: `${dep.from} ${upstream.status === "skipped" ? "was skipped" : "didn't complete"}`,
+					blockedBy: dep.from
+				};
 			}
-			dependencyMap.set(dep.to, dependencies);
+		}
+		
+		return { state: "ready" };
+	}
+
+	/**
+	 * Result of a finished task as later tasks see it: a failed task's
+	 * fallback stands in for it. Null while it isn't finished.
+	 */
+	private getEffectiveResult(plan: ExecutionPlan, taskId: string): UpstreamResult | null {
+		const task = plan.tasks.find(t => t.id === taskId);
+		if (!task || !isFinished(task.status)) return null;
+		
+		const fallback = this.getFallbackTask(plan, task);
+		if (task.status === "failed" && fallback) {
+			return this.getEffectiveResult(plan, fallback.id);
+		}
+		return { status: task.status, output: task.output };
+	}
+
+	/**
+	 * Resolve a task's references to upstream outputs. The task keeps its
+	 * templates, so a resumed plan resolves them again.
+	 */
+	private resolveInput(task: Task, plan: ExecutionPlan): Record<string, any> {
+		const upstream: Record<string, UpstreamResult> = {};
+		plan.tasks.forEach(t => {
+			const result = this.getEffectiveResult(plan, t.id);
+			if (result) upstream[t.id] = result;
 		});
 		
-		return dependencyMap;
+		try {
+			return resolveTaskInput(task.input, upstream);
+		} catch (error) {
+			throw new TaskExecutionError(
+				error instanceof Error ? error.message : String(error),
+				task.id,
+				task.agentId || "unknown",
+				{ retryable: false }
+			);
+		}
 	}
 
 	/**
-	 * Check if task dependencies are met
+	 * A task's own policy, else fail-fast for critical tasks, else the plan's
 	 */
-	private areDependenciesMet(task: Task, completed: Set<string>, dependencyMap: Map<string, string[]>): boolean {
-		const dependencies = dependencyMap.get(task.id) || [];
-		return dependencies.every(depId => completed.has(depId));
+	private getFailurePolicy(plan: ExecutionPlan, task: Task): FailurePolicy {
+		if (task.failurePolicy) return task.failurePolicy;
+		if (task.fallbackTaskId) return "fallback-task";
+		if (task.priority === "critical") return "fail-fast";
+		return plan.failurePolicy || "continue";
+	}
+
+	/**
+	 * The task run in place of a task that fails, if it has one in the plan
+	 */
+	private getFallbackTask(plan: ExecutionPlan, task: Task): Task | undefined {
+		if (!task.fallbackTaskId || this.getFailurePolicy(plan, task) !== "fallback-task") return undefined;
+		return plan.tasks.find(t => t.id === task.fallbackTaskId);
+	}
+
+	private skipTask(task: Task, reason: string, blockedBy?: string): void {
+		task.status = "skipped";
+		task.metadata.context.skipReason = reason;
+		if (blockedBy) task.metadata.context.blockedBy = blockedBy;
 	}
 
 	/**
-	 * Topological sort for sequential execution
+	 * After a fail-fast failure or once a budget is used up, skip whatever
+	 * hasn't run
 	 */
-	private topologicalSort(tasks: Task[], dependencies: any[]): Task[] {
+	private skipRemainingTasks(plan: ExecutionPlan, halted: boolean, errors: string[], budgetReason: string | null = null): void {
+		if (!halted) return;
+		
+		if (budgetReason) {
+			plan.tasks.filter(task => task.status === "pending").forEach(task => this.skipTask(task, budgetReason));
+			errors.push(`Execution stopped: ${budgetReason}`);
+			return;
+		}
+		
+		const failed = plan.tasks.find(task => task.status === "failed" && this.getFailurePolicy(plan, task) === "fail-fast");
+		const reason = `the plan stopped after ${failed?.id || "a task"} failed`;
+		plan.tasks.filter(task => task.status === "pending").forEach(task => this.skipTask(task, reason, failed?.id));
+		errors.push(`Execution stopped: ${reason}`);
+	}
+
+	/**
+	 * Whether a failed task was replaced by a fallback that completed
+	 */
+	private isRecovered(plan: ExecutionPlan, taskId: string): boolean {
+		return this.getEffectiveResult(plan, taskId)?.status === "completed";
+	}
+
+	/**
+	 * Topological sort for sequential execution; a fallback task comes after
+	 * the task it stands in for and before the tasks that need that one
+	 */
+	private topologicalSort(plan: ExecutionPlan, dependencyMap: Map<string, TaskDependency[]>): Task[] {
+		const tasks = plan.tasks;
 		const inDegree = new Map<string, number>();
 		const graph = new Map<string, string[]>();
 		const taskMap = new Map(tasks.map(task => [task.id, task]));
@@ -381,24 +675,23 @@ export class ExecutionEngine {
 		});
 		
 		// Build graph and calculate in-degrees
-		dependencies.forEach(dep => {
-			const from = dep.from;
-			const to = dep.to;
-			
+		const addEdge = (from: string, to: string) => {
 			if (graph.has(from) && inDegree.has(to)) {
 				graph.get(from)!.push(to);
 				inDegree.set(to, inDegree.get(to)! + 1);
 			}
+		};
+		dependencyMap.forEach((dependencies, taskId) => {
+			dependencies.forEach(dep => {
+				addEdge(dep.from, taskId);
+				// The fallback may stand in for the dependency
+				const fallback = this.getFallbackTask(plan, taskMap.get(dep.from)!);
+				if (fallback && fallback.id !== taskId) addEdge(fallback.id, taskId);
+			});
 		});
-		
-		// Add task-level dependencies
 		tasks.forEach(task => {
-			task.dependencies.forEach(depId => {
-				if (graph.has(depId) && inDegree.has(task.id)) {
-					graph.get(depId)!.push(task.id);
-					inDegree.set(task.id, inDegree.get(task.id)! + 1);
-				}
-			});
+			const fallback = this.getFallbackTask(plan, task);
+			if (fallback) addEdge(task.id, fallback.id);
 		});
 		
 		// Kahn's algorithm
@@ -441,13 +734,17 @@ export class ExecutionEngine {
 	}
 
 	/**
-	 * Cancel running execution
+	 * Cancel a running plan, aborting its in-flight executor calls.
+	 * Returns false if the plan isn't running.
 	 */
-	async cancelExecution(planId: string): Promise<void> {
-		// In a real implementation, you'd need to track running plans
-		// and provide cancellation mechanism
-		console.log(`Execution cancellation requested for plan: ${planId}`);
-		this.runningTasks.clear();
+	async cancelExecution(planId: string): Promise<boolean> {
+		const abortController = this.planAbortControllers.get(planId);
+		if (!abortController) {
+			return false;
+		}
+		console.log(`Cancelling execution of plan: ${planId}`);
+		abortController.abort();
+		return true;
 	}
 
 	/**
@@ -0,0 +1,130 @@
+// Data passing and conditions between the tasks of an execution plan
+import type { TaskStatus } from "./types";
+
+/**
+ * What later tasks can see of a finished task
+ */
+export interface UpstreamResult {
+	status: TaskStatus;
+	output?: Record<string, any>;
+}
+
+// {{task_1.output.notes}} or {{task_1.status}}
+const REFERENCE_PATTERN = /\{\{\s*([\w-]+)\.([\w.-]+)\s*\}\}/g;
+
+const CONDITION_PATTERN = /^(.+?)\s*(==|!=|>=|<=|>|<|\bcontains\b)\s*(.+)$/;
+
+/**
+ * Replace references to upstream results in a task's input. A string that
+ * is a single reference takes the referenced value as is, so lists and
+ * objects pass through; references inside longer strings are interpolated.
+ * Throws if a reference can't be resolved.
+ */
+export function resolveTaskInput(
+	input: Record<string, any>,
+	upstream: Record<string, UpstreamResult>
+): Record<string, any> {
+	return resolveValue(input, upstream);
+}
+
+/**
+ * Ids of the tasks a task's input refers to
+ */
+export function findInputReferences(input: Record<string, any>): string[] {
+	return [...new Set([...JSON.stringify(input).matchAll(REFERENCE_PATTERN)].map((match) => match[1]))];
+}
+
+/**
+ * Evaluate a dependency condition against the upstream task's result, e.g.
+ * `status == "failed"`, `output.count > 0`, `output.content contains "TODO"`,
+ * `output.found` or `!output.found`
+ */
+export function evaluateCondition(condition: string, upstream: UpstreamResult): boolean {
+	const expression = condition.trim();
+	if (!expression) return true;
+
+	const match = expression.match(CONDITION_PATTERN);
+	if (!match) {
+		return expression.startsWith("!")
+			? !getPathValue(upstream, expression.slice(1).trim())
+			: !!getPathValue(upstream, expression);
+	}
+
+	const [, path, operator, rawValue] = match;
+	const actual = getPathValue(upstream, path.trim());
+	const expected = parseLiteral(rawValue.trim());
+	switch (operator) {
+		case "==":
+			return actual === expected;
+		case "!=":
+			return actual !== expected;
+		case ">":
+			return Number(actual) > Number(expected);
+		case ">=":
+			return Number(actual) >= Number(expected);
+		case "<":
+			return Number(actual) < Number(expected);
+		case "<=":
+			return Number(actual) <= Number(expected);
+		default:
+			// contains
+			return Array.isArray(actual)
+				? actual.includes(expected)
+				: String(actual ?? "").includes(String(expected));
+	}
+}
+
+function resolveValue(value: any, upstream: Record<string, UpstreamResult>): any {
+	if (typeof value === "string") {
+		return resolveString(value, upstream);
+	}
+	if (Array.isArray(value)) {
+		return value.map((item) => resolveValue(item, upstream));
+	}
+	if (value && typeof value === "object") {
+		return Object.fromEntries(
+			Object.entries(value).map(([key, item]) => [key, resolveValue(item, upstream)])
+		);
+	}
+	return value;
+}
+
+function resolveString(value: string, upstream: Record<string, UpstreamResult>): any {
+	const lookup = (taskId: string, path: string) => {
+		const result = upstream[taskId];
+		const resolved = result ? getPathValue(result, path) : undefined;
+		if (resolved === undefined) {
+			throw new Error(`Unresolved reference {{${taskId}.${path}}}`);
+		}
+		return resolved;
+	};
+
+	// The whole string is one reference: keep the value's type
+	const single = value.match(/^\{\{\s*([\w-]+)\.([\w.-]+)\s*\}\}$/);
+	if (single) {
+		return lookup(single[1], single[2]);
+	}
+
+	return value.replace(REFERENCE_PATTERN, (_, taskId: string, path: string) => {
+		const resolved = lookup(taskId, path);
+		return typeof resolved === "string" ? resolved : JSON.stringify(resolved);
+	});
+}
+
+function getPathValue(source: unknown, path: string): any {
+	return path.split(".").reduce<any>(
+		(value, key) => (value !== null && typeof value === "object" ? value[key] : undefined),
+		source
+	);
+}
+
+/**
+ * JSON literals as themselves; anything else, like a bare word, as a string
+ */
+function parseLiteral(raw: string): unknown {
+	try {
+		return JSON.parse(raw);
+	} catch {
+		return raw.replace(/^'(.*)'$/, "$1");
+	}
+}
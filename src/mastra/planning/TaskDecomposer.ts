@@ -9,8 +9,13 @@ import {
 	Task, 
 	TaskDependency,
 	TaskPlanningError,
-	AgentCapability 
+	AgentCapability,
+	ReplanRequest,
+	ReplanResult
 } from "./types";
+import { findInputReferences } from "./TaskDataflow";
+import type { UsageLedger } from "../usage/UsageLedger";
+import type { RequestContext } from "../RequestContext";
 
 // Schema for LLM-generated task decomposition
 const TaskDecompositionSchema = z.object({
@@ -20,6 +25,7 @@ const TaskDecompositionSchema = z.object({
 	executionMode: z.enum(["sequential", "parallel"]).describe("Whether tasks can run in parallel"),
 	requiresApproval: z.boolean().describe("Whether the plan requires user approval before execution"),
 	estimatedDuration: z.number().describe("Estimated duration in minutes"),
+	failurePolicy: z.enum(["fail-fast", "continue"]).describe("Whether a failed task stops the plan or the tasks that don't need it keep running"),
 	tasks: z.array(z.object({
 		id: z.string().describe("Unique identifier for the task"),
 		type: z.string().describe("Type of task (search, analyze, create, etc.)"),
@@ -27,27 +33,45 @@ const TaskDecompositionSchema = z.object({
 		priority: z.enum(["low", "medium", "high", "critical"]).describe("Task priority level"),
 		agentType: z.string().describe("Type of agent best suited for this task"),
 		dependencies: z.array(z.string()).describe("IDs of tasks this task depends on"),
-		input: z.record(z.any()).optional().default({}).describe("Input parameters for the task"),
+		input: z.record(z.any()).optional().default({}).describe("Input parameters for the task; values may reference earlier outputs, e.g. \"{{task_1.output.content}}\""),
 		estimatedDuration: z.number().describe("Estimated duration in minutes"),
 		requiresApproval: z.boolean().describe("Whether this specific task needs approval"),
 		riskLevel: z.enum(["low", "medium", "high"]).describe("Risk level of the task"),
-		tags: z.array(z.string()).describe("Tags for categorizing the task")
+		tags: z.array(z.string()).describe("Tags for categorizing the task"),
+		failurePolicy: z.enum(["fail-fast", "continue", "fallback-task"]).optional().describe("Overrides the plan's failure policy for this task"),
+		fallbackTaskId: z.string().optional().describe("With the fallback-task policy, the task to run only if this one fails")
 	})).describe("List of tasks to execute"),
 	dependencies: z.array(z.object({
 		from: z.string().describe("Source task ID"),
 		to: z.string().describe("Target task ID"),
 		type: z.enum(["hard", "soft"]).describe("Hard dependencies block execution, soft are preferred order"),
-		condition: z.string().optional().describe("Optional condition for the dependency")
+		condition: z.string().optional().describe("Optional condition on the source task's result; the target task is skipped when it is false")
 	})).describe("Task dependencies"),
 	reasoning: z.string().describe("Explanation of the decomposition strategy")
 });
 
+// Schema for the tasks that replace failed or weak ones in a running plan
+const PlanRevisionSchema = TaskDecompositionSchema.pick({
+	tasks: true,
+	dependencies: true,
+	reasoning: true
+});
+
 export class TaskDecomposer {
 	private model: any;
 	private availableAgents: Map<string, AgentCapability> = new Map();
+	private usageLedger?: UsageLedger;
 
-	constructor(apiKey: string) {
-		this.model = openai("gpt-4o");
+	constructor(apiKey: string, modelId = "gpt-4o", usageLedger?: UsageLedger) {
+		this.model = openai(modelId);
+		this.usageLedger = usageLedger;
+	}
+
+	/**
+	 * The model plans are made with
+	 */
+	getModelId(): string {
+		return this.model.modelId;
 	}
 
 	/**
@@ -61,9 +85,14 @@ export class TaskDecomposer {
 	}
 
 	/**
-	 * Decompose a user query into an executable plan
+	 * Decompose a user query into an executable plan; the signal aborts the
+	 * planning call, which counts towards the chat request's usage
 	 */
-	async decompose(request: DecompositionRequest): Promise<DecompositionResult> {
+	async decompose(
+		request: DecompositionRequest,
+		signal?: AbortSignal,
+		requestContext?: RequestContext
+	): Promise<DecompositionResult> {
 		try {
 			// Prepare context for the LLM
 			const agentCapabilities = Array.from(this.availableAgents.values());
@@ -77,7 +106,9 @@ export class TaskDecomposer {
 				prompt: userPrompt,
 				schema: TaskDecompositionSchema,
 				temperature: 0.3, // Lower temperature for more consistent planning
+				abortSignal: signal,
 			});
+			await this.recordUsage(result.usage, requestContext);
 
 			// Convert the LLM output to our internal format
 			const plan = this.convertToExecutionPlan(result.object, request);
@@ -110,6 +141,96 @@ export class TaskDecomposer {
 		}
 	}
 
+	/**
+	 * Revise a running plan: plan new tasks that redo the work of the tasks
+	 * that failed or fell short, building on the tasks that completed. New
+	 * task ids are prefixed so they don't clash with the plan's.
+	 */
+	async replan(request: ReplanRequest, signal?: AbortSignal, requestContext?: RequestContext): Promise<ReplanResult> {
+		try {
+			const result = await generateObject({
+				model: this.model,
+				system: this.buildSystemPrompt(Array.from(this.availableAgents.values())),
+				prompt: this.buildReplanPrompt(request),
+				schema: PlanRevisionSchema,
+				temperature: 0.3,
+				abortSignal: signal,
+			});
+			await this.recordUsage(result.usage, requestContext);
+
+			// Rename the new tasks and every reference to them
+			const prefix = `replan${request.attempt}_`;
+			const newIds = new Set(result.object.tasks.map(task => task.id));
+			const rename = (id: string) => (newIds.has(id) ? `${prefix}${id}` : id);
+			const renameReferences = (input: Record<string, any>) =>
+				JSON.parse(JSON.stringify(input).replace(/\{\{\s*([\w-]+)\./g, (match, id: string) =>
+					newIds.has(id) ? `{{${prefix}${id}.` : match
+				));
+
+			const tasks = result.object.tasks.map(taskData => this.convertTask({
+				...taskData,
+				id: rename(taskData.id),
+				dependencies: taskData.dependencies.map(rename),
+				fallbackTaskId: taskData.fallbackTaskId && rename(taskData.fallbackTaskId),
+				input: renameReferences(taskData.input || {})
+			}, request.plan.metadata.conversationId, request.plan.metadata.userQuery));
+			const dependencies: TaskDependency[] = result.object.dependencies.map(dep => ({
+				from: rename(dep.from),
+				to: rename(dep.to),
+				type: dep.type,
+				condition: dep.condition
+			}));
+
+			// The revised plan must hold together as a whole
+			const validation = this.validatePlan({
+				...request.plan,
+				tasks: [...request.plan.tasks, ...tasks],
+				dependencies: [...request.plan.dependencies, ...dependencies]
+			});
+			if (!validation.isValid) {
+				throw new TaskPlanningError(
+					`Revised plan validation failed: ${validation.errors.join(", ")}`,
+					"VALIDATION_ERROR",
+					{ errors: validation.errors }
+				);
+			}
+
+			return {
+				success: true,
+				tasks,
+				dependencies,
+				reasoning: result.object.reasoning,
+				tokensUsed: result.usage?.totalTokens || 0
+			};
+
+		} catch (error) {
+			console.error("Replanning failed:", error);
+			return {
+				success: false,
+				tasks: [],
+				dependencies: [],
+				reasoning: "",
+				tokensUsed: 0,
+				error: error instanceof Error ? error.message : String(error)
+			};
+		}
+	}
+
+	/**
+	 * Record a planning call in the usage ledger
+	 */
+	private async recordUsage(
+		usage: { promptTokens: number; completionTokens: number } | undefined,
+		requestContext?: RequestContext
+	): Promise<void> {
+		await this.usageLedger?.record({
+			agentId: "planner",
+			model: this.model.modelId,
+			inputTokens: usage?.promptTokens || 0,
+			outputTokens: usage?.completionTokens || 0
+		}, requestContext);
+	}
+
 	/**
 	 * Build the system prompt for task decomposition
 	 */
@@ -132,6 +253,9 @@ Guidelines for task decomposition:
 6. Provide clear, actionable task descriptions
 7. Estimate realistic durations based on task complexity
 8. Always include an "input" property for each task (can be empty object {} if no specific input needed)
+9. Pass results between tasks by referencing them in input values: "{{task_1.output.content}}" is the full reply of task_1. A task that must return specific fields (e.g. "{{task_1.output.notes}}") should say in its description that it replies with a JSON object with those fields.
+10. Make a dependency conditional to run a branch only when it applies. Conditions are checked against the source task's result: 'status == "failed"', 'output.count > 0', 'output.content contains "TODO"', 'output.found' or '!output.found'. A task whose condition is false is skipped.
+11. Choose a failure policy: "fail-fast" stops the plan at the first failure, "continue" runs the tasks that don't need the failed one. A task with the "fallback-task" policy names a fallbackTaskId to run in its place if it fails; the fallback runs only then.
 
 Task Types:
 - search: Find information in the vault
@@ -180,36 +304,35 @@ Vault Context:
 Create a comprehensive execution plan that breaks down the query into specific, actionable tasks.`;
 	}
 
+	/**
+	 * Build the prompt for revising a running plan
+	 */
+	private buildReplanPrompt(request: ReplanRequest): string {
+		const { plan, completed, problems } = request;
+
+		return `A plan for this user query is running, but some of its tasks failed or produced weak output.
+
+User Query: "${plan.metadata.userQuery}"
+Plan: ${plan.name} - ${plan.description}
+
+Completed tasks (their outputs can be referenced as "{{<task id>.output.content}}"):
+${completed.map(task => `- ${task.taskId}: ${task.description}\n  Output: ${task.output}`).join("\n") || "- none"}
+
+Tasks that need to be redone another way:
+${problems.map(task => `- ${task.taskId}: ${task.description}\n  Problem: ${task.reason}`).join("\n")}
+
+Plan only the new tasks that are needed to finish the work of the problem tasks and the tasks that depended on them. Don't repeat completed tasks; build on their outputs instead. Don't retry the same approach that failed.`;
+	}
+
 	/**
 	 * Convert LLM output to internal ExecutionPlan format
 	 */
 	private convertToExecutionPlan(llmOutput: any, request: DecompositionRequest): ExecutionPlan {
 		const planId = `plan_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 		
-		const tasks: Task[] = llmOutput.tasks.map((taskData: any) => ({
-			id: taskData.id,
-			type: taskData.type,
-			description: taskData.description,
-			status: "pending" as const,
-			priority: taskData.priority,
-			agentId: this.selectBestAgent(taskData.agentType, taskData.type),
-			dependencies: taskData.dependencies,
-			children: [],
-			createdAt: new Date(),
-			input: taskData.input !== undefined ? taskData.input : {},
-			metadata: {
-				conversationId: request.context.conversationId,
-				userIntent: request.userQuery,
-				estimatedDuration: taskData.estimatedDuration,
-				confidence: 0.8,
-				requiresApproval: taskData.requiresApproval,
-				riskLevel: taskData.riskLevel,
-				tags: taskData.tags,
-				context: {}
-			},
-			retryCount: 0,
-			maxRetries: 3
-		}));
+		const tasks: Task[] = llmOutput.tasks.map((taskData: any) =>
+			this.convertTask(taskData, request.context.conversationId, request.userQuery)
+		);
 
 		const dependencies: TaskDependency[] = llmOutput.dependencies.map((dep: any) => ({
 			from: dep.from,
@@ -228,6 +351,7 @@ Create a comprehensive execution plan that breaks down the query into specific,
 			estimatedDuration: llmOutput.estimatedDuration,
 			createdAt: new Date(),
 			status: "pending",
+			failurePolicy: llmOutput.failurePolicy,
 			metadata: {
 				conversationId: request.context.conversationId,
 				userQuery: request.userQuery,
@@ -237,6 +361,38 @@ Create a comprehensive execution plan that breaks down the query into specific,
 		};
 	}
 
+	/**
+	 * Convert an LLM-generated task to internal Task format
+	 */
+	private convertTask(taskData: any, conversationId: string, userQuery: string): Task {
+		return {
+			id: taskData.id,
+			type: taskData.type,
+			description: taskData.description,
+			status: "pending",
+			priority: taskData.priority,
+			agentId: this.selectBestAgent(taskData.agentType, taskData.type),
+			dependencies: taskData.dependencies,
+			children: [],
+			createdAt: new Date(),
+			input: taskData.input !== undefined ? taskData.input : {},
+			metadata: {
+				conversationId,
+				userIntent: userQuery,
+				estimatedDuration: taskData.estimatedDuration,
+				confidence: 0.8,
+				requiresApproval: taskData.requiresApproval,
+				riskLevel: taskData.riskLevel,
+				tags: taskData.tags,
+				context: {}
+			},
+			retryCount: 0,
+			maxRetries: 3,
+			failurePolicy: taskData.failurePolicy,
+			fallbackTaskId: taskData.fallbackTaskId
+		};
+	}
+
 	/**
 	 * Select the best available agent for a task
 	 */
@@ -280,6 +436,16 @@ Create a comprehensive execution plan that breaks down the query into specific,
 			errors.push(`Tasks with invalid dependencies: ${orphanedTasks.map(t => t.id).join(", ")}`);
 		}
 
+		// Check input references and fallbacks point at tasks of the plan
+		const taskIds = new Set(plan.tasks.map(task => task.id));
+		const danglingTasks = plan.tasks.filter(task =>
+			findInputReferences(task.input).some(id => !taskIds.has(id)) ||
+			(task.fallbackTaskId !== undefined && !taskIds.has(task.fallbackTaskId))
+		);
+		if (danglingTasks.length > 0) {
+			errors.push(`Tasks referring to unknown tasks: ${danglingTasks.map(t => t.id).join(", ")}`);
+		}
+
 		// Check for unassigned tasks
 		const unassignedTasks = plan.tasks.filter(task => !task.agentId);
 		if (unassignedTasks.length > 0) {
@@ -307,13 +473,15 @@ Create a comprehensive execution plan that breaks down the query into specific,
 	private hasCircularDependencies(tasks: Task[], dependencies: TaskDependency[]): boolean {
 		const graph = new Map<string, string[]>();
 		
-		// Build adjacency list
+		// Build adjacency list, with the edges implied by input references
 		tasks.forEach(task => graph.set(task.id, []));
-		dependencies.forEach(dep => {
-			const deps = graph.get(dep.from) || [];
-			deps.push(dep.to);
-			graph.set(dep.from, deps);
-		});
+		const addEdge = (from: string, to: string) => {
+			const deps = graph.get(from) || [];
+			deps.push(to);
+			graph.set(from, deps);
+		};
+		dependencies.forEach(dep => addEdge(dep.from, dep.to));
+		tasks.forEach(task => findInputReferences(task.input).forEach(from => addEdge(from, task.id)));
 
 		// DFS to detect cycles
 		const visited = new Set<string>();
@@ -2,9 +2,12 @@
 import { z } from "zod";
 
 // Task execution types
-export type TaskStatus = "pending" | "in_progress" | "completed" | "failed" | "cancelled";
+export type TaskStatus = "pending" | "in_progress" | "completed" | "failed" | "cancelled" | "skipped";
 export type ExecutionMode = "sequential" | "parallel";
 export type TaskPriority = "low" | "medium" | "high" | "critical";
+// What happens when a task fails: stop the plan, keep running the tasks
+// that don't need it, or run its fallback task in its place
+export type FailurePolicy = "fail-fast" | "continue" | "fallback-task";
 
 // Core task interface
 export interface Task {
@@ -20,11 +23,13 @@ export interface Task {
 	createdAt: Date;
 	startedAt?: Date;
 	completedAt?: Date;
-	input: Record<string, any>;
+	input: Record<string, any>; // May reference upstream outputs, e.g. "{{task_1.output.notes}}"
 	output?: Record<string, any>;
 	metadata: TaskMetadata;
 	retryCount: number;
 	maxRetries: number;
+	failurePolicy?: FailurePolicy; // Defaults to the plan's policy
+	fallbackTaskId?: string; // Runs only if this task fails, with the "fallback-task" policy
 }
 
 // Task metadata for context and execution details
@@ -51,11 +56,14 @@ export interface ExecutionPlan {
 	estimatedDuration: number;
 	createdAt: Date;
 	status: TaskStatus;
+	failurePolicy?: FailurePolicy; // Default for tasks without one; "continue" if unset
 	metadata: {
 		conversationId: string;
 		userQuery: string;
 		complexity: "simple" | "moderate" | "complex";
 		requiresUserApproval: boolean;
+		replans?: number; // Revisions spliced in after tasks failed or fell short
+		searchFilter?: Record<string, any>; // Vault search filter compiled from the prompt's metadata filters
 	};
 }
 
@@ -64,7 +72,7 @@ export interface TaskDependency {
 	from: string; // Task ID
 	to: string; // Task ID
 	type: "hard" | "soft"; // Hard dependencies block execution, soft are preferred order
-	condition?: string; // Optional condition for dependency
+	condition?: string; // Evaluated against the upstream result, e.g. 'status == "failed"'; false skips the task
 }
 
 // Agent capability description
@@ -107,6 +115,24 @@ export interface DecompositionResult {
 	error?: string;
 }
 
+// Request to revise a running plan after tasks failed or fell short
+export interface ReplanRequest {
+	plan: ExecutionPlan;
+	attempt: number; // 1 for the first revision of this plan
+	completed: Array<{ taskId: string; description: string; output: string }>;
+	problems: Array<{ taskId: string; description: string; reason: string }>;
+}
+
+// Tasks to splice into the running plan in place of the problem tasks
+export interface ReplanResult {
+	success: boolean;
+	tasks: Task[];
+	dependencies: TaskDependency[];
+	reasoning: string;
+	tokensUsed: number;
+	error?: string;
+}
+
 // Agent assignment for a task
 export interface TaskAssignment {
 	taskId: string;
@@ -151,6 +177,7 @@ export interface TaskResult {
 	error?: string;
 	duration: number;
 	agentUsed: string;
+	model?: string; // Chat model the agent ran on
 	tokensUsed: number;
 	quality: {
 		score: number;
@@ -176,7 +203,7 @@ export const TaskSchema = z.object({
 	id: z.string(),
 	type: z.string(),
 	description: z.string(),
-	status: z.enum(["pending", "in_progress", "completed", "failed", "cancelled"]),
+	status: z.enum(["pending", "in_progress", "completed", "failed", "cancelled", "skipped"]),
 	priority: z.enum(["low", "medium", "high", "critical"]),
 	agentId: z.string().optional(),
 	dependencies: z.array(z.string()),
@@ -200,6 +227,8 @@ export const TaskSchema = z.object({
 	}),
 	retryCount: z.number(),
 	maxRetries: z.number(),
+	failurePolicy: z.enum(["fail-fast", "continue", "fallback-task"]).optional(),
+	fallbackTaskId: z.string().optional(),
 });
 
 export const ExecutionPlanSchema = z.object({
@@ -216,12 +245,14 @@ export const ExecutionPlanSchema = z.object({
 	})),
 	estimatedDuration: z.number(),
 	createdAt: z.date(),
-	status: z.enum(["pending", "in_progress", "completed", "failed", "cancelled"]),
+	failurePolicy: z.enum(["fail-fast", "continue", "fallback-task"]).optional(),
+	status: z.enum(["pending", "in_progress", "completed", "failed", "cancelled", "skipped"]),
 	metadata: z.object({
 		conversationId: z.string(),
 		userQuery: z.string(),
 		complexity: z.enum(["simple", "moderate", "complex"]),
 		requiresUserApproval: z.boolean(),
+		replans: z.number().optional(),
 	}),
 });
 
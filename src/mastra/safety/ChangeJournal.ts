@@ -0,0 +1,227 @@
+import { App, normalizePath, TFile } from "obsidian";
+import type { FileChange } from "../agents/types";
+
+export interface ChangeJournalConfig {
+	dataDir: string;
+	fileName?: string;
+}
+
+export interface JournalChange {
+	id: string;
+	filePath: string;
+	changeType: FileChange["changeType"];
+	// null when the file did not exist before (create) or after (delete) the change
+	previousContent: string | null;
+	newContent: string | null;
+	timestamp: string;
+	undoneAt?: string;
+}
+
+export interface JournalRun {
+	id: string;
+	description: string;
+	conversationId?: string;
+	startedAt: string;
+	changes: JournalChange[];
+}
+
+// A run before its first change is journaled
+export type JournalRunInfo = Omit<JournalRun, "changes">;
+
+export interface UndoResult {
+	restored: string[];
+	// Files edited since the agent changed them, left as they are
+	conflicts: string[];
+}
+
+// Oldest runs are dropped beyond this many
+const MAX_RUNS = 100;
+
+/**
+ * Records the content of every file an agent run creates, modifies or
+ * deletes before the change is written, so any run or single change can be
+ * rolled back to exactly what was there before
+ */
+export class ChangeJournal {
+	private app: App;
+	private dataPath: string;
+	private runs: JournalRun[] = [];
+	private initialized = false;
+
+	constructor(app: App, config: ChangeJournalConfig) {
+		this.app = app;
+		this.dataPath = `${config.dataDir}/${config.fileName || "change-journal.json"}`;
+	}
+
+	/**
+	 * Initialize the journal
+	 */
+	async initialize(): Promise<void> {
+		if (this.initialized) return;
+
+		await this.loadData();
+		this.initialized = true;
+	}
+
+	/**
+	 * A run to group an agent request's changes under. It is journaled with
+	 * its first change, so requests that change nothing leave no run.
+	 */
+	createRun(info: { description: string; conversationId?: string }): JournalRunInfo {
+		return {
+			id: `run_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+			description: info.description,
+			conversationId: info.conversationId,
+			startedAt: new Date().toISOString(),
+		};
+	}
+
+	/**
+	 * Snapshot a file before a change is written. Changes made outside a
+	 * run are journaled as a run of their own.
+	 */
+	async record(change: Omit<JournalChange, "id" | "timestamp">, journalRun?: JournalRunInfo): Promise<void> {
+		const runInfo = journalRun || this.createRun({ description: `${change.changeType} ${change.filePath}` });
+
+		let run = this.runs.find((r) => r.id === runInfo.id);
+		if (!run) {
+			run = { ...runInfo, changes: [] };
+			this.runs.push(run);
+			this.runs = this.runs.slice(-MAX_RUNS);
+		}
+		run.changes.push({
+			...change,
+			id: `${run.id}_${run.changes.length + 1}`,
+			timestamp: new Date().toISOString(),
+		});
+
+		await this.save();
+	}
+
+	/**
+	 * All journaled runs, most recent first
+	 */
+	getRuns(): JournalRun[] {
+		return [...this.runs].reverse();
+	}
+
+	/**
+	 * The most recent run with changes that haven't been undone
+	 */
+	getLastUndoableRun(): JournalRun | null {
+		return this.getRuns().find((run) => run.changes.some((change) => !change.undoneAt)) || null;
+	}
+
+	/**
+	 * Undo every change of a run, newest first. Files edited since the agent
+	 * changed them are only restored with force.
+	 */
+	async undoRun(runId: string, force = false): Promise<UndoResult> {
+		const run = this.getRun(runId);
+		return await this.undoChanges([...run.changes].reverse(), force);
+	}
+
+	/**
+	 * Undo a single change of a run
+	 */
+	async undoChange(runId: string, changeId: string, force = false): Promise<UndoResult> {
+		const change = this.getRun(runId).changes.find((c) => c.id === changeId);
+		if (!change) {
+			throw new Error(`No journaled change found with ID: ${changeId}`);
+		}
+		return await this.undoChanges([change], force);
+	}
+
+	private getRun(runId: string): JournalRun {
+		const run = this.runs.find((r) => r.id === runId);
+		if (!run) {
+			throw new Error(`No journaled run found with ID: ${runId}`);
+		}
+		return run;
+	}
+
+	private async undoChanges(changes: JournalChange[], force: boolean): Promise<UndoResult> {
+		const result: UndoResult = { restored: [], conflicts: [] };
+
+		try {
+			for (const change of changes) {
+				if (change.undoneAt) continue;
+
+				if (await this.restore(change, force)) {
+					change.undoneAt = new Date().toISOString();
+					result.restored.push(change.filePath);
+				} else {
+					result.conflicts.push(change.filePath);
+				}
+			}
+		} finally {
+			await this.save();
+		}
+
+		return result;
+	}
+
+	/**
+	 * Put a file back to its content before the change. Returns false when the
+	 * file was edited since and force is off.
+	 */
+	private async restore(change: JournalChange, force: boolean): Promise<boolean> {
+		const file = this.app.vault.getAbstractFileByPath(change.filePath);
+		const currentContent = file instanceof TFile ? await this.app.vault.read(file) : null;
+
+		// Already as before, e.g. the write never happened
+		if (currentContent === change.previousContent) return true;
+		if (currentContent !== change.newContent && !force) return false;
+
+		if (change.previousContent === null) {
+			if (file) await this.app.fileManager.trashFile(file);
+		} else if (file instanceof TFile) {
+			await this.app.vault.modify(file, change.previousContent);
+		} else {
+			const folder = change.filePath.substring(0, change.filePath.lastIndexOf("/"));
+			if (folder && !this.app.vault.getAbstractFileByPath(normalizePath(folder))) {
+				await this.app.vault.createFolder(folder);
+			}
+			await this.app.vault.create(change.filePath, change.previousContent);
+		}
+		return true;
+	}
+
+	/**
+	 * Persist the journal
+	 */
+	private async save(): Promise<void> {
+		try {
+			const data = {
+				lastUpdated: new Date().toISOString(),
+				runs: this.runs,
+			};
+			await this.app.vault.adapter.write(this.dataPath, JSON.stringify(data));
+		} catch (error) {
+			console.error("Failed to save change journal:", error);
+			throw error;
+		}
+	}
+
+	/**
+	 * Load the journal from the file system
+	 */
+	private async loadData(): Promise<void> {
+		try {
+			const dataDir = this.dataPath.substring(0, this.dataPath.lastIndexOf("/"));
+			if (!(await this.app.vault.adapter.exists(dataDir))) {
+				await this.app.vault.adapter.mkdir(dataDir);
+			}
+
+			if (await this.app.vault.adapter.exists(this.dataPath)) {
+				const content = await this.app.vault.adapter.read(this.dataPath);
+				this.runs = JSON.parse(content).runs || [];
+			} else {
+				this.runs = [];
+			}
+		} catch (error) {
+			console.warn("Failed to load change journal, starting fresh:", error);
+			this.runs = [];
+		}
+	}
+}
@@ -2,12 +2,15 @@
 import { Notice } from "obsidian";
 import {
 	RiskAssessment,
+	ApprovalEvent,
 	ApprovalRequest,
 	ApprovalResult,
 	FileChange,
 	SafetyConfig,
-	SafetyError,
+	SafetyPolicyRule,
 } from "../agents/types";
+import { createUnifiedDiff } from "./diffUtils";
+import { findSafetyPolicyRule } from "./SafetyPolicy";
 
 /**
  * Safety Manager that implements Claude-Code like safety and approval system
@@ -16,17 +19,29 @@ import {
 export class SafetyManager {
 	private isInitialized = false;
 	private pendingApprovals: Map<string, ApprovalRequest> = new Map();
+	// Settle the promise each pending request's caller is waiting on
+	private approvalResolvers: Map<string, (result: ApprovalResult) => void> = new Map();
+	private approvalListeners: Set<(event: ApprovalEvent) => void> = new Set();
 	private approvalHistory: Map<string, ApprovalResult> = new Map();
 	private sessionAutoApproval = false;
 	private approvedOperationTypes: Set<string> = new Set();
 	private maxAutoApprovals: number;
 	private sessionTimeout: number;
 	private sessionStartTime: Date;
+	private policyRules: SafetyPolicyRule[];
 
 	constructor(private config: SafetyConfig) {
 		this.maxAutoApprovals = config.maxAutoApprovals || 10;
 		this.sessionTimeout = config.sessionTimeout || 3600000; // 1 hour
 		this.sessionStartTime = new Date();
+		this.policyRules = config.policyRules || [];
+	}
+
+	/**
+	 * Replace the per-path policy rules, e.g. after the settings change
+	 */
+	setPolicyRules(rules: SafetyPolicyRule[]): void {
+		this.policyRules = rules;
 	}
 
 	/**
@@ -51,10 +66,11 @@ export class SafetyManager {
 		let maxRisk: "low" | "medium" | "high" = "low";
 		let requiresApproval = false;
 		let previewRequired = false;
+		let blocked = false;
 		let reasoning = "";
 
 		for (const change of changes) {
-			const changeRisk = this.assessChangeRisk(change);
+			const changeRisk = this.applyPolicy(change, this.assessChangeRisk(change));
 
 			if (
 				changeRisk.level === "high" ||
@@ -71,12 +87,17 @@ export class SafetyManager {
 				previewRequired = true;
 			}
 
+			if (changeRisk.blocked) {
+				blocked = true;
+			}
+
 			reasoning += changeRisk.reasoning + " ";
 		}
 
 		// Check if session auto-approval is enabled and applicable
 		if (
 			requiresApproval &&
+			!blocked &&
 			this.sessionAutoApproval &&
 			this.isOperationAutoApproved(changes)
 		) {
@@ -90,79 +111,64 @@ export class SafetyManager {
 			previewRequired,
 			reasoning: reasoning.trim(),
 			rollbackPlan: this.generateRollbackPlan(changes),
+			blocked,
 		};
 	}
 
 	/**
-	 * Request approval for a risky operation
+	 * Subscribe to approval requests and their outcomes
+	 */
+	onApprovalChange(listener: (event: ApprovalEvent) => void): () => void {
+		this.approvalListeners.add(listener);
+		return () => this.approvalListeners.delete(listener);
+	}
+
+	/**
+	 * Request approval for a risky operation. The chat shows the request with
+	 * a diff of each change and resolves it through approvePendingOperation or
+	 * cancelPendingOperation; unanswered requests are rejected after the timeout.
 	 */
 	async requestApproval(
 		changes: FileChange[],
 		riskAssessment: RiskAssessment,
-		timeout: number = 30000
+		timeout = 300000
 	): Promise<ApprovalResult> {
 		const requestId = this.generateRequestId();
+		const changesWithDiffs = changes.map((change) => ({
+			...change,
+			diff: change.diff ?? createUnifiedDiff(change.filePath, change.oldContent, change.newContent),
+		}));
 
 		const request: ApprovalRequest = {
 			id: requestId,
 			operation: this.summarizeOperation(changes),
 			riskLevel: riskAssessment.level,
+			reasoning: riskAssessment.reasoning,
+			rollbackPlan: riskAssessment.rollbackPlan,
 			previewData: {
 				operationType: changes[0]?.changeType || "unknown",
 				affectedFiles: changes.map((c) => c.filePath),
-				changes,
+				changes: changesWithDiffs,
 				riskLevel: riskAssessment.level,
 			},
 			timeout,
+			requestedAt: new Date(),
 		};
 
 		this.pendingApprovals.set(requestId, request);
 
 		try {
-			// Display approval request in console and UI
-			console.log("\n" + "=".repeat(80));
-			console.log("⚠️  APPROVAL REQUIRED FOR FILE OPERATION");
-			console.log("=".repeat(80));
-			console.log(`Operation: ${request.operation}`);
-			console.log(`Risk Level: ${request.riskLevel.toUpperCase()}`);
-			console.log(`Reasoning: ${riskAssessment.reasoning}`);
-			console.log("");
-			console.log("Files to be affected:");
-			for (const change of changes) {
-				console.log(
-					`  ${change.changeType.toUpperCase()}: ${change.filePath}`
-				);
-			}
-			console.log("");
-			console.log("To proceed with this operation:");
-			console.log(
-				'1. Type "approve" in the chat to approve this specific operation'
-			);
-			console.log(
-				'2. Type "auto-approve" to enable auto-approval for this session'
-			);
-			console.log('3. Type "cancel" to cancel the operation');
-			console.log("=".repeat(80));
+			const result = this.waitForApproval(requestId, timeout);
+			this.notifyApprovalListeners({ type: "requested", request });
 
-			// Show notice in Obsidian
 			new Notice(
-				`⚠️ Approval required for ${request.operation}. Check console for details.`,
+				this.approvalListeners.size > 0
+					? `⚠️ Approval required for ${request.operation}. Review it in the chat.`
+					: `⚠️ Approval required for ${request.operation}. Open Intelligence Chat to review it.`,
 				10000
 			);
 
-			// Wait for approval (this is a simplified implementation)
-			// In a real implementation, this would integrate with the chat system
-			const result = await this.waitForApproval(requestId, timeout);
-
-			// Store approval history
-			this.approvalHistory.set(requestId, result);
-
-			// Update session settings if requested
-			if (result.approved && result.allowFutureAuto) {
-				this.enableSessionAutoApproval();
-			}
-
-			return result;
+			return await result;
 		} finally {
 			this.pendingApprovals.delete(requestId);
 		}
@@ -173,7 +179,7 @@ export class SafetyManager {
 	 */
 	async approvePendingOperation(
 		requestId: string,
-		allowFutureAuto: boolean = false
+		allowFutureAuto = false
 	): Promise<ApprovalResult> {
 		const request = this.pendingApprovals.get(requestId);
 		if (!request) {
@@ -194,6 +200,7 @@ export class SafetyManager {
 			this.enableSessionAutoApproval();
 		}
 
+		this.resolveApproval(requestId, result);
 		return result;
 	}
 
@@ -221,6 +228,7 @@ export class SafetyManager {
 			console.log(`Reason: ${reason}`);
 		}
 
+		this.resolveApproval(requestId, result);
 		return result;
 	}
 
@@ -293,6 +301,13 @@ export class SafetyManager {
 	 * Cleanup safety manager
 	 */
 	async cleanup(): Promise<void> {
+		for (const requestId of Array.from(this.approvalResolvers.keys())) {
+			this.resolveApproval(requestId, {
+				approved: false,
+				reason: "Safety manager stopped",
+			});
+		}
+		this.approvalListeners.clear();
 		this.pendingApprovals.clear();
 		this.approvalHistory.clear();
 		this.sessionAutoApproval = false;
@@ -307,7 +322,7 @@ export class SafetyManager {
 	 */
 	private assessChangeRisk(change: FileChange): RiskAssessment {
 		let level: "low" | "medium" | "high" = "low";
-		let requiresApproval = true; // Always require approval initially
+		const requiresApproval = true; // Always require approval initially
 		let reasoning = "";
 
 		switch (change.changeType) {
@@ -369,9 +384,53 @@ export class SafetyManager {
 			return false;
 		}
 
-		// For now, auto-approve all operations if session auto-approval is enabled
-		// Can be enhanced with more granular control
-		return true;
+		// Policies can insist on approval even within an auto-approved session
+		return !changes.some(
+			(change) =>
+				findSafetyPolicyRule(this.policyRules, change.filePath)?.action === "require-approval"
+		);
+	}
+
+	/**
+	 * Adjust a change's assessment by the first policy rule matching its path,
+	 * naming the rule in the reasoning
+	 */
+	private applyPolicy(change: FileChange, risk: RiskAssessment): RiskAssessment {
+		const rule = findSafetyPolicyRule(this.policyRules, change.filePath);
+		if (!rule) return risk;
+
+		const ruleName = `Policy "${rule.pattern} ${rule.action}" matches ${change.filePath}`;
+		switch (rule.action) {
+			case "read-only":
+				return {
+					...risk,
+					level: "high",
+					blocked: true,
+					reasoning: `${ruleName}: agents may not change it.`,
+				};
+			case "require-approval":
+				return {
+					...risk,
+					requiresApproval: true,
+					reasoning: `${risk.reasoning} ${ruleName}: approval is always required.`,
+				};
+			case "allow-create":
+				// Overwriting an existing file still goes through approval
+				if (change.changeType !== "create" || change.oldContent !== undefined) {
+					return risk;
+				}
+				return {
+					...risk,
+					requiresApproval: false,
+					reasoning: `${risk.reasoning} ${ruleName}: new files are allowed without approval.`,
+				};
+			case "allow":
+				return {
+					...risk,
+					requiresApproval: false,
+					reasoning: `${risk.reasoning} ${ruleName}: changes are allowed without approval.`,
+				};
+		}
 	}
 
 	/**
@@ -419,22 +478,48 @@ export class SafetyManager {
 	}
 
 	/**
-	 * Wait for approval (simplified implementation)
+	 * Wait until the request is approved, cancelled or times out
 	 */
-	private async waitForApproval(
+	private waitForApproval(
 		requestId: string,
 		timeout: number
 	): Promise<ApprovalResult> {
-		// This is a simplified implementation
-		// In a real scenario, this would integrate with the chat system
-		// For now, return a default result
 		return new Promise((resolve) => {
-			setTimeout(() => {
-				resolve({
+			const timer = setTimeout(() => {
+				this.resolveApproval(requestId, {
 					approved: false,
 					reason: "Timeout - no response received",
 				});
 			}, timeout);
+
+			this.approvalResolvers.set(requestId, (result) => {
+				clearTimeout(timer);
+				resolve(result);
+			});
+		});
+	}
+
+	/**
+	 * Settle a pending request once, record it and tell the listeners
+	 */
+	private resolveApproval(requestId: string, result: ApprovalResult): void {
+		const resolve = this.approvalResolvers.get(requestId);
+		if (!resolve) return;
+
+		this.approvalResolvers.delete(requestId);
+		this.pendingApprovals.delete(requestId);
+		this.approvalHistory.set(requestId, result);
+		resolve(result);
+		this.notifyApprovalListeners({ type: "resolved", requestId, result });
+	}
+
+	private notifyApprovalListeners(event: ApprovalEvent): void {
+		this.approvalListeners.forEach((listener) => {
+			try {
+				listener(event);
+			} catch (error) {
+				console.error("Approval listener failed:", error);
+			}
 		});
 	}
 
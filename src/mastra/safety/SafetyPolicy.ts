@@ -0,0 +1,84 @@
+// Glob-based safety policy rules for the files agents may change
+import type { SafetyPolicyAction, SafetyPolicyRule } from "../agents/types";
+
+export const SAFETY_POLICY_ACTIONS: Record<SafetyPolicyAction, string> = {
+	"read-only": "agents may not change these files",
+	"require-approval": "changes always need approval, even when auto-approval is on",
+	"allow-create": "new files are created without approval",
+	allow: "changes are made without approval",
+};
+
+export interface ParsedSafetyPolicy {
+	rules: SafetyPolicyRule[];
+	errors: string[];
+}
+
+/**
+ * Parse a policy with one "<glob> <action>" rule per line, e.g.
+ * "Journal/** read-only". Blank lines and lines starting with # are skipped.
+ */
+export function parseSafetyPolicy(text: string): ParsedSafetyPolicy {
+	const rules: SafetyPolicyRule[] = [];
+	const errors: string[] = [];
+
+	text.split("\n").forEach((rawLine, index) => {
+		const line = rawLine.trim();
+		if (!line || line.startsWith("#")) return;
+
+		// The action is the last word, so patterns may contain spaces
+		const separator = line.lastIndexOf(" ");
+		const pattern = separator > 0 ? line.slice(0, separator).trim() : "";
+		const action = line.slice(separator + 1);
+		if (!pattern) {
+			errors.push(`Line ${index + 1}: expected "<glob> <action>"`);
+		} else if (!(action in SAFETY_POLICY_ACTIONS)) {
+			errors.push(
+				`Line ${index + 1}: unknown action "${action}" (use ${Object.keys(SAFETY_POLICY_ACTIONS).join(", ")})`
+			);
+		} else {
+			rules.push({ pattern, action: action as SafetyPolicyAction });
+		}
+	});
+
+	return { rules, errors };
+}
+
+/**
+ * The first rule whose glob matches the vault path, if any
+ */
+export function findSafetyPolicyRule(
+	rules: SafetyPolicyRule[],
+	filePath: string
+): SafetyPolicyRule | undefined {
+	return rules.find((rule) => globToRegExp(rule.pattern).test(filePath));
+}
+
+/**
+ * "**" matches across folders, "*" and "?" within a file or folder name.
+ * "Folder/**" also matches the folder itself.
+ */
+function globToRegExp(pattern: string): RegExp {
+	let source = "";
+	for (let i = 0; i < pattern.length; i++) {
+		const char = pattern[i];
+		if (char === "*" && pattern[i + 1] === "*") {
+			// "**/" may match no folders at all
+			if (pattern[i + 2] === "/") {
+				source += "(?:.*/)?";
+				i += 2;
+			} else {
+				source += ".*";
+				i += 1;
+			}
+		} else if (char === "*") {
+			source += "[^/]*";
+		} else if (char === "?") {
+			source += "[^/]";
+		} else {
+			source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+		}
+	}
+	// Let "Folder/**" match "Folder" too
+	source = source.replace(/\/\.\*$/, "(?:/.*)?");
+	return new RegExp(`^${source}$`);
+}
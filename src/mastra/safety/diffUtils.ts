@@ -0,0 +1,141 @@
+// Line diff utilities for previewing file changes before approval
+
+const CONTEXT_LINES = 3;
+// Above this many line comparisons, changed regions are shown as replaced wholesale
+const MAX_DIFF_CELLS = 4_000_000;
+
+interface DiffLine {
+	type: " " | "-" | "+";
+	text: string;
+	oldLine: number; // 1-based line in the old text before or at this line
+	newLine: number; // 1-based line in the new text before or at this line
+}
+
+/**
+ * Creates a unified diff between two versions of a file. Missing old content
+ * means the file is created; missing new content means it is deleted.
+ */
+export function createUnifiedDiff(filePath: string, oldContent?: string, newContent?: string): string {
+	const oldLines = oldContent === undefined ? [] : oldContent.split("\n");
+	const newLines = newContent === undefined ? [] : newContent.split("\n");
+	const lines = diffLines(oldLines, newLines);
+	if (!lines.some((line) => line.type !== " ")) {
+		return "";
+	}
+
+	const header = [
+		oldContent === undefined ? "--- /dev/null" : `--- a/${filePath}`,
+		newContent === undefined ? "+++ /dev/null" : `+++ b/${filePath}`,
+	];
+	return [...header, ...formatHunks(lines)].join("\n");
+}
+
+/**
+ * Line-level diff: common prefix and suffix, then an LCS of the middle
+ */
+function diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+	let prefix = 0;
+	while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+		prefix++;
+	}
+	let suffix = 0;
+	while (
+		suffix < oldLines.length - prefix &&
+		suffix < newLines.length - prefix &&
+		oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+	) {
+		suffix++;
+	}
+
+	const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix);
+	const newMiddle = newLines.slice(prefix, newLines.length - suffix);
+	const ops: DiffLine["type"][] = [
+		...Array<DiffLine["type"]>(prefix).fill(" "),
+		...diffMiddle(oldMiddle, newMiddle),
+		...Array<DiffLine["type"]>(suffix).fill(" "),
+	];
+
+	// Attach text and line numbers
+	const result: DiffLine[] = [];
+	let oldIndex = 0;
+	let newIndex = 0;
+	for (const type of ops) {
+		if (type === " ") {
+			result.push({ type, text: oldLines[oldIndex], oldLine: ++oldIndex, newLine: ++newIndex });
+		} else if (type === "-") {
+			result.push({ type, text: oldLines[oldIndex], oldLine: ++oldIndex, newLine: newIndex });
+		} else {
+			result.push({ type, text: newLines[newIndex], oldLine: oldIndex, newLine: ++newIndex });
+		}
+	}
+	return result;
+}
+
+function diffMiddle(oldLines: string[], newLines: string[]): DiffLine["type"][] {
+	const removeAll = Array<DiffLine["type"]>(oldLines.length).fill("-");
+	const addAll = Array<DiffLine["type"]>(newLines.length).fill("+");
+	if (oldLines.length === 0 || newLines.length === 0 || oldLines.length * newLines.length > MAX_DIFF_CELLS) {
+		return [...removeAll, ...addAll];
+	}
+
+	// lcs[i][j]: longest common subsequence of oldLines[i:] and newLines[j:]
+	const lcs = Array.from({ length: oldLines.length + 1 }, () => new Uint32Array(newLines.length + 1));
+	for (let i = oldLines.length - 1; i >= 0; i--) {
+		for (let j = newLines.length - 1; j >= 0; j--) {
+			lcs[i][j] = oldLines[i] === newLines[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+		}
+	}
+
+	const ops: DiffLine["type"][] = [];
+	let i = 0;
+	let j = 0;
+	while (i < oldLines.length && j < newLines.length) {
+		if (oldLines[i] === newLines[j]) {
+			ops.push(" ");
+			i++;
+			j++;
+		} else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+			ops.push("-");
+			i++;
+		} else {
+			ops.push("+");
+			j++;
+		}
+	}
+	return [...ops, ...removeAll.slice(i), ...addAll.slice(j)];
+}
+
+/**
+ * Group changed lines with their context into "@@ -a,b +c,d @@" hunks
+ */
+function formatHunks(lines: DiffLine[]): string[] {
+	const output: string[] = [];
+	let index = 0;
+
+	while (index < lines.length) {
+		const firstChange = lines.findIndex((line, i) => i >= index && line.type !== " ");
+		if (firstChange === -1) break;
+
+		const start = Math.max(index, firstChange - CONTEXT_LINES);
+		// Extend the hunk while changes are closer than two context blocks
+		let end = firstChange;
+		let lastChange = firstChange;
+		while (end < lines.length && end - lastChange <= CONTEXT_LINES * 2) {
+			if (lines[end].type !== " ") lastChange = end;
+			end++;
+		}
+		end = Math.min(lines.length, lastChange + CONTEXT_LINES + 1);
+
+		const hunk = lines.slice(start, end);
+		const oldCount = hunk.filter((line) => line.type !== "+").length;
+		const newCount = hunk.filter((line) => line.type !== "-").length;
+		const oldStart = oldCount === 0 ? hunk[0].oldLine : hunk.find((line) => line.type !== "+")?.oldLine ?? 0;
+		const newStart = newCount === 0 ? hunk[0].newLine : hunk.find((line) => line.type !== "-")?.newLine ?? 0;
+
+		output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+		output.push(...hunk.map((line) => `${line.type}${line.text}`));
+		index = end;
+	}
+
+	return output;
+}
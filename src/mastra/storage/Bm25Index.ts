@@ -0,0 +1,134 @@
+import { preprocessText } from "../embeddings/utils/textProcessing";
+
+export interface Bm25IndexConfig {
+	k1?: number; // Term frequency saturation
+	b?: number; // Length normalization
+}
+
+export interface Bm25SearchResult {
+	id: string;
+	score: number;
+}
+
+/**
+ * In-memory BM25 inverted index over chunk text, used for exact-term retrieval
+ * (ticket IDs, names, acronyms) that dense embeddings tend to miss
+ */
+export class Bm25Index {
+	private postings: Map<string, Map<string, number>> = new Map();
+	private docLengths: Map<string, number> = new Map();
+	private docTerms: Map<string, string[]> = new Map();
+	private totalLength = 0;
+	private k1: number;
+	private b: number;
+
+	constructor(config: Bm25IndexConfig = {}) {
+		this.k1 = config.k1 ?? 1.2;
+		this.b = config.b ?? 0.75;
+	}
+
+	/**
+	 * Index a document, replacing any previous text for the same id
+	 */
+	add(id: string, text: string): void {
+		this.remove(id);
+
+		const tokens = this.tokenize(text);
+		if (tokens.length === 0) return;
+
+		const frequencies = new Map<string, number>();
+		for (const token of tokens) {
+			frequencies.set(token, (frequencies.get(token) || 0) + 1);
+		}
+
+		for (const [term, frequency] of frequencies) {
+			let posting = this.postings.get(term);
+			if (!posting) {
+				posting = new Map();
+				this.postings.set(term, posting);
+			}
+			posting.set(id, frequency);
+		}
+
+		this.docLengths.set(id, tokens.length);
+		this.docTerms.set(id, [...frequencies.keys()]);
+		this.totalLength += tokens.length;
+	}
+
+	/**
+	 * Remove a document from the index
+	 */
+	remove(id: string): void {
+		const terms = this.docTerms.get(id);
+		if (!terms) return;
+
+		for (const term of terms) {
+			const posting = this.postings.get(term);
+			if (!posting) continue;
+			posting.delete(id);
+			if (posting.size === 0) {
+				this.postings.delete(term);
+			}
+		}
+
+		this.totalLength -= this.docLengths.get(id) || 0;
+		this.docLengths.delete(id);
+		this.docTerms.delete(id);
+	}
+
+	/**
+	 * Rank documents against a free-text query
+	 */
+	search(
+		query: string,
+		topK: number,
+		accept?: (id: string) => boolean
+	): Bm25SearchResult[] {
+		const documentCount = this.docLengths.size;
+		if (documentCount === 0 || topK <= 0) return [];
+
+		const averageLength = this.totalLength / documentCount;
+		const scores = new Map<string, number>();
+
+		for (const term of new Set(this.tokenize(query))) {
+			const posting = this.postings.get(term);
+			if (!posting) continue;
+
+			const idf = Math.log(1 + (documentCount - posting.size + 0.5) / (posting.size + 0.5));
+			for (const [id, frequency] of posting) {
+				if (accept && !accept(id)) continue;
+
+				const length = this.docLengths.get(id) || 0;
+				const norm = this.k1 * (1 - this.b + (this.b * length) / averageLength);
+				const termScore = (idf * frequency * (this.k1 + 1)) / (frequency + norm);
+				scores.set(id, (scores.get(id) || 0) + termScore);
+			}
+		}
+
+		return [...scores.entries()]
+			.map(([id, score]) => ({ id, score }))
+			.sort((a, b) => b.score - a.score)
+			.slice(0, topK);
+	}
+
+	/**
+	 * Drop every document
+	 */
+	clear(): void {
+		this.postings.clear();
+		this.docLengths.clear();
+		this.docTerms.clear();
+		this.totalLength = 0;
+	}
+
+	/**
+	 * Number of indexed documents
+	 */
+	size(): number {
+		return this.docLengths.size;
+	}
+
+	private tokenize(text: string): string[] {
+		return preprocessText(text, { removeStopwords: true, applyStemming: true });
+	}
+}
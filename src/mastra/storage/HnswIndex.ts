@@ -0,0 +1,509 @@
+export interface HnswIndexConfig {
+	m?: number; // Max neighbours per node on upper layers (layer 0 allows 2 * m)
+	efConstruction?: number; // Candidate list size while inserting
+	efSearch?: number; // Default candidate list size while querying
+}
+
+export interface HnswSearchResult {
+	id: string;
+	score: number; // Cosine similarity
+}
+
+// Serialized form persisted next to the vector shards
+export interface HnswIndexData {
+	version: number;
+	m: number;
+	efConstruction: number;
+	entryPoint: string | null;
+	maxLevel: number;
+	nodes: Record<string, string[][]>; // Neighbour ids per layer
+}
+
+interface HnswNode {
+	level: number;
+	neighbors: string[][];
+	incoming: Set<string>; // Nodes linking here on any layer, so a removal only visits those
+}
+
+interface Candidate {
+	id: string;
+	distance: number;
+}
+
+const HNSW_VERSION = 1;
+
+/**
+ * Binary heap ordered by a comparator; the root is the element that sorts first
+ */
+class Heap<T> {
+	private items: T[] = [];
+
+	constructor(private compare: (a: T, b: T) => number) {}
+
+	get size(): number {
+		return this.items.length;
+	}
+
+	peek(): T | undefined {
+		return this.items[0];
+	}
+
+	push(item: T): void {
+		const items = this.items;
+		items.push(item);
+		let i = items.length - 1;
+		while (i > 0) {
+			const parent = (i - 1) >> 1;
+			if (this.compare(items[i], items[parent]) >= 0) break;
+			[items[i], items[parent]] = [items[parent], items[i]];
+			i = parent;
+		}
+	}
+
+	pop(): T | undefined {
+		const items = this.items;
+		if (items.length === 0) return undefined;
+
+		const top = items[0];
+		const last = items.pop() as T;
+		if (items.length > 0) {
+			items[0] = last;
+			let i = 0;
+			for (;;) {
+				const left = 2 * i + 1;
+				const right = left + 1;
+				let next = i;
+				if (left < items.length && this.compare(items[left], items[next]) < 0) next = left;
+				if (right < items.length && this.compare(items[right], items[next]) < 0) next = right;
+				if (next === i) break;
+				[items[i], items[next]] = [items[next], items[i]];
+				i = next;
+			}
+		}
+		return top;
+	}
+
+	toArray(): T[] {
+		return [...this.items];
+	}
+}
+
+/**
+ * Hierarchical Navigable Small World graph for approximate cosine search.
+ * Only the graph is held here; vectors are resolved through the owning store.
+ */
+export class HnswIndex {
+	private nodes: Map<string, HnswNode> = new Map();
+	private norms: Map<string, number> = new Map();
+	private entryPoint: string | null = null;
+	private maxLevel = -1;
+	private m: number;
+	private efConstruction: number;
+	private efSearch: number;
+	private levelMultiplier: number;
+	private getVector: (id: string) => number[] | undefined;
+
+	constructor(getVector: (id: string) => number[] | undefined, config: HnswIndexConfig = {}) {
+		this.getVector = getVector;
+		this.m = config.m || 16;
+		this.efConstruction = config.efConstruction || 100;
+		this.efSearch = config.efSearch || 64;
+		this.levelMultiplier = 1 / Math.log(this.m);
+	}
+
+	/**
+	 * Number of nodes in the graph
+	 */
+	size(): number {
+		return this.nodes.size;
+	}
+
+	has(id: string): boolean {
+		return this.nodes.has(id);
+	}
+
+	/**
+	 * Insert a vector, replacing any existing node with the same id
+	 */
+	add(id: string): void {
+		const vector = this.getVector(id);
+		if (!vector) return;
+
+		if (this.nodes.has(id)) {
+			this.remove(id);
+		}
+
+		this.norms.set(id, this.norm(vector));
+		const level = Math.floor(-Math.log(Math.random() || Number.MIN_VALUE) * this.levelMultiplier);
+		const node: HnswNode = {
+			level,
+			neighbors: Array.from({ length: level + 1 }, () => []),
+			incoming: new Set(),
+		};
+		this.nodes.set(id, node);
+
+		if (this.entryPoint === null) {
+			this.entryPoint = id;
+			this.maxLevel = level;
+			return;
+		}
+
+		const queryNorm = this.norms.get(id) as number;
+		let entry: Candidate = {
+			id: this.entryPoint,
+			distance: this.distance(vector, queryNorm, this.entryPoint),
+		};
+
+		for (let layer = this.maxLevel; layer > level; layer--) {
+			entry = this.greedyClosest(vector, queryNorm, entry, layer);
+		}
+
+		let entries = [entry];
+		for (let layer = Math.min(level, this.maxLevel); layer >= 0; layer--) {
+			const found = this.searchLayer(vector, queryNorm, entries, this.efConstruction, layer);
+			const selected = this.selectNeighbors(found, this.maxNeighbors(layer));
+			this.setNeighbors(id, node, layer, selected.map((candidate) => candidate.id));
+
+			for (const neighbor of selected) {
+				this.connect(neighbor.id, id, layer);
+			}
+			entries = found;
+		}
+
+		if (level > this.maxLevel) {
+			this.entryPoint = id;
+			this.maxLevel = level;
+		}
+	}
+
+	/**
+	 * Remove a node and reconnect the neighbours that pointed at it
+	 */
+	remove(id: string): void {
+		const node = this.nodes.get(id);
+		if (!node) return;
+
+		this.nodes.delete(id);
+		this.norms.delete(id);
+		for (const links of node.neighbors) {
+			for (const neighborId of links) {
+				this.nodes.get(neighborId)?.incoming.delete(id);
+			}
+		}
+
+		for (let layer = 0; layer <= node.level; layer++) {
+			const orphans = node.neighbors[layer];
+			for (const neighborId of orphans) {
+				const neighbor = this.nodes.get(neighborId);
+				if (!neighbor || !neighbor.neighbors[layer]) continue;
+
+				const remaining = neighbor.neighbors[layer].filter((n) => n !== id);
+				const pool = new Set([...remaining, ...orphans]);
+				pool.delete(neighborId);
+				this.setNeighbors(neighborId, neighbor, layer, this.pruneConnections(neighborId, [...pool], layer));
+			}
+		}
+
+		// Drop the one-way links that still point at the removed node
+		for (const sourceId of node.incoming) {
+			const source = this.nodes.get(sourceId);
+			if (source) {
+				source.neighbors = source.neighbors.map((links) => links.filter((n) => n !== id));
+			}
+		}
+
+		if (this.entryPoint === id) {
+			this.resetEntryPoint();
+		}
+	}
+
+	/**
+	 * Find approximate nearest neighbours by cosine similarity.
+	 * `accept` restricts results without restricting graph traversal.
+	 */
+	search(
+		query: number[],
+		topK: number,
+		options: { ef?: number; accept?: (id: string) => boolean } = {}
+	): HnswSearchResult[] {
+		if (this.entryPoint === null || topK <= 0) return [];
+
+		const queryNorm = this.norm(query);
+		const ef = Math.max(options.ef || this.efSearch, topK);
+
+		let entry: Candidate = {
+			id: this.entryPoint,
+			distance: this.distance(query, queryNorm, this.entryPoint),
+		};
+		for (let layer = this.maxLevel; layer > 0; layer--) {
+			entry = this.greedyClosest(query, queryNorm, entry, layer);
+		}
+
+		const found = this.searchLayer(query, queryNorm, [entry], ef, 0);
+		return found
+			.filter((candidate) => !options.accept || options.accept(candidate.id))
+			.slice(0, topK)
+			.map((candidate) => ({ id: candidate.id, score: 1 - candidate.distance }));
+	}
+
+	/**
+	 * Drop every node
+	 */
+	clear(): void {
+		this.nodes.clear();
+		this.norms.clear();
+		this.entryPoint = null;
+		this.maxLevel = -1;
+	}
+
+	serialize(): HnswIndexData {
+		const nodes: Record<string, string[][]> = {};
+		for (const [id, node] of this.nodes) {
+			nodes[id] = node.neighbors;
+		}
+
+		return {
+			version: HNSW_VERSION,
+			m: this.m,
+			efConstruction: this.efConstruction,
+			entryPoint: this.entryPoint,
+			maxLevel: this.maxLevel,
+			nodes,
+		};
+	}
+
+	/**
+	 * Restore a persisted graph. Returns false if it is unusable and should be rebuilt.
+	 * Nodes whose vectors have been deleted since it was saved are dropped, along
+	 * with the links to them.
+	 */
+	load(data: HnswIndexData): boolean {
+		if (data.version !== HNSW_VERSION || data.m !== this.m) {
+			return false;
+		}
+
+		this.clear();
+		const missing = new Set<string>();
+		for (const [id, neighbors] of Object.entries(data.nodes || {})) {
+			const vector = this.getVector(id);
+			if (!vector) {
+				missing.add(id);
+				continue;
+			}
+			this.nodes.set(id, { level: neighbors.length - 1, neighbors, incoming: new Set() });
+			this.norms.set(id, this.norm(vector));
+		}
+
+		for (const [id, node] of this.nodes) {
+			if (missing.size > 0) {
+				node.neighbors = node.neighbors.map((layer) => layer.filter((neighborId) => !missing.has(neighborId)));
+			}
+			for (const links of node.neighbors) {
+				for (const neighborId of links) {
+					this.nodes.get(neighborId)?.incoming.add(id);
+				}
+			}
+		}
+
+		this.entryPoint = data.entryPoint;
+		this.maxLevel = data.maxLevel;
+		if (this.entryPoint !== null && !this.nodes.has(this.entryPoint)) {
+			if (!missing.has(this.entryPoint)) {
+				this.clear();
+				return false;
+			}
+			this.resetEntryPoint();
+		}
+		return true;
+	}
+
+	/**
+	 * Make the node on the highest layer the entry point
+	 */
+	private resetEntryPoint(): void {
+		this.entryPoint = null;
+		this.maxLevel = -1;
+		for (const [id, node] of this.nodes) {
+			if (node.level > this.maxLevel) {
+				this.entryPoint = id;
+				this.maxLevel = node.level;
+			}
+		}
+	}
+
+	/**
+	 * Walk a single layer towards the query, keeping only the closest node
+	 */
+	private greedyClosest(query: number[], queryNorm: number, entry: Candidate, layer: number): Candidate {
+		let current = entry;
+		let improved = true;
+		while (improved) {
+			improved = false;
+			const neighbors = this.nodes.get(current.id)?.neighbors[layer] || [];
+			for (const neighborId of neighbors) {
+				const distance = this.distance(query, queryNorm, neighborId);
+				if (distance < current.distance) {
+					current = { id: neighborId, distance };
+					improved = true;
+				}
+			}
+		}
+		return current;
+	}
+
+	/**
+	 * Best-first search of one layer; returns up to `ef` candidates sorted by distance
+	 */
+	private searchLayer(
+		query: number[],
+		queryNorm: number,
+		entries: Candidate[],
+		ef: number,
+		layer: number
+	): Candidate[] {
+		const visited = new Set<string>();
+		const candidates = new Heap<Candidate>((a, b) => a.distance - b.distance);
+		const results = new Heap<Candidate>((a, b) => b.distance - a.distance);
+
+		for (const entry of entries) {
+			if (visited.has(entry.id) || !this.nodes.has(entry.id)) continue;
+			visited.add(entry.id);
+			candidates.push(entry);
+			results.push(entry);
+			if (results.size > ef) results.pop();
+		}
+
+		while (candidates.size > 0) {
+			const closest = candidates.pop() as Candidate;
+			const furthest = results.peek();
+			if (furthest && closest.distance > furthest.distance && results.size >= ef) {
+				break;
+			}
+
+			const neighbors = this.nodes.get(closest.id)?.neighbors[layer] || [];
+			for (const neighborId of neighbors) {
+				if (visited.has(neighborId)) continue;
+				visited.add(neighborId);
+
+				const distance = this.distance(query, queryNorm, neighborId);
+				const worst = results.peek();
+				if (results.size < ef || (worst && distance < worst.distance)) {
+					const candidate = { id: neighborId, distance };
+					candidates.push(candidate);
+					results.push(candidate);
+					if (results.size > ef) results.pop();
+				}
+			}
+		}
+
+		return results.toArray().sort((a, b) => a.distance - b.distance);
+	}
+
+	/**
+	 * Neighbour selection heuristic: prefer candidates that are closer to the
+	 * query than to any already selected neighbour, then fill with the rest
+	 */
+	private selectNeighbors(candidates: Candidate[], max: number): Candidate[] {
+		// Looking past a few multiples of `max` rarely changes the outcome
+		const sorted = [...candidates].sort((a, b) => a.distance - b.distance).slice(0, max * 3);
+		const selected: Candidate[] = [];
+		const skipped: Candidate[] = [];
+
+		for (const candidate of sorted) {
+			if (selected.length >= max) break;
+			const vector = this.getVector(candidate.id);
+			if (!vector) continue;
+
+			const norm = this.norms.get(candidate.id) as number;
+			const dominated = selected.some(
+				(chosen) => this.distance(vector, norm, chosen.id) < candidate.distance
+			);
+			if (dominated) {
+				skipped.push(candidate);
+			} else {
+				selected.push(candidate);
+			}
+		}
+
+		for (const candidate of skipped) {
+			if (selected.length >= max) break;
+			selected.push(candidate);
+		}
+		return selected;
+	}
+
+	private connect(from: string, to: string, layer: number): void {
+		const node = this.nodes.get(from);
+		if (!node || !node.neighbors[layer] || node.neighbors[layer].includes(to)) return;
+
+		let links = [...node.neighbors[layer], to];
+		// Overflowing nodes keep their closest links; the selection heuristic is
+		// too costly to rerun on every insert in plain JS
+		if (links.length > this.maxNeighbors(layer)) {
+			const vector = this.getVector(from);
+			if (!vector) return;
+			const norm = this.norms.get(from) as number;
+			links = links
+				.map((neighborId) => ({ id: neighborId, distance: this.distance(vector, norm, neighborId) }))
+				.sort((a, b) => a.distance - b.distance)
+				.slice(0, this.maxNeighbors(layer))
+				.map((candidate) => candidate.id);
+		}
+		this.setNeighbors(from, node, layer, links);
+	}
+
+	/**
+	 * Replace a node's links on one layer, keeping the incoming sets of the
+	 * nodes it links to in step
+	 */
+	private setNeighbors(id: string, node: HnswNode, layer: number, links: string[]): void {
+		const previous = node.neighbors[layer];
+		node.neighbors[layer] = links;
+		for (const neighborId of links) {
+			this.nodes.get(neighborId)?.incoming.add(id);
+		}
+		for (const neighborId of previous) {
+			if (!node.neighbors.some((layerLinks) => layerLinks.includes(neighborId))) {
+				this.nodes.get(neighborId)?.incoming.delete(id);
+			}
+		}
+	}
+
+	private pruneConnections(id: string, neighborIds: string[], layer: number): string[] {
+		const vector = this.getVector(id);
+		if (!vector) return [];
+
+		const norm = this.norms.get(id) as number;
+		const candidates = neighborIds
+			.filter((neighborId) => this.nodes.has(neighborId))
+			.map((neighborId) => ({ id: neighborId, distance: this.distance(vector, norm, neighborId) }));
+		return this.selectNeighbors(candidates, this.maxNeighbors(layer)).map((c) => c.id);
+	}
+
+	private maxNeighbors(layer: number): number {
+		return layer === 0 ? this.m * 2 : this.m;
+	}
+
+	/**
+	 * Cosine distance between a query and a stored node
+	 */
+	private distance(query: number[], queryNorm: number, id: string): number {
+		const vector = this.getVector(id);
+		const norm = this.norms.get(id);
+		if (!vector || !norm || queryNorm === 0) return 1;
+
+		let dot = 0;
+		for (let i = 0; i < query.length; i++) {
+			dot += query[i] * vector[i];
+		}
+		return 1 - dot / (queryNorm * norm);
+	}
+
+	private norm(vector: number[]): number {
+		let sum = 0;
+		for (let i = 0; i < vector.length; i++) {
+			sum += vector[i] * vector[i];
+		}
+		return Math.sqrt(sum);
+	}
+}
@@ -0,0 +1,209 @@
+import { App } from "obsidian";
+
+export interface IndexManifestConfig {
+	dataDir: string;
+	fileName?: string;
+}
+
+export interface IndexManifestEntry {
+	mtime: number;
+	size: number;
+	hash: string;
+	chunkHashes: string[];
+	indexedAt: string;
+}
+
+/**
+ * Persisted per-file record of what has been embedded into the vector store.
+ * Lets startup reconcile only the files that drifted since the last session.
+ */
+export class IndexManifest {
+	private app: App;
+	private dataDir: string;
+	private dataPath: string;
+	private entries: Record<string, IndexManifestEntry> = {};
+	private embeddingModel: string | null = null;
+	private chunker: string | null = null;
+	private initialized = false;
+	private dirty = false;
+
+	constructor(app: App, config: IndexManifestConfig) {
+		this.app = app;
+		this.dataDir = config.dataDir;
+		this.dataPath = `${config.dataDir}/${config.fileName || "index-manifest.json"}`;
+	}
+
+	/**
+	 * Initialize the manifest
+	 */
+	async initialize(): Promise<void> {
+		if (this.initialized) return;
+
+		await this.loadData();
+		this.initialized = true;
+	}
+
+	/**
+	 * Save the current entries and continue with the manifest in another file,
+	 * e.g. the one belonging to the vector store the embedding method switched to.
+	 * Before initialization this only picks the file to load.
+	 */
+	async switchFile(fileName?: string): Promise<void> {
+		const dataPath = `${this.dataDir}/${fileName || "index-manifest.json"}`;
+		if (dataPath === this.dataPath) return;
+		if (!this.initialized) {
+			this.dataPath = dataPath;
+			return;
+		}
+
+		await this.save();
+		this.dataPath = dataPath;
+		this.embeddingModel = null;
+		this.chunker = null;
+		this.dirty = false;
+		await this.loadData();
+	}
+
+	/**
+	 * Get the entry recorded for a file path
+	 */
+	get(path: string): IndexManifestEntry | undefined {
+		return this.entries[path];
+	}
+
+	/**
+	 * Record a file as indexed
+	 */
+	set(path: string, entry: IndexManifestEntry): void {
+		this.entries[path] = entry;
+		this.dirty = true;
+	}
+
+	/**
+	 * Forget a file
+	 */
+	delete(path: string): void {
+		if (path in this.entries) {
+			delete this.entries[path];
+			this.dirty = true;
+		}
+	}
+
+	/**
+	 * Move an entry to a new path after a rename
+	 */
+	rename(oldPath: string, newPath: string): void {
+		const entry = this.entries[oldPath];
+		if (!entry) return;
+
+		delete this.entries[oldPath];
+		this.entries[newPath] = entry;
+		this.dirty = true;
+	}
+
+	/**
+	 * Get all tracked file paths
+	 */
+	paths(): string[] {
+		return Object.keys(this.entries);
+	}
+
+	/**
+	 * Get the embedding model the recorded entries were produced with
+	 */
+	getEmbeddingModel(): string | null {
+		return this.embeddingModel;
+	}
+
+	/**
+	 * Set the embedding model, dropping all entries if it changed
+	 */
+	setEmbeddingModel(model: string): void {
+		if (this.embeddingModel === model) return;
+
+		if (this.embeddingModel !== null) {
+			console.log(
+				`Embedding model changed (${this.embeddingModel} -> ${model}), clearing index manifest`
+			);
+			this.entries = {};
+		}
+		this.embeddingModel = model;
+		this.dirty = true;
+	}
+
+	/**
+	 * Set the chunking scheme, dropping all entries if it changed
+	 */
+	setChunker(chunker: string): void {
+		if (this.chunker === chunker) return;
+
+		if (this.chunker !== null || this.size() > 0) {
+			console.log(`Chunking changed (${this.chunker} -> ${chunker}), clearing index manifest`);
+			this.entries = {};
+		}
+		this.chunker = chunker;
+		this.dirty = true;
+	}
+
+	/**
+	 * Drop all entries
+	 */
+	clear(): void {
+		this.entries = {};
+		this.dirty = true;
+	}
+
+	/**
+	 * Number of tracked files
+	 */
+	size(): number {
+		return Object.keys(this.entries).length;
+	}
+
+	/**
+	 * Persist the manifest if anything changed
+	 */
+	async save(): Promise<void> {
+		if (!this.dirty) return;
+
+		try {
+			const data = {
+				embeddingModel: this.embeddingModel,
+				chunker: this.chunker,
+				fileCount: this.size(),
+				lastUpdated: new Date().toISOString(),
+				files: this.entries,
+			};
+			await this.app.vault.adapter.write(this.dataPath, JSON.stringify(data));
+			this.dirty = false;
+		} catch (error) {
+			console.error("Failed to save index manifest:", error);
+			throw error;
+		}
+	}
+
+	/**
+	 * Load the manifest from the file system
+	 */
+	private async loadData(): Promise<void> {
+		try {
+			const dataDir = this.dataPath.substring(0, this.dataPath.lastIndexOf("/"));
+			if (!(await this.app.vault.adapter.exists(dataDir))) {
+				await this.app.vault.adapter.mkdir(dataDir);
+			}
+
+			if (await this.app.vault.adapter.exists(this.dataPath)) {
+				const content = await this.app.vault.adapter.read(this.dataPath);
+				const data = JSON.parse(content);
+				this.entries = data.files || {};
+				this.embeddingModel = data.embeddingModel || null;
+				this.chunker = data.chunker || null;
+			} else {
+				this.entries = {};
+			}
+		} catch (error) {
+			console.warn("Failed to load index manifest, starting fresh:", error);
+			this.entries = {};
+		}
+	}
+}
@@ -1,9 +1,16 @@
 import { App } from "obsidian";
+import { HnswIndex, HnswIndexConfig, HnswIndexData } from "./HnswIndex";
+import { Bm25Index } from "./Bm25Index";
 
 export interface ObsidianVectorStoreConfig {
 	dataDir: string;
 	fileName?: string;
 	dimensions?: number;
+	embeddingModel?: string; // Stored vectors from another model are discarded on load
+	shardSize?: number; // Vectors per binary shard
+	compactionThreshold?: number; // Fraction of dead slots that triggers compaction
+	exactSearchThreshold?: number; // Below this many candidates, queries scan every vector
+	hnsw?: HnswIndexConfig;
 }
 
 export interface VectorData {
@@ -19,21 +26,104 @@ export interface VectorQueryResult {
 	score: number;
 }
 
+// Location of a vector inside the binary shards
+interface VectorSlot {
+	shard: number;
+	offset: number;
+}
+
+// Shape of the JSON metadata index written by each compaction
+interface VectorIndexFile {
+	version: number;
+	dimensions: number;
+	embeddingModel?: string;
+	shardSize: number;
+	shards: number[]; // Slot count per shard
+	deadSlots: number;
+	vectorCount: number;
+	generation?: number; // Bumped by each compaction; names the shards and journal that go with this index
+	lastUpdated: string;
+	records: Record<string, { s: number; o: number; m?: Record<string, any> }>; // Metadata without the chunk text
+}
+
+// Chunk text of the records in the index, kept apart so the index stays small
+interface ChunkTextFile {
+	generation: number;
+	chunks: Record<string, string>;
+}
+
+// One line of the append-only journal of changes made since the last compaction
+type JournalEntry =
+	| { t: "put"; id: string; s: number; o: number; m?: Record<string, any>; c?: string } // c is the chunk text
+	| { t: "move"; id: string; s: number; o: number } // Vector relocated by a segment merge
+	| { t: "del"; id: string }
+	| { t: "shard"; s: number; n: number }; // Shard written with n slots, or dropped when n is 0
+
+// The persisted graph, with how much of the journal it already reflects
+interface VectorGraphFile extends HnswIndexData {
+	generation?: number;
+	journalEntries?: number;
+}
+
+const STORAGE_VERSION = 3;
+
+// Small shards left at the end of the store by individual upserts before they are merged
+const MAX_OPEN_SEGMENTS = 16;
+
+// How long writes must pause before the graph is saved
+const GRAPH_WRITE_DELAY = 30_000;
+
 /**
  * Obsidian-compatible vector store that uses the file system
- * Replaces LibSQL vector storage with JSON file storage
+ * Replaces LibSQL vector storage with Float32 binary shards and a JSON metadata index.
+ * Each upsert writes its vectors to a new shard at the end of the store and appends
+ * its records to a journal; deletes append tombstones. Small trailing shards are
+ * merged as they pile up, and compaction folds the journal back into the index,
+ * reclaiming dead slots. Chunk text lives in its own file rather than the index.
+ * Queries go through an HNSW graph, saved on compaction and when writes go idle,
+ * with exact search for small collections and selective filters. Chunk text is
+ * also kept in a BM25 index, rebuilt on load, for lexical queries.
  */
 export class ObsidianVectorStore {
 	private app: App;
-	private dataPath: string;
+	private storeDir: string;
+	private indexPath: string;
+	private chunksPath: string;
+	private graphPath: string;
+	private legacyPath: string;
 	private vectors: Record<string, VectorData> = {};
+	private slots: Record<string, VectorSlot> = {};
+	private shardCounts: number[] = [];
+	private shardMembers: string[][] = []; // Id written to each slot, so a shard is built without scanning every slot
+	private sealedShards = 0; // Shards already on disk; new slots open a shard after them
+	private pending: JournalEntry[] = []; // Changes not yet in the journal
+	private generation = 0;
+	private journalEntries = 0;
+	private graphTimer: ReturnType<typeof setTimeout> | null = null;
 	private initialized = false;
 	private dimensions: number;
+	private embeddingModel?: string;
+	private shardSize: number;
+	private compactionThreshold: number;
+	private writeQueue: Promise<void> = Promise.resolve();
+	private hnsw: HnswIndex;
+	private lexical = new Bm25Index();
+	private exactSearchThreshold: number;
 
 	constructor(app: App, config: ObsidianVectorStoreConfig) {
 		this.app = app;
-		this.dataPath = `${config.dataDir}/${config.fileName || 'vectors.json'}`;
+		const fileName = config.fileName || 'vectors.json';
+		this.legacyPath = `${config.dataDir}/${fileName}`;
+		this.storeDir = `${config.dataDir}/${fileName.replace(/\.json$/, '')}`;
+		this.indexPath = `${this.storeDir}/index.json`;
+		this.chunksPath = `${this.storeDir}/chunks.json`;
+		this.graphPath = `${this.storeDir}/hnsw.json`;
 		this.dimensions = config.dimensions || 1536; // Default OpenAI embedding size
+		this.embeddingModel = config.embeddingModel;
+		this.shardSize = config.shardSize || 1024;
+		this.compactionThreshold = config.compactionThreshold ?? 0.3;
+		this.exactSearchThreshold = config.exactSearchThreshold ?? 1000;
+		this.hnsw = new HnswIndex((id) => this.vectors[id]?.vector, config.hnsw);
 	}
 
 	/**
@@ -60,12 +150,20 @@ export class ObsidianVectorStore {
 			await this.initialize();
 		}
 
+		// Validate vector dimensions; the binary shards have a fixed stride
 		for (const vector of vectors) {
-			// Validate vector dimensions
 			if (vector.vector.length !== this.dimensions) {
-				console.warn(`Vector ${vector.id} has ${vector.vector.length} dimensions, expected ${this.dimensions}`);
+				throw new Error(`Vector ${vector.id} has ${vector.vector.length} dimensions, expected ${this.dimensions}`);
 			}
-			
+		}
+
+		for (const vector of vectors) {
+			// Any previous slot becomes a tombstone
+			const slot = this.allocateSlot(vector.id);
+			this.slots[vector.id] = slot;
+			this.pending.push({ t: "put", id: vector.id, s: slot.shard, o: slot.offset });
+
+			const previous = this.vectors[vector.id];
 			this.vectors[vector.id] = {
 				...vector,
 				metadata: {
@@ -73,9 +171,18 @@ export class ObsidianVectorStore {
 					updatedAt: new Date().toISOString(),
 				}
 			};
+
+			// Metadata-only updates keep their place in the graph
+			if (!previous || !this.hnsw.has(vector.id) || !this.sameVector(previous.vector, vector.vector)) {
+				this.hnsw.add(vector.id);
+			}
+			const text = this.lexicalText(vector.metadata);
+			if (!previous || text !== this.lexicalText(previous.metadata)) {
+				this.lexical.add(vector.id, text);
+			}
 		}
 
-		await this.saveData();
+		await this.persist();
 	}
 
 	/**
@@ -100,18 +207,42 @@ export class ObsidianVectorStore {
 			throw new Error(`Query vector has ${queryVector.length} dimensions, expected ${this.dimensions}`);
 		}
 
-		// Get all vectors and calculate similarities
-		let candidates = Object.values(this.vectors);
+		const total = Object.keys(this.vectors).length;
+		let candidates: VectorData[] | null = null;
 
 		// Apply filters if provided
 		if (filter) {
-			candidates = candidates.filter(vector => 
+			candidates = Object.values(this.vectors).filter(vector => 
 				this.matchesFilter(vector.metadata || {}, filter)
 			);
 		}
 
+		// Graph search pays off only for large candidate sets; a selective filter
+		// would discard most of what the graph returns, so scan those exactly
+		const candidateCount = candidates ? candidates.length : total;
+		const useAnn =
+			this.hnsw.size() === total &&
+			candidateCount >= this.exactSearchThreshold &&
+			candidateCount / Math.max(total, 1) >= 0.2;
+
+		if (useAnn) {
+			const accepted = candidates ? new Set(candidates.map(vector => vector.id)) : null;
+			const selectivity = candidateCount / Math.max(total, 1);
+			const matches = this.hnsw.search(queryVector, topK, {
+				ef: Math.ceil(Math.max(64, topK * 4) / selectivity),
+				accept: accepted ? (id) => accepted.has(id) : undefined,
+			});
+
+			return matches.map(match => ({
+				id: match.id,
+				vector: this.vectors[match.id].vector,
+				metadata: includeMetadata ? this.vectors[match.id].metadata : undefined,
+				score: match.score,
+			}));
+		}
+
 		// Calculate cosine similarity for each vector
-		const results: VectorQueryResult[] = candidates.map(vector => ({
+		const results: VectorQueryResult[] = (candidates || Object.values(this.vectors)).map(vector => ({
 			id: vector.id,
 			vector: vector.vector,
 			metadata: includeMetadata ? vector.metadata : undefined,
@@ -124,6 +255,36 @@ export class ObsidianVectorStore {
 			.slice(0, topK);
 	}
 
+	/**
+	 * Rank stored chunks against query text with BM25
+	 */
+	async lexicalQuery(
+		queryText: string,
+		options: {
+			topK?: number;
+			filter?: Record<string, any>;
+			includeMetadata?: boolean;
+		} = {}
+	): Promise<VectorQueryResult[]> {
+		if (!this.initialized) {
+			await this.initialize();
+		}
+
+		const { topK = 5, filter, includeMetadata = true } = options;
+		const matches = this.lexical.search(
+			queryText,
+			topK,
+			filter ? (id) => this.matchesFilter(this.vectors[id]?.metadata || {}, filter) : undefined
+		);
+
+		return matches.map(match => ({
+			id: match.id,
+			vector: this.vectors[match.id].vector,
+			metadata: includeMetadata ? this.vectors[match.id].metadata : undefined,
+			score: match.score,
+		}));
+	}
+
 	/**
 	 * Delete vectors by IDs
 	 */
@@ -132,11 +293,20 @@ export class ObsidianVectorStore {
 			await this.initialize();
 		}
 
+		let removed = 0;
 		for (const id of ids) {
+			if (!this.slots[id]) continue;
+			this.hnsw.remove(id);
+			this.lexical.remove(id);
 			delete this.vectors[id];
+			delete this.slots[id];
+			this.pending.push({ t: "del", id });
+			removed++;
 		}
 
-		await this.saveData();
+		if (removed > 0) {
+			await this.persist();
+		}
 	}
 
 	/**
@@ -195,8 +365,46 @@ export class ObsidianVectorStore {
 	 * Clear all vectors
 	 */
 	async clear(): Promise<void> {
+		if (!this.initialized) {
+			await this.initialize();
+		}
+
 		this.vectors = {};
-		await this.saveData();
+		this.slots = {};
+		this.hnsw.clear();
+		this.lexical.clear();
+		// Compacting an empty store writes an empty index and drops the old files
+		await this.enqueueWrite(() => this.compactNow());
+	}
+
+	/**
+	 * Rewrite the shards densely, dropping tombstoned slots
+	 */
+	async compact(): Promise<void> {
+		if (!this.initialized) {
+			await this.initialize();
+		}
+
+		await this.enqueueWrite(() => this.compactNow());
+	}
+
+	private sameVector(a: number[], b: number[]): boolean {
+		if (a.length !== b.length) return false;
+		for (let i = 0; i < a.length; i++) {
+			// Stored vectors round-trip through Float32
+			if (Math.fround(a[i]) !== Math.fround(b[i])) return false;
+		}
+		return true;
+	}
+
+	/**
+	 * Text a chunk is lexically indexed under: its file name, heading path and content
+	 */
+	private lexicalText(metadata?: Record<string, any>): string {
+		if (!metadata) return "";
+		return [metadata.fileName, metadata.headingPath, metadata.content]
+			.filter((part) => typeof part === "string" && part.length > 0)
+			.join("\n");
 	}
 
 	/**
@@ -230,69 +438,695 @@ export class ObsidianVectorStore {
 	 * Check if metadata matches filter criteria
 	 */
 	private matchesFilter(metadata: Record<string, any>, filter: Record<string, any>): boolean {
-		for (const [key, value] of Object.entries(filter)) {
-			if (metadata[key] !== value) {
+		for (const [key, condition] of Object.entries(filter)) {
+			// Boolean groups: { $and: [...] }, { $or: [...] }, { $not: {...} }
+			if (key === "$and" || key === "$or") {
+				const clauses = condition as Record<string, any>[];
+				const matches = (clause: Record<string, any>) => this.matchesFilter(metadata, clause);
+				if (key === "$and" ? !clauses.every(matches) : !clauses.some(matches)) {
+					return false;
+				}
+				continue;
+			}
+			if (key === "$not") {
+				if (this.matchesFilter(metadata, condition)) {
+					return false;
+				}
+				continue;
+			}
+			if (!this.matchesCondition(metadata[key], condition)) {
 				return false;
 			}
 		}
 		return true;
 	}
 
+	/**
+	 * Check one metadata value against a plain value (equality; membership for
+	 * arrays) or an operator object such as `{ $gte: 1, $lte: 5 }`
+	 */
+	private matchesCondition(actual: any, condition: any): boolean {
+		const isOperatorObject =
+			condition !== null &&
+			typeof condition === "object" &&
+			!Array.isArray(condition) &&
+			Object.keys(condition).some((key) => key.startsWith("$"));
+		if (!isOperatorObject) {
+			return this.valueEquals(actual, condition);
+		}
+
+		return Object.entries(condition).every(([operator, expected]: [string, any]) => {
+			switch (operator) {
+				case "$eq":
+					return this.valueEquals(actual, expected);
+				case "$ne":
+					return !this.valueEquals(actual, expected);
+				case "$gt":
+					return this.compare(actual, expected, (diff) => diff > 0);
+				case "$gte":
+					return this.compare(actual, expected, (diff) => diff >= 0);
+				case "$lt":
+					return this.compare(actual, expected, (diff) => diff < 0);
+				case "$lte":
+					return this.compare(actual, expected, (diff) => diff <= 0);
+				case "$in":
+					return Array.isArray(expected) && expected.some((value) => this.valueEquals(actual, value));
+				case "$nin":
+					return Array.isArray(expected) && !expected.some((value) => this.valueEquals(actual, value));
+				case "$exists":
+					return (actual !== undefined && actual !== null) === Boolean(expected);
+				case "$contains":
+					return Array.isArray(actual)
+						? this.valueEquals(actual, expected, true)
+						: typeof actual === "string" && actual.toLowerCase().includes(String(expected).toLowerCase());
+				case "$startsWith":
+					return typeof actual === "string" && actual.toLowerCase().startsWith(String(expected).toLowerCase());
+				case "$endsWith":
+					return typeof actual === "string" && actual.toLowerCase().endsWith(String(expected).toLowerCase());
+				default:
+					console.warn(`Unknown filter operator: ${operator}`);
+					return false;
+			}
+		});
+	}
+
+	/**
+	 * Equality that treats array values as "contains"
+	 */
+	private valueEquals(actual: any, expected: any, ignoreCase = false): boolean {
+		if (Array.isArray(actual)) {
+			return actual.some((item) => this.valueEquals(item, expected, ignoreCase));
+		}
+		if (ignoreCase && typeof actual === "string" && typeof expected === "string") {
+			return actual.toLowerCase() === expected.toLowerCase();
+		}
+		return actual === expected;
+	}
+
+	/**
+	 * Ordered comparison for numbers, dates and strings; false if either side is missing
+	 */
+	private compare(actual: any, expected: any, test: (diff: number) => boolean): boolean {
+		if (actual === undefined || actual === null) return false;
+
+		const toComparable = (value: any): number | string =>
+			typeof value === "number"
+				? value
+				: !isNaN(Number(value)) && value !== ""
+					? Number(value)
+					: !isNaN(Date.parse(value))
+						? Date.parse(value)
+						: String(value);
+		const left = toComparable(actual);
+		const right = toComparable(expected);
+
+		if (typeof left === "number" && typeof right === "number") {
+			return test(left - right);
+		}
+		return test(String(left).localeCompare(String(right)));
+	}
+
 	/**
 	 * Load data from file system
 	 */
 	private async loadData(): Promise<void> {
 		try {
 			// Ensure the data directory exists
-			const dataDir = this.dataPath.substring(0, this.dataPath.lastIndexOf('/'));
-			if (!(await this.app.vault.adapter.exists(dataDir))) {
-				await this.app.vault.adapter.mkdir(dataDir);
+			if (!(await this.app.vault.adapter.exists(this.storeDir))) {
+				await this.app.vault.adapter.mkdir(this.storeDir);
 			}
 
-			// Try to read existing data
-			if (await this.app.vault.adapter.exists(this.dataPath)) {
-				const content = await this.app.vault.adapter.read(this.dataPath);
-				const data = JSON.parse(content);
-				this.vectors = data.vectors || {};
-				this.dimensions = data.dimensions || this.dimensions;
+			if (await this.app.vault.adapter.exists(this.indexPath)) {
+				const loaded = await this.loadShards();
+				if (loaded) {
+					await this.loadGraph(loaded.journal);
+					if (loaded.rewrite) {
+						await this.enqueueWrite(() => this.compactNow());
+					}
+				} else {
+					await this.discardIncompatible();
+				}
+			} else if (await this.app.vault.adapter.exists(this.legacyPath)) {
+				await this.migrateLegacyJson();
 			} else {
-				this.vectors = {};
+				this.resetMemory();
 			}
 		} catch (error) {
 			console.warn("Failed to load vector data, starting with empty store:", error);
-			this.vectors = {};
+			this.resetMemory();
 		}
 	}
 
 	/**
-	 * Save data to file system
+	 * Read the metadata index, replay the journal written since, then read every
+	 * shard still in use. Returns null, without loading, if the vectors came from
+	 * a different embedding model; `rewrite` is set when the files should be
+	 * compacted into the current format.
 	 */
-	private async saveData(): Promise<void> {
-		try {
-			const data = {
-				dimensions: this.dimensions,
-				vectorCount: Object.keys(this.vectors).length,
-				lastUpdated: new Date().toISOString(),
-				vectors: this.vectors,
-			};
+	private async loadShards(): Promise<{ journal: JournalEntry[]; rewrite: boolean } | null> {
+		const index: VectorIndexFile = JSON.parse(
+			await this.app.vault.adapter.read(this.indexPath)
+		);
+		if (index.version !== STORAGE_VERSION && index.version !== 2) {
+			throw new Error(`Unsupported vector storage version: ${index.version}`);
+		}
 
-			await this.app.vault.adapter.write(
-				this.dataPath, 
-				JSON.stringify(data, null, 2)
+		this.generation = index.generation || 0;
+		this.shardCounts = index.shards || [];
+		if (!this.isCompatible(index.dimensions, index.embeddingModel)) {
+			console.log(
+				`Embedding model changed (${index.embeddingModel || "unknown"}/${index.dimensions} -> ${this.embeddingModel || "unknown"}/${this.dimensions}), recreating vector store`
 			);
+			return null;
+		}
+		this.shardSize = index.shardSize || this.shardSize;
+
+		// Version 2 kept the chunk text in the index itself
+		const chunks = await this.readChunkText();
+		const records = new Map<string, { s: number; o: number; m?: Record<string, any> }>();
+		for (const [id, record] of Object.entries(index.records || {})) {
+			records.set(id, { ...record, m: this.joinContent(record.m, chunks[id]) });
+		}
+
+		const { entries, complete } = await this.readJournal();
+		for (const entry of entries) {
+			switch (entry.t) {
+				case "put":
+					records.set(entry.id, { s: entry.s, o: entry.o, m: this.joinContent(entry.m, entry.c) });
+					break;
+				case "move": {
+					const record = records.get(entry.id);
+					if (record) {
+						records.set(entry.id, { ...record, s: entry.s, o: entry.o });
+					}
+					break;
+				}
+				case "del":
+					records.delete(entry.id);
+					break;
+				case "shard":
+					while (this.shardCounts.length < entry.s) {
+						this.shardCounts.push(0);
+					}
+					this.shardCounts[entry.s] = entry.n;
+					break;
+			}
+		}
+		this.journalEntries = entries.length;
+		this.sealedShards = this.shardCounts.length;
+
+		const shards: Float32Array[] = [];
+		for (let shard = 0; shard < this.shardCounts.length; shard++) {
+			if (this.shardCounts[shard] === 0) continue;
+			const buffer = await this.app.vault.adapter.readBinary(this.getShardPath(shard));
+			shards[shard] = new Float32Array(buffer);
+		}
+
+		this.vectors = {};
+		this.slots = {};
+		this.shardMembers = this.shardCounts.map(() => []);
+		for (const [id, record] of records) {
+			const data = shards[record.s];
+			const start = record.o * this.dimensions;
+			if (!data || start + this.dimensions > data.length) {
+				console.warn(`Vector ${id} points outside shard ${record.s}, skipping`);
+				continue;
+			}
+
+			this.slots[id] = { shard: record.s, offset: record.o };
+			this.shardMembers[record.s][record.o] = id;
+			this.vectors[id] = {
+				id,
+				vector: Array.from(data.subarray(start, start + this.dimensions)),
+				metadata: record.m,
+			};
+			this.lexical.add(id, this.lexicalText(record.m));
+		}
+		return { journal: entries, rewrite: index.version !== STORAGE_VERSION || !complete };
+	}
+
+	/**
+	 * Chunk text saved with the index, keyed by record id
+	 */
+	private async readChunkText(): Promise<Record<string, string>> {
+		if (!(await this.app.vault.adapter.exists(this.chunksPath))) {
+			return {};
+		}
+
+		const file: ChunkTextFile = JSON.parse(await this.app.vault.adapter.read(this.chunksPath));
+		if (file.generation !== this.generation) {
+			console.warn("Chunk text file does not match the vector index, ignoring it");
+			return {};
+		}
+		return file.chunks || {};
+	}
+
+	/**
+	 * Journal entries of the current generation. A line cut short by an
+	 * interrupted write is skipped, and `complete` is false so it gets rewritten.
+	 */
+	private async readJournal(): Promise<{ entries: JournalEntry[]; complete: boolean }> {
+		const path = this.getJournalPath();
+		if (!(await this.app.vault.adapter.exists(path))) {
+			return { entries: [], complete: true };
+		}
+
+		const entries: JournalEntry[] = [];
+		let complete = true;
+		for (const line of (await this.app.vault.adapter.read(path)).split("\n")) {
+			if (!line.trim()) continue;
+			try {
+				entries.push(JSON.parse(line));
+			} catch {
+				complete = false;
+			}
+		}
+		if (!complete) {
+			console.warn("Vector journal has a damaged line, compacting");
+		}
+		return { entries, complete };
+	}
+
+	/**
+	 * Whether stored vectors can be queried with the configured embedding model
+	 */
+	private isCompatible(dimensions: number, embeddingModel?: string): boolean {
+		if (dimensions && dimensions !== this.dimensions) return false;
+		return !this.embeddingModel || !embeddingModel || embeddingModel === this.embeddingModel;
+	}
+
+	/**
+	 * Delete vectors written by another embedding model and start empty
+	 */
+	private async discardIncompatible(): Promise<void> {
+		const shardCounts = this.shardCounts;
+		this.resetMemory();
+		// Kept so compaction removes the old shard files
+		this.shardCounts = shardCounts;
+		await this.compactNow();
+	}
+
+	/**
+	 * Restore the HNSW graph and catch it up with the journal entries written after
+	 * it was saved, rebuilding it when missing or from another generation
+	 */
+	private async loadGraph(journal: JournalEntry[]): Promise<void> {
+		const ids = Object.keys(this.vectors);
+		try {
+			if (await this.app.vault.adapter.exists(this.graphPath)) {
+				const data: VectorGraphFile = JSON.parse(
+					await this.app.vault.adapter.read(this.graphPath)
+				);
+				if ((data.generation || 0) === this.generation && this.hnsw.load(data)) {
+					const changed = new Set(
+						journal.slice(data.journalEntries || 0).flatMap((entry) => (entry.t === "put" ? [entry.id] : []))
+					);
+					const stale = ids.filter((id) => changed.has(id) || !this.hnsw.has(id));
+					for (const id of stale) {
+						this.hnsw.add(id);
+					}
+					if (stale.length > 0 || this.hnsw.size() !== ids.length) {
+						this.scheduleGraphWrite();
+					}
+					return;
+				}
+			}
 		} catch (error) {
+			console.warn("Failed to load HNSW graph, rebuilding:", error);
+		}
+
+		console.log(`Building HNSW graph for ${ids.length} vectors...`);
+		this.hnsw.clear();
+		for (const id of ids) {
+			this.hnsw.add(id);
+		}
+		await this.enqueueWrite(() => this.writeGraph());
+	}
+
+	/**
+	 * One-time migration from the single JSON file used before binary shards
+	 */
+	private async migrateLegacyJson(): Promise<void> {
+		console.log(`Migrating vector store from ${this.legacyPath} to binary shards...`);
+
+		const content = await this.app.vault.adapter.read(this.legacyPath);
+		const data = JSON.parse(content);
+		this.resetMemory();
+
+		for (const vector of Object.values<VectorData>(data.vectors || {})) {
+			if (!vector?.vector || vector.vector.length !== this.dimensions) {
+				console.warn(`Skipping vector ${vector?.id} with unexpected dimensions during migration`);
+				continue;
+			}
+			this.vectors[vector.id] = vector;
+			this.hnsw.add(vector.id);
+			this.lexical.add(vector.id, this.lexicalText(vector.metadata));
+		}
+
+		await this.compactNow();
+		await this.app.vault.adapter.remove(this.legacyPath);
+
+		console.log(`Migrated ${Object.keys(this.vectors).length} vectors to binary shards`);
+	}
+
+	/**
+	 * Write the pending changes, merging small trailing shards once they pile up
+	 * and compacting instead when too many slots are tombstones or the journal
+	 * has grown too long. The graph is saved later, once writes go idle.
+	 */
+	private async persist(): Promise<void> {
+		await this.enqueueWrite(async () => {
+			if (this.shouldCompact()) {
+				await this.compactNow();
+				return;
+			}
+
+			await this.flushJournal();
+			if (this.getOpenSegments().length > MAX_OPEN_SEGMENTS) {
+				await this.mergeSegments();
+			}
+		});
+		this.scheduleGraphWrite();
+	}
+
+	/**
+	 * Serialize writes so concurrent upserts never interleave file writes
+	 */
+	private enqueueWrite(operation: () => Promise<void>): Promise<void> {
+		const run = this.writeQueue.then(operation);
+		this.writeQueue = run.catch((error) => {
 			console.error("Failed to save vector data:", error);
-			throw error;
+		});
+		return run;
+	}
+
+	/**
+	 * Save the graph once no write has happened for a while. It can always be
+	 * rebuilt from the shards, so it is not worth rewriting on every change.
+	 */
+	private scheduleGraphWrite(): void {
+		if (this.graphTimer) {
+			clearTimeout(this.graphTimer);
+		}
+		this.graphTimer = setTimeout(() => {
+			this.graphTimer = null;
+			this.enqueueWrite(() => this.writeGraph()).catch(() => {
+				// Logged by enqueueWrite; the next change schedules another save
+			});
+		}, GRAPH_WRITE_DELAY);
+	}
+
+	private shouldCompact(): boolean {
+		const totalSlots = this.shardCounts.reduce((sum, count) => sum + count, 0);
+		const liveSlots = Object.keys(this.slots).length;
+		const deadSlots = totalSlots - liveSlots;
+		return (
+			(deadSlots >= Math.min(this.shardSize, 64) &&
+				deadSlots / Math.max(totalSlots, 1) > this.compactionThreshold) ||
+			this.journalEntries + this.pending.length > Math.max(this.shardSize, 2 * liveSlots)
+		);
+	}
+
+	/**
+	 * Write the shards opened since the last flush, then append the pending
+	 * changes to the journal, so no journal line points at vectors not on disk
+	 */
+	private async flushJournal(): Promise<void> {
+		const pending = this.pending;
+		const firstShard = this.sealedShards;
+		const lastShard = this.shardCounts.length;
+		this.pending = [];
+		this.sealedShards = lastShard;
+
+		const lines: JournalEntry[] = [];
+		for (let shard = firstShard; shard < lastShard; shard++) {
+			await this.writeShard(shard);
+			lines.push({ t: "shard", s: shard, n: this.shardCounts[shard] });
+		}
+		for (const entry of pending) {
+			if (entry.t !== "put") {
+				lines.push(entry);
+				continue;
+			}
+			// Puts replaced or deleted before reaching disk are left out
+			if (!this.isInSlot(entry.id, entry.s, entry.o)) continue;
+			const { metadata, content } = this.splitContent(this.vectors[entry.id].metadata);
+			lines.push({ ...entry, m: metadata, c: content });
+		}
+
+		await this.appendJournal(lines);
+	}
+
+	private async appendJournal(lines: JournalEntry[]): Promise<void> {
+		if (lines.length === 0) return;
+
+		const text = lines.map((line) => JSON.stringify(line)).join("\n") + "\n";
+		const path = this.getJournalPath();
+		if (this.journalEntries === 0) {
+			await this.app.vault.adapter.write(path, text);
+		} else {
+			await this.app.vault.adapter.append(path, text);
+		}
+		this.journalEntries += lines.length;
+	}
+
+	/**
+	 * Shards at the end of the store that are not full yet, oldest first
+	 */
+	private getOpenSegments(): number[] {
+		const segments: number[] = [];
+		for (let shard = this.sealedShards - 1; shard >= 0; shard--) {
+			const count = this.shardCounts[shard];
+			if (count >= this.shardSize) break;
+			if (count > 0) {
+				segments.unshift(shard);
+			}
 		}
+		return segments;
+	}
+
+	/**
+	 * Move the live vectors of the open segments into as few new shards as they
+	 * fit in and drop the segments, so a stream of small upserts doesn't leave a
+	 * file behind for each one
+	 */
+	private async mergeSegments(): Promise<void> {
+		const segments = this.getOpenSegments();
+		const ids = segments.flatMap((shard) =>
+			this.shardMembers[shard].filter((id, offset) => this.isInSlot(id, shard, offset))
+		);
+
+		const firstShard = this.shardCounts.length;
+		const moves: JournalEntry[] = ids.map((id) => {
+			const slot = this.allocateSlot(id);
+			this.slots[id] = slot;
+			return { t: "move", id, s: slot.shard, o: slot.offset };
+		});
+		const lastShard = this.shardCounts.length;
+		this.sealedShards = lastShard;
+		for (const shard of segments) {
+			this.shardCounts[shard] = 0;
+			this.shardMembers[shard] = [];
+		}
+
+		const lines: JournalEntry[] = [];
+		for (let shard = firstShard; shard < lastShard; shard++) {
+			await this.writeShard(shard);
+			lines.push({ t: "shard", s: shard, n: this.shardCounts[shard] });
+		}
+		lines.push(...moves, ...segments.map((shard): JournalEntry => ({ t: "shard", s: shard, n: 0 })));
+		await this.appendJournal(lines);
+
+		for (const shard of segments) {
+			await this.removeFile(this.getShardPath(shard));
+		}
+	}
+
+	/**
+	 * Rewrite the store densely as a new generation: shards without dead slots,
+	 * a fresh index, chunk text and graph, and an empty journal. The previous
+	 * generation's files are removed only once the new one is complete.
+	 */
+	private async compactNow(): Promise<void> {
+		const previousGeneration = this.generation;
+		const previousShardCount = this.shardCounts.length;
+		const ids = Object.keys(this.vectors);
+
+		this.generation++;
+		this.slots = {};
+		this.shardCounts = [];
+		this.shardMembers = [];
+		this.sealedShards = 0;
+		this.pending = [];
+		this.journalEntries = 0;
+		for (const id of ids) {
+			this.slots[id] = this.allocateSlot(id);
+		}
+		// Upserts made while this runs go to later shards and the new journal
+		const shardCount = this.shardCounts.length;
+		this.sealedShards = shardCount;
+
+		for (let shard = 0; shard < shardCount; shard++) {
+			await this.writeShard(shard);
+		}
+		await this.writeSnapshot(shardCount);
+		await this.writeGraph();
+
+		await this.removeShards(0, previousShardCount, previousGeneration);
+		await this.removeFile(this.getJournalPath(previousGeneration));
+
+		console.log(`Vector store compacted: ${ids.length} vectors in ${shardCount} shards`);
+	}
+
+	/**
+	 * Reserve the next free slot for an id, opening a new shard when the last one
+	 * is full or already on disk
+	 */
+	private allocateSlot(id: string): VectorSlot {
+		let shard = this.shardCounts.length - 1;
+		if (shard < this.sealedShards || this.shardCounts[shard] >= this.shardSize) {
+			this.shardCounts.push(0);
+			this.shardMembers.push([]);
+			shard = this.shardCounts.length - 1;
+		}
+
+		const offset = this.shardCounts[shard];
+		this.shardCounts[shard]++;
+		this.shardMembers[shard][offset] = id;
+		return { shard, offset };
+	}
+
+	private isInSlot(id: string, shard: number, offset: number): boolean {
+		const slot = this.slots[id];
+		return slot !== undefined && slot.shard === shard && slot.offset === offset;
+	}
+
+	/**
+	 * Write one shard from the live vectors it holds; tombstoned slots are zeroed
+	 */
+	private async writeShard(shard: number): Promise<void> {
+		const data = new Float32Array(this.shardCounts[shard] * this.dimensions);
+		this.shardMembers[shard].forEach((id, offset) => {
+			if (this.isInSlot(id, shard, offset)) {
+				data.set(this.vectors[id].vector, offset * this.dimensions);
+			}
+		});
+
+		await this.app.vault.adapter.writeBinary(this.getShardPath(shard), data.buffer);
+	}
+
+	/**
+	 * Write the chunk text file and the index for the records in the first
+	 * `shardCount` shards; records in later shards reach the journal instead
+	 */
+	private async writeSnapshot(shardCount: number): Promise<void> {
+		const records: VectorIndexFile["records"] = {};
+		const chunks: ChunkTextFile["chunks"] = {};
+		for (const [id, slot] of Object.entries(this.slots)) {
+			if (slot.shard >= shardCount) continue;
+			const { metadata, content } = this.splitContent(this.vectors[id].metadata);
+			records[id] = { s: slot.shard, o: slot.offset, m: metadata };
+			if (content !== undefined) {
+				chunks[id] = content;
+			}
+		}
+
+		const chunkFile: ChunkTextFile = { generation: this.generation, chunks };
+		await this.app.vault.adapter.write(this.chunksPath, JSON.stringify(chunkFile));
+
+		const shards = this.shardCounts.slice(0, shardCount);
+		const vectorCount = Object.keys(records).length;
+		const index: VectorIndexFile = {
+			version: STORAGE_VERSION,
+			dimensions: this.dimensions,
+			embeddingModel: this.embeddingModel,
+			shardSize: this.shardSize,
+			shards,
+			deadSlots: shards.reduce((sum, count) => sum + count, 0) - vectorCount,
+			vectorCount,
+			generation: this.generation,
+			lastUpdated: new Date().toISOString(),
+			records,
+		};
+		await this.app.vault.adapter.write(this.indexPath, JSON.stringify(index));
+	}
+
+	private async writeGraph(): Promise<void> {
+		const graph: VectorGraphFile = {
+			...this.hnsw.serialize(),
+			generation: this.generation,
+			journalEntries: this.journalEntries,
+		};
+		await this.app.vault.adapter.write(this.graphPath, JSON.stringify(graph));
+	}
+
+	/**
+	 * Split a chunk's text from the rest of its metadata
+	 */
+	private splitContent(metadata?: Record<string, any>): { metadata?: Record<string, any>; content?: string } {
+		if (typeof metadata?.content !== "string") {
+			return { metadata };
+		}
+		const { content, ...rest } = metadata;
+		return { metadata: rest, content };
+	}
+
+	private joinContent(metadata?: Record<string, any>, content?: string): Record<string, any> | undefined {
+		return content === undefined ? metadata : { ...metadata, content };
+	}
+
+	/**
+	 * Delete shard files from `from` (inclusive) up to `to` (exclusive)
+	 */
+	private async removeShards(from: number, to: number, generation = this.generation): Promise<void> {
+		for (let shard = from; shard < to; shard++) {
+			await this.removeFile(this.getShardPath(shard, generation));
+		}
+	}
+
+	private async removeFile(path: string): Promise<void> {
+		if (await this.app.vault.adapter.exists(path)) {
+			await this.app.vault.adapter.remove(path);
+		}
+	}
+
+	private getShardPath(shard: number, generation = this.generation): string {
+		const index = String(shard).padStart(4, '0');
+		// Version 2 stores had no generations
+		return generation > 0
+			? `${this.storeDir}/shard-${generation}-${index}.bin`
+			: `${this.storeDir}/shard-${index}.bin`;
+	}
+
+	private getJournalPath(generation = this.generation): string {
+		return `${this.storeDir}/journal-${generation}.jsonl`;
+	}
+
+	private resetMemory(): void {
+		this.vectors = {};
+		this.slots = {};
+		this.shardCounts = [];
+		this.shardMembers = [];
+		this.sealedShards = 0;
+		this.pending = [];
+		this.journalEntries = 0;
+		this.hnsw.clear();
+		this.lexical.clear();
 	}
 
 	/**
 	 * Close/cleanup the vector store
 	 */
 	async close(): Promise<void> {
-		// Ensure final save
+		// Writes are persisted as they happen; save a graph still waiting for
+		// idle time and wait for any write in flight
 		if (this.initialized) {
-			await this.saveData();
+			if (this.graphTimer) {
+				clearTimeout(this.graphTimer);
+				this.graphTimer = null;
+				await this.enqueueWrite(() => this.writeGraph());
+			}
+			await this.writeQueue;
 		}
 		this.initialized = false;
 	}
@@ -303,13 +1137,21 @@ export class ObsidianVectorStore {
 	getStats(): { 
 		totalVectors: number; 
 		dimensions: number;
+		embeddingModel?: string;
 		filePath: string;
+		shardCount: number;
+		deadSlots: number;
+		graphNodes: number;
 		initialized: boolean;
 	} {
 		return {
 			totalVectors: Object.keys(this.vectors).length,
 			dimensions: this.dimensions,
-			filePath: this.dataPath,
+			embeddingModel: this.embeddingModel,
+			filePath: this.storeDir,
+			shardCount: this.shardCounts.filter((count) => count > 0).length,
+			deadSlots: this.shardCounts.reduce((sum, count) => sum + count, 0) - Object.keys(this.slots).length,
+			graphNodes: this.hnsw.size(),
 			initialized: this.initialized,
 		};
 	}
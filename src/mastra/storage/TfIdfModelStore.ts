@@ -0,0 +1,62 @@
+import { App } from "obsidian";
+import type { TfIdfModelData } from "../embeddings/TfIdfEmbeddingManager";
+
+export interface TfIdfModelStoreConfig {
+	dataDir: string;
+	fileName?: string;
+}
+
+/**
+ * Persists the TF-IDF vocabulary and document frequencies next to the vector
+ * store, so offline vectors stay in the same space across sessions
+ */
+export class TfIdfModelStore {
+	private app: App;
+	private dataPath: string;
+
+	constructor(app: App, config: TfIdfModelStoreConfig) {
+		this.app = app;
+		this.dataPath = `${config.dataDir}/${config.fileName || "tfidf-model.json"}`;
+	}
+
+	/**
+	 * Load the persisted model, or null if there is none
+	 */
+	async load(): Promise<TfIdfModelData | null> {
+		try {
+			if (!(await this.app.vault.adapter.exists(this.dataPath))) {
+				return null;
+			}
+			const content = await this.app.vault.adapter.read(this.dataPath);
+			return JSON.parse(content) as TfIdfModelData;
+		} catch (error) {
+			console.warn("Failed to load TF-IDF model, it will be rebuilt:", error);
+			return null;
+		}
+	}
+
+	/**
+	 * Persist a model
+	 */
+	async save(model: TfIdfModelData): Promise<void> {
+		try {
+			const dataDir = this.dataPath.substring(0, this.dataPath.lastIndexOf("/"));
+			if (!(await this.app.vault.adapter.exists(dataDir))) {
+				await this.app.vault.adapter.mkdir(dataDir);
+			}
+			await this.app.vault.adapter.write(this.dataPath, JSON.stringify(model));
+		} catch (error) {
+			console.error("Failed to save TF-IDF model:", error);
+			throw error;
+		}
+	}
+
+	/**
+	 * Delete the persisted model so the next start rebuilds it from the vault
+	 */
+	async clear(): Promise<void> {
+		if (await this.app.vault.adapter.exists(this.dataPath)) {
+			await this.app.vault.adapter.remove(this.dataPath);
+		}
+	}
+}
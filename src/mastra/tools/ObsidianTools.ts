@@ -3,6 +3,12 @@ import { App, TFile } from "obsidian";
 import { MastraVectorStore } from "../agents/vectorstore/MastraVectorStore";
 import { MastraMemoryManager } from "../memory/MastraMemoryManager";
 import { SafetyManager } from "../safety/SafetyManager";
+import { ChangeJournal } from "../safety/ChangeJournal";
+import type { ApprovalResult, FileChange } from "../agents/types";
+import type { Citation } from "../../types";
+import type { RequestContext } from "../RequestContext";
+
+const SNIPPET_LENGTH = 280;
 
 /**
  * Implementation class for Obsidian tools
@@ -12,29 +18,107 @@ export class ObsidianToolsImplementation {
 		private app: App,
 		private vectorStore: MastraVectorStore,
 		private memoryManager: MastraMemoryManager,
-		private safetyManager: SafetyManager
+		private safetyManager: SafetyManager,
+		private changeJournal: ChangeJournal
 	) {}
 
 	/**
-	 * Execute search vault tool
+	 * Get the safety manager that approves file operations
+	 */
+	getSafetyManager(): SafetyManager {
+		return this.safetyManager;
+	}
+
+	/**
+	 * Get the memory manager that stores conversations and execution plans
+	 */
+	getMemoryManager(): MastraMemoryManager {
+		return this.memoryManager;
+	}
+
+	/**
+	 * Get the journal that records file contents before each change
+	 */
+	getChangeJournal(): ChangeJournal {
+		return this.changeJournal;
+	}
+
+	/**
+	 * Assess the changes and, when the risk calls for it, wait for the user
+	 * to approve them in the chat
+	 */
+	private async checkApproval(changes: FileChange[]): Promise<ApprovalResult> {
+		const assessment = await this.safetyManager.assessRisk(changes);
+		if (assessment.blocked) {
+			return { approved: false, reason: assessment.reasoning };
+		}
+		if (!assessment.requiresApproval) {
+			return { approved: true, reason: assessment.reasoning };
+		}
+		return await this.safetyManager.requestApproval(changes, assessment);
+	}
+
+	/**
+	 * Citation number for a search result among the request's citations, so
+	 * the answer can cite it as [1], [2], ...; the same chunk keeps its number
+	 */
+	private cite(citation: Omit<Citation, "index">, request?: RequestContext): number | undefined {
+		const citations = request?.citations;
+		if (!citations) return undefined;
+
+		const existing = citations.find(
+			(c) => c.path === citation.path && c.startLine === citation.startLine
+		);
+		if (existing) {
+			existing.score = Math.max(existing.score, citation.score);
+			return existing.index;
+		}
+		const index = citations.length + 1;
+		citations.push({ ...citation, index });
+		return index;
+	}
+
+	/**
+	 * Execute search vault tool, restricted by the request's metadata filter
 	 */
-	async executeSearchVault(params: any) {
+	async executeSearchVault(params: any, request?: RequestContext) {
 		try {
 			const results = await this.vectorStore.searchVectorStore(
 				params.query,
 				{
 					k: params.limit,
+					mode: params.mode,
+					rerank: params.rerank ?? true,
+					filter: request?.searchFilter,
 				}
 			);
 
 			return {
-				results: results.map((result) => ({
-					title: result.metadata.title || result.id,
-					path: result.metadata.path || result.id,
-					content: params.includeContent ? result.content : "",
-					score: result.score || 0,
-					metadata: result.metadata,
-				})),
+				results: results.map((result) => {
+					const path = result.metadata.filePath || result.metadata.path || result.id;
+					const citation = this.cite({
+						path,
+						heading: result.metadata.headingPath || "",
+						startLine: result.metadata.startLine,
+						endLine: result.metadata.endLine,
+						score: result.score || 0,
+						snippet: (result.content || "").replace(/\s+/g, " ").trim().slice(0, SNIPPET_LENGTH),
+					}, request);
+
+					return {
+						citation: citation ? `[${citation}]` : undefined,
+						title: result.metadata.title || result.metadata.fileName || result.id,
+						path,
+						section: result.metadata.headingPath || "",
+						lines: result.metadata.startLine
+							? `${result.metadata.startLine}-${result.metadata.endLine}`
+							: "",
+						content: params.includeContent ? result.content : "",
+						score: result.score || 0,
+						scores: result.scores,
+						metadata: result.metadata,
+					};
+				}),
 				totalResults: results.length,
 			};
 		} catch (error) {
@@ -71,13 +155,10 @@ export class ObsidianToolsImplementation {
 	}
 
 	/**
-	 * Execute create note tool
+	 * Execute create note tool, journaling the change under the request's run
 	 */
-	async executeCreateNote(params: any) {
+	async executeCreateNote(params: any, request?: RequestContext) {
 		try {
-			// Simple safety validation for create operation
-			// In a real implementation, you would use the SafetyManager here
-
 			const existingFile = this.app.vault.getAbstractFileByPath(
 				params.path
 			);
@@ -90,6 +171,33 @@ export class ObsidianToolsImplementation {
 				};
 			}
 
+			const oldContent =
+				existingFile instanceof TFile
+					? await this.app.vault.read(existingFile)
+					: undefined;
+			const approval = await this.checkApproval([
+				{
+					filePath: params.path,
+					changeType: "create",
+					oldContent,
+					newContent: params.content,
+				},
+			]);
+			if (!approval.approved) {
+				return {
+					success: false,
+					path: params.path,
+					message: `Note not created: ${approval.reason || "not approved"}`,
+				};
+			}
+
+			await this.changeJournal.record({
+				filePath: params.path,
+				changeType: "create",
+				previousContent: oldContent ?? null,
+				newContent: params.content,
+			}, request?.journalRun);
+
 			if (existingFile && params.overwrite) {
 				await this.app.vault.modify(
 					existingFile as TFile,
@@ -114,9 +222,9 @@ export class ObsidianToolsImplementation {
 	}
 
 	/**
-	 * Execute update note tool
+	 * Execute update note tool, journaling the change under the request's run
 	 */
-	async executeUpdateNote(params: any) {
+	async executeUpdateNote(params: any, request?: RequestContext) {
 		try {
 			const file = this.app.vault.getAbstractFileByPath(params.path);
 
@@ -140,10 +248,34 @@ export class ObsidianToolsImplementation {
 				case "prepend":
 					newContent = params.content + "\n" + oldContent;
 					break;
+				default:
+					return {
+						success: false,
+						message: `Unknown update mode: ${params.mode}`,
+					};
+			}
+
+			const approval = await this.checkApproval([
+				{
+					filePath: file.path,
+					changeType: "modify",
+					oldContent,
+					newContent,
+				},
+			]);
+			if (!approval.approved) {
+				return {
+					success: false,
+					message: `Note not updated: ${approval.reason || "not approved"}`,
+				};
 			}
 
-			// Simple safety validation for modify operation
-			// In a real implementation, you would use the SafetyManager here
+			await this.changeJournal.record({
+				filePath: file.path,
+				changeType: "modify",
+				previousContent: oldContent,
+				newContent,
+			}, request?.journalRun);
 
 			await this.app.vault.modify(file, newContent);
 
@@ -332,7 +464,7 @@ export class ObsidianToolsImplementation {
 						result: "Data stored successfully",
 					};
 
-				case "retrieve":
+				case "retrieve": {
 					const history =
 						await this.memoryManager.getConversationHistory(
 							params.conversationId
@@ -342,8 +474,9 @@ export class ObsidianToolsImplementation {
 						result: JSON.stringify(history),
 						metadata: { messageCount: history.length },
 					};
+				}
 
-				case "summarize":
+				case "summarize": {
 					const conversation =
 						await this.memoryManager.getConversationHistory(
 							params.conversationId
@@ -356,6 +489,7 @@ export class ObsidianToolsImplementation {
 						result: summary,
 						metadata: { messageCount: conversation.length },
 					};
+				}
 
 				default:
 					throw new Error(
@@ -0,0 +1,48 @@
+// Model price table for estimating what the agents' requests cost
+
+export interface ModelPrice {
+	input: number; // USD per million input tokens
+	output: number; // USD per million output tokens
+}
+
+// OpenAI list prices. Keys match by prefix, so dated versions like
+// "gpt-4o-2024-08-06" are priced like their model; the longest key wins.
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+	"gpt-4o": { input: 2.5, output: 10 },
+	"gpt-4o-mini": { input: 0.15, output: 0.6 },
+	"gpt-4.1": { input: 2, output: 8 },
+	"gpt-4.1-mini": { input: 0.4, output: 1.6 },
+	"gpt-4.1-nano": { input: 0.1, output: 0.4 },
+	"gpt-4-turbo": { input: 10, output: 30 },
+	"gpt-3.5-turbo": { input: 0.5, output: 1.5 },
+	"o3-mini": { input: 1.1, output: 4.4 },
+	"o4-mini": { input: 1.1, output: 4.4 },
+};
+
+// Models missing from the table are priced like gpt-4o, so budgets err on the safe side
+const DEFAULT_PRICE: ModelPrice = MODEL_PRICES["gpt-4o"];
+
+/**
+ * Price of a model, by the longest key of the table it starts with
+ */
+export function getModelPrice(model: string): ModelPrice {
+	const key = Object.keys(MODEL_PRICES)
+		.filter((name) => model === name || model.startsWith(`${name}-`))
+		.sort((a, b) => b.length - a.length)[0];
+	return key ? MODEL_PRICES[key] : DEFAULT_PRICE;
+}
+
+/**
+ * Estimated cost of a model call in USD
+ */
+export function estimateCost(model: string, inputTokens: number, outputTokens: number): number {
+	const price = getModelPrice(model);
+	return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
+
+/**
+ * Dollar amount with enough decimals to show small spends, e.g. "$0.0042"
+ */
+export function formatCost(usd: number): string {
+	return `$${usd.toFixed(usd > 0 && usd < 0.01 ? 4 : 2)}`;
+}
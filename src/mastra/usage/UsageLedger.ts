@@ -0,0 +1,250 @@
+import { App } from "obsidian";
+import type { UsageBudgets } from "../../types";
+import { estimateCost, formatCost } from "./ModelPrices";
+import type { RequestContext } from "../RequestContext";
+
+export interface UsageLedgerConfig {
+	dataDir: string;
+	fileName?: string;
+	budgets?: UsageBudgets;
+}
+
+/**
+ * Tokens one model call used
+ */
+export interface ModelUsage {
+	agentId: string;
+	model: string;
+	inputTokens: number;
+	outputTokens: number;
+}
+
+export interface UsageTotals {
+	calls: number;
+	inputTokens: number;
+	outputTokens: number;
+	totalTokens: number;
+	cost: number; // Estimated USD
+}
+
+/**
+ * Usage of one agent and model in one conversation on one day
+ */
+export interface UsageEntry extends UsageTotals {
+	day: string; // Local date, YYYY-MM-DD
+	conversationId: string;
+	agentId: string;
+	model: string;
+}
+
+export interface UsageSummary {
+	total: UsageTotals;
+	byDay: Array<UsageTotals & { key: string }>; // Most recent first
+	byModel: Array<UsageTotals & { key: string }>; // Highest cost first
+	byAgent: Array<UsageTotals & { key: string }>;
+}
+
+// Entries older than this many days are dropped
+const MAX_DAYS = 90;
+
+export const emptyTotals = (): UsageTotals => ({ calls: 0, inputTokens: 0, outputTokens: 0, totalTokens: 0, cost: 0 });
+
+function addTotals(totals: UsageTotals, usage: UsageTotals): void {
+	totals.calls += usage.calls;
+	totals.inputTokens += usage.inputTokens;
+	totals.outputTokens += usage.outputTokens;
+	totals.totalTokens += usage.totalTokens;
+	totals.cost += usage.cost;
+}
+
+function localDay(date: Date): string {
+	const pad = (value: number) => String(value).padStart(2, "0");
+	return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Ledger of the tokens and estimated cost of every model call the agents
+ * make, totalled per day, conversation, agent and model, and the budgets
+ * checked against it before and during each request
+ */
+export class UsageLedger {
+	private app: App;
+	private dataPath: string;
+	private entries: UsageEntry[] = [];
+	private budgets: UsageBudgets | undefined;
+	private initialized = false;
+
+	constructor(app: App, config: UsageLedgerConfig) {
+		this.app = app;
+		this.dataPath = `${config.dataDir}/${config.fileName || "usage-ledger.json"}`;
+		this.budgets = config.budgets;
+	}
+
+	/**
+	 * Initialize the ledger
+	 */
+	async initialize(): Promise<void> {
+		if (this.initialized) return;
+
+		await this.loadData();
+		this.initialized = true;
+	}
+
+	/**
+	 * Apply new budgets without re-initializing
+	 */
+	setBudgets(budgets: UsageBudgets): void {
+		this.budgets = budgets;
+	}
+
+	/**
+	 * Record a model call under the request it was made for, counting it
+	 * towards the request's usage. A failed save is logged; it never fails
+	 * the call.
+	 */
+	async record(usage: ModelUsage, request?: RequestContext): Promise<void> {
+		const totals: UsageTotals = {
+			calls: 1,
+			inputTokens: usage.inputTokens,
+			outputTokens: usage.outputTokens,
+			totalTokens: usage.inputTokens + usage.outputTokens,
+			cost: estimateCost(usage.model, usage.inputTokens, usage.outputTokens),
+		};
+		if (request?.usage) {
+			addTotals(request.usage, totals);
+		}
+
+		const day = localDay(new Date());
+		const conversationId = request?.conversationId || "";
+		let entry = this.entries.find(
+			(e) =>
+				e.day === day &&
+				e.conversationId === conversationId &&
+				e.agentId === usage.agentId &&
+				e.model === usage.model
+		);
+		if (!entry) {
+			entry = { day, conversationId, agentId: usage.agentId, model: usage.model, ...emptyTotals() };
+			this.entries.push(entry);
+		}
+		addTotals(entry, totals);
+
+		try {
+			await this.save();
+		} catch {
+			// Logged by save; the usage stays counted in memory
+		}
+	}
+
+	/**
+	 * The budget the request, its conversation or today has used up,
+	 * described for the user, or null while all are within their limits
+	 */
+	checkBudget(request?: RequestContext): string | null {
+		const budgets = this.budgets;
+		if (!budgets) return null;
+
+		const today = localDay(new Date());
+		const conversationId = request?.conversationId;
+		const checks: Array<[string, UsageTotals | null, number, number]> = [
+			["request", request?.usage || null, budgets.requestTokens, budgets.requestCost],
+			[
+				"conversation",
+				conversationId ? this.getTotals((entry) => entry.conversationId === conversationId) : null,
+				budgets.conversationTokens,
+				budgets.conversationCost,
+			],
+			["daily", this.getTotals((entry) => entry.day === today), budgets.dailyTokens, budgets.dailyCost],
+		];
+
+		for (const [scope, totals, maxTokens, maxCost] of checks) {
+			if (!totals) continue;
+			if (maxTokens > 0 && totals.totalTokens >= maxTokens) {
+				return `the ${scope} budget of ${maxTokens.toLocaleString()} tokens is used up (${totals.totalTokens.toLocaleString()} used)`;
+			}
+			if (maxCost > 0 && totals.cost >= maxCost) {
+				return `the ${scope} budget of ${formatCost(maxCost)} is used up (${formatCost(totals.cost)} spent)`;
+			}
+		}
+		return null;
+	}
+
+	/**
+	 * Usage of the last days, by day, model and agent
+	 */
+	getSummary(days = 30): UsageSummary {
+		const since = new Date();
+		since.setDate(since.getDate() - days + 1);
+		const first = localDay(since);
+		const entries = this.entries.filter((entry) => entry.day >= first);
+
+		const group = (key: (entry: UsageEntry) => string) => {
+			const groups = new Map<string, UsageTotals>();
+			for (const entry of entries) {
+				const name = key(entry);
+				const totals = groups.get(name) || emptyTotals();
+				addTotals(totals, entry);
+				groups.set(name, totals);
+			}
+			return [...groups.entries()].map(([name, totals]) => ({ key: name, ...totals }));
+		};
+
+		const total = emptyTotals();
+		entries.forEach((entry) => addTotals(total, entry));
+		return {
+			total,
+			byDay: group((entry) => entry.day).sort((a, b) => b.key.localeCompare(a.key)),
+			byModel: group((entry) => entry.model).sort((a, b) => b.cost - a.cost),
+			byAgent: group((entry) => entry.agentId).sort((a, b) => b.cost - a.cost),
+		};
+	}
+
+	private getTotals(filter: (entry: UsageEntry) => boolean): UsageTotals {
+		const totals = emptyTotals();
+		this.entries.filter(filter).forEach((entry) => addTotals(totals, entry));
+		return totals;
+	}
+
+	/**
+	 * Persist the ledger, dropping entries past the retention period
+	 */
+	private async save(): Promise<void> {
+		const cutoff = new Date();
+		cutoff.setDate(cutoff.getDate() - MAX_DAYS);
+		const first = localDay(cutoff);
+		this.entries = this.entries.filter((entry) => entry.day >= first);
+
+		try {
+			const data = {
+				lastUpdated: new Date().toISOString(),
+				entries: this.entries,
+			};
+			await this.app.vault.adapter.write(this.dataPath, JSON.stringify(data));
+		} catch (error) {
+			console.error("Failed to save usage ledger:", error);
+			throw error;
+		}
+	}
+
+	/**
+	 * Load the ledger from the file system
+	 */
+	private async loadData(): Promise<void> {
+		try {
+			const dataDir = this.dataPath.substring(0, this.dataPath.lastIndexOf("/"));
+			if (!(await this.app.vault.adapter.exists(dataDir))) {
+				await this.app.vault.adapter.mkdir(dataDir);
+			}
+
+			if (await this.app.vault.adapter.exists(this.dataPath)) {
+				const content = await this.app.vault.adapter.read(this.dataPath);
+				this.entries = JSON.parse(content).entries || [];
+			} else {
+				this.entries = [];
+			}
+		} catch (error) {
+			console.warn("Failed to load usage ledger, starting fresh:", error);
+			this.entries = [];
+		}
+	}
+}
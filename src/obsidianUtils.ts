@@ -1,19 +1,18 @@
 // src/obsidianUtils.ts
 // Utility functions for interacting with the Obsidian API and preparing documents.
 
-import { App, Notice, TFile } from "obsidian";
+import { App, MarkdownView, Notice, TFile } from "obsidian";
 import { Document } from "langchain/document";
-import { RecursiveCharacterTextSplitter } from "langchain/text_splitter";
+import { MarkdownChunker } from "./mastra/indexing/MarkdownChunker";
 // import { DateConditionKey, MetadataCondition, MetadataField } from "./types"; // Import DateConditionKey
 
 /**
- * Initializes a text splitter for chunking documents.
- * @returns An instance of RecursiveCharacterTextSplitter.
+ * Initializes a chunker that splits notes along their Markdown structure.
+ * @returns An instance of MarkdownChunker.
  */
-function getTextSplitter(): RecursiveCharacterTextSplitter {
-    return new RecursiveCharacterTextSplitter({
-        chunkSize: 2000, // Aim for chunks of 2000 characters
-        chunkOverlap: 200, // Overlap chunks by 200 characters to maintain context
+function getTextSplitter(): MarkdownChunker {
+    return new MarkdownChunker({
+        maxChunkSize: 2000, // Aim for chunks of at most 2000 characters
     });
 }
 
@@ -38,25 +37,24 @@ export async function loadVaultDocuments(app: App): Promise<Document[]> {
         try {
             const content = await app.vault.cachedRead(file);
             
-            const preliminaryDoc = new Document({
-                pageContent: content,
-                metadata: {
-                    source: file.path,
-                    fileName: file.name,
-                    basename: file.basename,
-                    createdAt: file.stat.ctime, // Unix timestamp
-                    modifiedAt: file.stat.mtime, // Unix timestamp
-                },
-            });
+            const fileMetadata = {
+                source: file.path,
+                fileName: file.name,
+                basename: file.basename,
+                createdAt: file.stat.ctime, // Unix timestamp
+                modifiedAt: file.stat.mtime, // Unix timestamp
+            };
 
-            const chunks = await splitter.splitDocuments([preliminaryDoc]);
-            
-            chunks.forEach((chunk, index) => {
-                chunk.metadata = {
-                    ...preliminaryDoc.metadata,
+            const chunks = splitter.chunk(content).map((chunk, index) => new Document({
+                pageContent: chunk.content,
+                metadata: {
+                    ...fileMetadata,
                     chunkNumber: index + 1,
-                };
-            });
+                    headingPath: MarkdownChunker.formatHeadingPath(chunk.headingPath),
+                    startLine: chunk.startLine,
+                    endLine: chunk.endLine,
+                },
+            }));
 
             allChunks.push(...chunks);
 
@@ -69,6 +67,36 @@ export async function loadVaultDocuments(app: App): Promise<Document[]> {
     return allChunks;
 }
 
+/**
+ * Opens a note in a new tab scrolled to a line range, with the range selected.
+ * @param app - The Obsidian App instance.
+ * @param path - Vault path of the note.
+ * @param startLine - First line to highlight, 1-based. Omit to open the note at the top.
+ * @param endLine - Last line to highlight, 1-based and inclusive. Defaults to startLine.
+ */
+export async function openNoteAtLines(app: App, path: string, startLine?: number, endLine?: number): Promise<void> {
+    const file = app.vault.getAbstractFileByPath(path);
+    if (!(file instanceof TFile)) {
+        new Notice(`Note not found: ${path}`);
+        return;
+    }
+
+    const leaf = app.workspace.getLeaf("tab");
+    await leaf.openFile(file, { active: true, eState: startLine ? { line: startLine - 1 } : undefined });
+    if (!startLine || !(leaf.view instanceof MarkdownView)) {
+        return;
+    }
+
+    // The note may have changed since it was indexed
+    const editor = leaf.view.editor;
+    const firstLine = Math.min(startLine - 1, editor.lastLine());
+    const lastLine = Math.min(Math.max((endLine ?? startLine) - 1, firstLine), editor.lastLine());
+    const from = { line: firstLine, ch: 0 };
+    const to = { line: lastLine, ch: editor.getLine(lastLine).length };
+    editor.setSelection(from, to);
+    editor.scrollIntoView({ from, to }, true);
+}
+
 // /**
 //  * A Modal class for getting text input from the user. (Used for simple prompt, might be deprecated)
 //  */
@@ -1,18 +1,23 @@
 // src/parser.ts
-import type { MetadataFilter } from "./types";
-import { findFilterByEmoji } from "./filters"; // Assuming filters.ts
+import type { MetadataFilter, MetadataFilterExpression } from "./types";
+import { findFilterByEmoji, parseFrontmatterValue } from "./filters"; // Assuming filters.ts
 
 
 /**
  * Parses metadata filter emojis and [[filename]] syntax from the prompt text.
+ * Filter values follow their filter type, e.g. ➕{last 7 days}, 📝{before 2024-03},
+ * 🏷️{meeting}, 📁{Work/Projects}, 🧾{status=done}, 🔗{Roadmap}, 📎{Index}, 📄{md}.
+ * Filters combine with AND, OR, NOT (upper case) and parentheses, e.g.
+ * (🏷️{meeting} OR 🏷️{standup}) 📁{Work} NOT 📝{this month}; adjacent filters are ANDed.
  *
  * @param promptText The raw text from the input area.
- * @returns An object containing the semanticQuery (text without emoji filters removed, but keeping [[filename]])
- * and an array of MetadataFilters.
+ * @returns An object containing the semanticQuery (text without emoji filters removed, but keeping [[filename]]),
+ * an array of all MetadataFilters, and the boolean expression combining them.
  */
 export function parseFiltersFromPrompt(promptText: string): {
     semanticQuery: string;
     metadataFilters: MetadataFilter[];
+    filterExpression?: MetadataFilterExpression;
 } {
     const metadataFilterMap: Record<string, MetadataFilter> = {};
 
@@ -23,30 +28,22 @@ export function parseFiltersFromPrompt(promptText: string): {
         const emoji = match[1]; // The captured emoji
         const value = match[2]; // The captured content within {}
 
-		// Find the filter signature that matches this emoji
-		const filterSignature = findFilterByEmoji(emoji);
-		if (filterSignature) {
-			// Create a unique key for the filter (emoji + field)
-			const filterKey = `${emoji}_${filterSignature.field}`;
-			
-			// Create a new metadata filter based on the filter signature
-			const metadataFilter: MetadataFilter = {
-				field: filterSignature.field,
-				condition: filterSignature.condition,
-				value: value.trim(),
-			};
+		const metadataFilter = createMetadataFilter(emoji, value);
+		if (metadataFilter) {
+			// Create a unique key for the filter (field + value); repeating a
+			// filter type, e.g. two tags, requires both
+			const filterKey = `${metadataFilter.field}_${value.trim().toLowerCase()}`;
 			metadataFilterMap[filterKey] = metadataFilter;
-		} else {
-			console.warn(`Parser: No filter signature found for emoji "${emoji}" with value "${value}".`);
 		}
 	}
 
     // Step 2: Parse [[filename]] syntax (new functionality - keep in text but create filters)
+    const filenameFilters: MetadataFilter[] = [];
     const filenameRegex = /\[\[([^\]]+)\]\]/g;
     let filenameMatch;
     while ((filenameMatch = filenameRegex.exec(promptText)) !== null) {
         const filename = filenameMatch[1].trim();
-        
+
         if (filename) {
             // Create a filename filter that searches for files containing the specified name
             const filenameFilter: MetadataFilter = {
@@ -54,18 +51,197 @@ export function parseFiltersFromPrompt(promptText: string): {
                 condition: "contains",
                 value: filename,
             };
-            
+
             // Use a unique key for filename filters
             const filterKey = `filename_${filename}`;
             metadataFilterMap[filterKey] = filenameFilter;
+            filenameFilters.push(filenameFilter);
         }
     }
 
-    // Step 3: Remove only emoji filters from the text, keep [[filename]] syntax
-    const semanticQuery = promptText.replace(emojiRegex, '').trim();
+	// Step 3: Combine filter runs into one expression; runs separated by text are ANDed.
+	// Mentioned notes are alternatives (no chunk belongs to two notes), so they're ORed first
+	const regions = findFilterRegions(promptText);
+	const filterExpression = combine("and", [
+		...regions.map((region) => parseRegion(region.tokens)),
+		combine(
+			"or",
+			filenameFilters.map((filter) => ({ type: "filter" as const, filter }))
+		),
+	]);
+
+    // Step 4: Remove emoji filters and their operators from the text, keep [[filename]] syntax
+    let semanticQuery = promptText;
+    for (const region of [...regions].reverse()) {
+        semanticQuery = semanticQuery.slice(0, region.start) + " " + semanticQuery.slice(region.end);
+    }
+    semanticQuery = semanticQuery.replace(emojiRegex, '').replace(/[ \t]{2,}/g, " ").trim();
 
-    return { 
-        semanticQuery, 
-        metadataFilters: Object.values(metadataFilterMap) 
+    return {
+        semanticQuery,
+        metadataFilters: Object.values(metadataFilterMap),
+        filterExpression: filterExpression || undefined,
     };
 }
+
+/**
+ * Build the metadata filter for one emoji filter, or null if the emoji is unknown
+ */
+function createMetadataFilter(emoji: string, value: string): MetadataFilter | null {
+	// Find the filter signature that matches this emoji
+	const filterSignature = findFilterByEmoji(emoji);
+	if (!filterSignature) {
+		console.warn(`Parser: No filter signature found for emoji "${emoji}" with value "${value}".`);
+		return null;
+	}
+
+	// Create a new metadata filter based on the filter signature
+	const metadataFilter: MetadataFilter = {
+		field: filterSignature.field,
+		condition: filterSignature.condition,
+		value: value.trim(),
+	};
+
+	// Frontmatter values carry their own property and comparison
+	if (filterSignature.field === "frontmatter") {
+		const comparison = parseFrontmatterValue(value);
+		if (!comparison) return null;
+		metadataFilter.property = comparison.property;
+		metadataFilter.condition = comparison.condition;
+		metadataFilter.value = comparison.value;
+	}
+	return metadataFilter;
+}
+
+type FilterToken =
+	| { kind: "filter"; filter: MetadataFilter | null }
+	| { kind: "and" | "or" | "not" | "open" | "close" };
+
+interface FilterRegion {
+	start: number;
+	end: number;
+	tokens: FilterToken[];
+}
+
+// One filter-syntax token, matched at the current position only
+const TOKEN_REGEX = /(\s*)(?:(\p{Extended_Pictographic}\uFE0F?)\{([^}]+)\}|(\()|(\))|\b(AND|OR|NOT)\b)/uy;
+
+/**
+ * Find the runs of prompt text made only of emoji filters, operators and
+ * parentheses. Runs without a filter (e.g. "cats AND dogs") stay plain text.
+ */
+function findFilterRegions(text: string): FilterRegion[] {
+	const regions: FilterRegion[] = [];
+	let current: FilterRegion | null = null;
+	let position = 0;
+
+	const closeRegion = () => {
+		if (current && current.tokens.some((token) => token.kind === "filter")) {
+			regions.push(current);
+		}
+		current = null;
+	};
+
+	while (position < text.length) {
+		TOKEN_REGEX.lastIndex = position;
+		const match = TOKEN_REGEX.exec(text);
+		if (!match) {
+			closeRegion();
+			position++;
+			continue;
+		}
+
+		const token: FilterToken = match[2]
+			? { kind: "filter", filter: createMetadataFilter(match[2], match[3]) }
+			: match[4]
+				? { kind: "open" }
+				: match[5]
+					? { kind: "close" }
+					: { kind: match[6].toLowerCase() as "and" | "or" | "not" };
+
+		if (!current) {
+			current = { start: position + match[1].length, end: 0, tokens: [] };
+		}
+		current.tokens.push(token);
+		current.end = TOKEN_REGEX.lastIndex;
+		position = TOKEN_REGEX.lastIndex;
+	}
+	closeRegion();
+
+	return regions;
+}
+
+/**
+ * Parse a run of tokens with precedence NOT > AND > OR. A malformed run (e.g.
+ * unbalanced parentheses) falls back to requiring all of its filters.
+ */
+function parseRegion(tokens: FilterToken[]): MetadataFilterExpression | null {
+	let index = 0;
+	const peek = () => tokens[index];
+
+	const parseOr = (): MetadataFilterExpression | null => {
+		const children = [parseAnd()];
+		while (peek()?.kind === "or") {
+			index++;
+			children.push(parseAnd());
+		}
+		return combine("or", children);
+	};
+
+	const parseAnd = (): MetadataFilterExpression | null => {
+		const children = [parseUnary()];
+		// Explicit AND, or implicit between adjacent terms
+		while (peek() && (peek().kind === "and" || ["filter", "not", "open"].includes(peek().kind))) {
+			if (peek().kind === "and") index++;
+			children.push(parseUnary());
+		}
+		return combine("and", children);
+	};
+
+	const parseUnary = (): MetadataFilterExpression | null => {
+		const token = tokens[index++];
+		if (!token) throw new Error("Unexpected end of filter expression");
+
+		switch (token.kind) {
+			case "not": {
+				const child = parseUnary();
+				return child ? { type: "not", child } : null;
+			}
+			case "open": {
+				const inner = parseOr();
+				if (tokens[index++]?.kind !== "close") throw new Error("Missing closing parenthesis");
+				return inner;
+			}
+			case "filter":
+				return token.filter ? { type: "filter", filter: token.filter } : null;
+			default:
+				throw new Error(`Unexpected "${token.kind}" in filter expression`);
+		}
+	};
+
+	try {
+		const expression = parseOr();
+		if (index < tokens.length) throw new Error("Unexpected tokens after filter expression");
+		return expression;
+	} catch (error) {
+		console.warn(`Parser: ${error instanceof Error ? error.message : error}; requiring all filters instead.`);
+		return combine(
+			"and",
+			tokens.map((token) =>
+				token.kind === "filter" && token.filter ? { type: "filter" as const, filter: token.filter } : null
+			)
+		);
+	}
+}
+
+/**
+ * Group expressions, dropping empty ones and unwrapping single children
+ */
+function combine(
+	type: "and" | "or",
+	children: (MetadataFilterExpression | null)[]
+): MetadataFilterExpression | null {
+	const present = children.filter((child): child is MetadataFilterExpression => child !== null);
+	if (present.length === 0) return null;
+	return present.length === 1 ? present[0] : { type, children: present };
+}
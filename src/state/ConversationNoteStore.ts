@@ -0,0 +1,216 @@
+import { App, getFrontMatterInfo, normalizePath, parseYaml, stringifyYaml, TFile } from "obsidian";
+import { parseFiltersFromPrompt } from "../parser";
+import type { Citation } from "../types";
+import type { ChatConversation, ChatMessage } from "./SharedState";
+
+export interface ConversationNoteStoreConfig {
+	folder: string;
+}
+
+// Frontmatter type that marks a note as a saved conversation
+const CONVERSATION_NOTE_TYPE = "intelligence-chat";
+
+// Each message starts with a marker carrying its metadata as JSON
+const MESSAGE_MARKER_REGEX = /^<!-- chat-message (\{.*\}) -->$/gm;
+
+const ROLE_HEADINGS: Record<ChatMessage["role"], string> = {
+	user: "User",
+	assistant: "Assistant",
+	system: "System",
+};
+
+interface MessageMarker {
+	id: string;
+	role: ChatMessage["role"];
+	timestamp: string;
+	agentsUsed?: string[];
+	model?: string;
+	citations?: Citation[];
+}
+
+/**
+ * Saves conversations as Markdown notes in the vault and restores them, so
+ * chats can be searched and linked like any other note
+ */
+export class ConversationNoteStore {
+	private app: App;
+	private folder: string;
+
+	constructor(app: App, config: ConversationNoteStoreConfig) {
+		this.app = app;
+		this.folder = normalizePath(config.folder || "Intelligence Chats");
+	}
+
+	/**
+	 * Write the conversation to its note, creating the note on first save.
+	 * Returns the note, whose path stays the same across later saves.
+	 */
+	async save(conversation: ChatConversation): Promise<TFile> {
+		const content = this.serialize(conversation);
+		const existing = this.findNote(conversation);
+		if (existing) {
+			await this.app.vault.modify(existing, content);
+			return existing;
+		}
+
+		if (!this.app.vault.getAbstractFileByPath(this.folder)) {
+			await this.app.vault.createFolder(this.folder);
+		}
+		return await this.app.vault.create(this.getAvailablePath(conversation), content);
+	}
+
+	/**
+	 * Restore a conversation from a saved note, or null if the note isn't one
+	 */
+	async load(file: TFile): Promise<ChatConversation | null> {
+		const content = await this.app.vault.read(file);
+		return this.parse(content, file.path);
+	}
+
+	/**
+	 * Whether a note was saved from a conversation
+	 */
+	isConversationNote(file: TFile): boolean {
+		return this.app.metadataCache.getFileCache(file)?.frontmatter?.type === CONVERSATION_NOTE_TYPE;
+	}
+
+	/**
+	 * Render the conversation as Markdown with frontmatter
+	 */
+	serialize(conversation: ChatConversation): string {
+		const assistantMessages = conversation.messages.filter((message) => message.role === "assistant");
+		const agents = [...new Set(assistantMessages.flatMap((message) => message.agentsUsed || []))];
+		const models = assistantMessages.map((message) => message.model).filter((model): model is string => !!model);
+		const sources = [
+			...new Set([
+				...conversation.messages.flatMap((message) => message.content.match(/\[\[[^\]]+\]\]/g) || []),
+				...conversation.messages.flatMap((message) =>
+					(message.citations || []).map((citation) => `[[${citation.path.replace(/\.md$/, "")}]]`)
+				),
+			]),
+		];
+
+		const frontmatter = {
+			type: CONVERSATION_NOTE_TYPE,
+			id: conversation.id,
+			title: conversation.title,
+			created: conversation.createdAt.toISOString(),
+			updated: conversation.updatedAt.toISOString(),
+			model: models[models.length - 1] || null,
+			agents,
+			sources,
+		};
+
+		const body = conversation.messages.map((message) => {
+			const marker: MessageMarker = {
+				id: message.id,
+				role: message.role,
+				timestamp: message.timestamp.toISOString(),
+				agentsUsed: message.agentsUsed,
+				model: message.model,
+				citations: message.citations,
+			};
+			// Keep the marker a single valid comment whatever the values contain
+			const markerJson = JSON.stringify(marker).replace(/>/g, "\\u003e");
+			return `<!-- chat-message ${markerJson} -->\n### ${ROLE_HEADINGS[message.role]}\n\n${message.content.trim()}\n`;
+		});
+
+		return `---\n${stringifyYaml(frontmatter)}---\n\n# ${conversation.title}\n\n${body.join("\n")}`;
+	}
+
+	/**
+	 * Read a conversation back from note content
+	 */
+	parse(content: string, notePath?: string): ChatConversation | null {
+		const frontmatterInfo = getFrontMatterInfo(content);
+		if (!frontmatterInfo.exists) return null;
+
+		let frontmatter: Record<string, unknown>;
+		try {
+			frontmatter = parseYaml(frontmatterInfo.frontmatter) || {};
+		} catch (error) {
+			console.warn(`Conversation note ${notePath} has invalid frontmatter:`, error);
+			return null;
+		}
+		if (frontmatter.type !== CONVERSATION_NOTE_TYPE || !frontmatter.id) return null;
+
+		const body = content.slice(frontmatterInfo.contentStart);
+		const markers = [...body.matchAll(MESSAGE_MARKER_REGEX)];
+		const messages: ChatMessage[] = [];
+
+		markers.forEach((match, index) => {
+			let marker: MessageMarker;
+			try {
+				marker = JSON.parse(match[1]);
+			} catch {
+				console.warn(`Skipping unreadable message marker in ${notePath}`);
+				return;
+			}
+
+			const start = (match.index ?? 0) + match[0].length;
+			const end = index + 1 < markers.length ? markers[index + 1].index ?? body.length : body.length;
+			// Drop the role heading written under the marker
+			const text = body.slice(start, end).replace(/^\s*### [^\n]*\n/, "").trim();
+
+			const message: ChatMessage = {
+				id: marker.id,
+				role: marker.role,
+				content: text,
+				timestamp: new Date(marker.timestamp),
+			};
+			if (marker.role === "user") {
+				message.query = parseFiltersFromPrompt(text).semanticQuery;
+			}
+			if (marker.agentsUsed) message.agentsUsed = marker.agentsUsed;
+			if (marker.model) message.model = marker.model;
+			if (marker.citations) message.citations = marker.citations;
+			messages.push(message);
+		});
+
+		return {
+			id: String(frontmatter.id),
+			title: String(frontmatter.title || "Untitled chat"),
+			messages,
+			createdAt: new Date(String(frontmatter.created)),
+			updatedAt: new Date(String(frontmatter.updated)),
+			notePath,
+		};
+	}
+
+	/**
+	 * The conversation's existing note: its saved path, or a note in the folder
+	 * with its id if the note was moved or renamed
+	 */
+	private findNote(conversation: ChatConversation): TFile | null {
+		if (conversation.notePath) {
+			const file = this.app.vault.getAbstractFileByPath(conversation.notePath);
+			if (file instanceof TFile) return file;
+		}
+
+		return (
+			this.app.vault
+				.getMarkdownFiles()
+				.find(
+					(file) =>
+						file.path.startsWith(`${this.folder}/`) &&
+						this.app.metadataCache.getFileCache(file)?.frontmatter?.id === conversation.id
+				) || null
+		);
+	}
+
+	/**
+	 * A new note path from the creation date and title, e.g.
+	 * "Intelligence Chats/2024-03-05 Meeting notes.md"
+	 */
+	private getAvailablePath(conversation: ChatConversation): string {
+		const date = conversation.createdAt.toISOString().slice(0, 10);
+		const title = conversation.title.replace(/[\\/:*?"<>|#^[\]]/g, "").replace(/\s+/g, " ").trim();
+		const baseName = `${date} ${title || "Chat"}`.slice(0, 100).trim();
+
+		let path = normalizePath(`${this.folder}/${baseName}.md`);
+		for (let suffix = 2; this.app.vault.getAbstractFileByPath(path); suffix++) {
+			path = normalizePath(`${this.folder}/${baseName} ${suffix}.md`);
+		}
+		return path;
+	}
+}
@@ -1,4 +1,5 @@
 import { EventEmitter } from "events";
+import type { Citation, PlanPreview } from "../types";
 
 export interface ChatMessage {
 	id: string;
@@ -6,6 +7,11 @@ export interface ChatMessage {
 	content: string;
 	timestamp: Date;
 	sources?: string[];
+	citations?: Citation[];
+	query?: string; // Text sent to the model when it differs from content, e.g. without filters
+	agentsUsed?: string[];
+	model?: string;
+	plan?: PlanPreview;
 }
 
 export interface ChatConversation {
@@ -14,6 +20,23 @@ export interface ChatConversation {
 	messages: ChatMessage[];
 	createdAt: Date;
 	updatedAt: Date;
+	notePath?: string; // Markdown note the conversation was last saved to
+}
+
+export const DEFAULT_CONVERSATION_TITLE = "New Chat";
+
+const MAX_TITLE_LENGTH = 50;
+
+/**
+ * Derive a conversation title from its first user message
+ */
+export function createConversationTitle(text: string): string {
+	const firstLine = text.replace(/\s+/g, " ").trim();
+	if (!firstLine) return DEFAULT_CONVERSATION_TITLE;
+	if (firstLine.length <= MAX_TITLE_LENGTH) return firstLine;
+	const cut = firstLine.slice(0, MAX_TITLE_LENGTH);
+	const lastSpace = cut.lastIndexOf(" ");
+	return `${(lastSpace > MAX_TITLE_LENGTH / 2 ? cut.slice(0, lastSpace) : cut).trim()}…`;
 }
 
 export interface SharedStateData {
@@ -114,10 +137,27 @@ export class SharedState extends EventEmitter {
 		const currentConv = this.getCurrentConversation();
 		if (!currentConv) return;
 
-		this.updateConversation(currentConv.id, {
-			messages: [...currentConv.messages, message],
+		this.addMessageToConversation(currentConv.id, message);
+	}
+
+	/**
+	 * Append a message to a conversation; the first user message titles an
+	 * untitled conversation
+	 */
+	addMessageToConversation(id: string, message: ChatMessage) {
+		const conversation = this.state.chatHistory.find(conv => conv.id === id);
+		if (!conversation) return;
+
+		const updates: Partial<ChatConversation> = {
+			messages: [...conversation.messages, message],
 			updatedAt: new Date()
-		});
+		};
+		const isFirstUserMessage =
+			message.role === "user" && !conversation.messages.some(msg => msg.role === "user");
+		if (isFirstUserMessage && conversation.title === DEFAULT_CONVERSATION_TITLE) {
+			updates.title = createConversationTitle(message.content);
+		}
+		this.updateConversation(id, updates);
 	}
 
 	// Subscription methods
@@ -132,7 +172,11 @@ export class SharedState extends EventEmitter {
 
 	// Persistence methods
 	saveState(): string {
-		return JSON.stringify(this.state);
+		// Loading and error flags belong to the running session only
+		return JSON.stringify({
+			chatHistory: this.state.chatHistory,
+			currentConversationId: this.state.currentConversationId,
+		});
 	}
 
 	loadState(serializedState: string) {
@@ -150,8 +194,14 @@ export class SharedState extends EventEmitter {
 					}))
 				}));
 			}
-			this.state = { ...this.state, ...loadedState };
+			this.state = {
+				...this.state,
+				chatHistory: loadedState.chatHistory || [],
+				currentConversationId: loadedState.currentConversationId ?? null,
+			};
 			this.notifyListeners();
+			this.emit("chatHistoryChanged", this.state.chatHistory);
+			this.emit("currentConversationChanged", this.state.currentConversationId);
 		} catch (error) {
 			console.error("Failed to load state:", error);
 		}
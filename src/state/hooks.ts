@@ -1,5 +1,5 @@
 import { useContext, useEffect, useState, useCallback } from "react";
-import { SharedState, ChatConversation, ChatMessage } from "./SharedState";
+import { ChatConversation, ChatMessage, DEFAULT_CONVERSATION_TITLE } from "./SharedState";
 import { SharedStateContext } from "./contexts";
 
 /**
@@ -187,7 +187,7 @@ export function useConversationManager() {
 	const sharedState = useSharedState();
 
 	const createConversation = useCallback(
-		(title: string = "New Chat"): ChatConversation => {
+		(title: string = DEFAULT_CONVERSATION_TITLE): ChatConversation => {
 			const newConversation: ChatConversation = {
 				id: Date.now().toString(),
 				title,
@@ -202,9 +202,24 @@ export function useConversationManager() {
 		[sharedState]
 	);
 
+	const switchConversation = useCallback(
+		(id: string) => {
+			sharedState.setCurrentConversationId(id);
+		},
+		[sharedState]
+	);
+
 	const deleteConversation = useCallback(
 		(id: string) => {
+			const wasCurrent = sharedState.getCurrentConversationId() === id;
 			sharedState.deleteConversation(id);
+			if (wasCurrent) {
+				// Fall back to the most recently updated conversation
+				const [next] = [...sharedState.getChatHistory()].sort(
+					(a, b) => b.updatedAt.getTime() - a.updatedAt.getTime()
+				);
+				sharedState.setCurrentConversationId(next ? next.id : null);
+			}
 		},
 		[sharedState]
 	);
@@ -216,9 +231,18 @@ export function useConversationManager() {
 		[sharedState]
 	);
 
+	const addMessageToConversation = useCallback(
+		(id: string, message: ChatMessage) => {
+			sharedState.addMessageToConversation(id, message);
+		},
+		[sharedState]
+	);
+
 	return {
 		createConversation,
+		switchConversation,
 		deleteConversation,
 		updateConversationTitle,
+		addMessageToConversation,
 	};
 }
\ No newline at end of file
@@ -0,0 +1,125 @@
+import { HnswIndex } from "../mastra/storage/HnswIndex";
+
+const DIMENSIONS = 64;
+const VECTOR_COUNT = 2000;
+const QUERY_COUNT = 100;
+const TOP_K = 10;
+// Far above the ~1 ms a query takes, so only a search that degrades towards a scan fails
+const MAX_QUERY_MS = 20;
+
+// Small seeded generator so every run builds the same graph
+function seededRandom(seed: number): () => number {
+	return () => {
+		seed = (seed + 0x6d2b79f5) | 0;
+		let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+		t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	};
+}
+
+function randomVector(random: () => number): number[] {
+	return Array.from({ length: DIMENSIONS }, () => random() * 2 - 1);
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+	let dot = 0;
+	let normA = 0;
+	let normB = 0;
+	for (let i = 0; i < a.length; i++) {
+		dot += a[i] * b[i];
+		normA += a[i] * a[i];
+		normB += b[i] * b[i];
+	}
+	return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+function bruteForce(vectors: Map<string, number[]>, query: number[], topK: number): string[] {
+	return [...vectors.entries()]
+		.map(([id, vector]) => ({ id, score: cosineSimilarity(query, vector) }))
+		.sort((a, b) => b.score - a.score)
+		.slice(0, topK)
+		.map((result) => result.id);
+}
+
+describe("HnswIndex", () => {
+	const random = seededRandom(42);
+	const vectors = new Map<string, number[]>();
+	let index: HnswIndex;
+
+	beforeAll(() => {
+		// Node levels are drawn from Math.random
+		jest.spyOn(Math, "random").mockImplementation(random);
+
+		for (let i = 0; i < VECTOR_COUNT; i++) {
+			vectors.set(`v${i}`, randomVector(random));
+		}
+		index = new HnswIndex((id) => vectors.get(id));
+		for (const id of vectors.keys()) {
+			index.add(id);
+		}
+	});
+
+	afterAll(() => {
+		jest.restoreAllMocks();
+	});
+
+	it("finds the exact nearest neighbours for most queries, quickly", () => {
+		const queries = Array.from({ length: QUERY_COUNT }, () => randomVector(random));
+
+		let found = 0;
+		let elapsed = 0;
+		for (const query of queries) {
+			const expected = new Set(bruteForce(vectors, query, TOP_K));
+			const start = performance.now();
+			const results = index.search(query, TOP_K);
+			elapsed += performance.now() - start;
+			found += results.filter((result) => expected.has(result.id)).length;
+		}
+
+		expect(found / (QUERY_COUNT * TOP_K)).toBeGreaterThan(0.9);
+		expect(elapsed / QUERY_COUNT).toBeLessThan(MAX_QUERY_MS);
+	});
+
+	it("returns results sorted by similarity", () => {
+		const results = index.search(randomVector(random), TOP_K);
+
+		expect(results).toHaveLength(TOP_K);
+		for (let i = 1; i < results.length; i++) {
+			expect(results[i - 1].score).toBeGreaterThanOrEqual(results[i].score);
+		}
+	});
+
+	it("stops returning removed vectors", () => {
+		const query = vectors.get("v0") as number[];
+		expect(index.search(query, 1)[0].id).toBe("v0");
+
+		index.remove("v0");
+
+		expect(index.search(query, TOP_K).map((result) => result.id)).not.toContain("v0");
+		expect(index.size()).toBe(VECTOR_COUNT - 1);
+	});
+
+	it("leaves no links to removed vectors", () => {
+		const removed = new Set(Array.from({ length: 200 }, (_, i) => `v${i + 1}`));
+		for (const id of removed) {
+			index.remove(id);
+		}
+
+		const { nodes } = index.serialize();
+		for (const neighbors of Object.values(nodes)) {
+			for (const layer of neighbors) {
+				expect(layer.filter((id) => removed.has(id))).toEqual([]);
+			}
+		}
+		const query = randomVector(random);
+		expect(index.search(query, TOP_K).map((result) => result.id).filter((id) => removed.has(id))).toEqual([]);
+	});
+
+	it("restores a serialized graph", () => {
+		const restored = new HnswIndex((id) => vectors.get(id));
+		expect(restored.load(index.serialize())).toBe(true);
+
+		const query = randomVector(random);
+		expect(restored.search(query, TOP_K)).toEqual(index.search(query, TOP_K));
+	});
+});
@@ -0,0 +1,160 @@
+import { App, TAbstractFile, TFile } from "obsidian";
+import { VaultIndexer } from "../mastra/indexing/VaultIndexer";
+import { IndexManifest } from "../mastra/storage/IndexManifest";
+import type { MastraVectorStore } from "../mastra/agents/vectorstore/MastraVectorStore";
+
+// The obsidian package ships only type declarations; the indexer only needs
+// TFile to tell notes from folders
+jest.mock("obsidian", () => ({ TFile: class TFile {}, TAbstractFile: class TAbstractFile {} }), { virtual: true });
+
+type VaultEvent = "create" | "modify" | "delete" | "rename";
+
+/**
+ * Vault whose notes live in memory and whose events the test fires by hand
+ */
+class FakeVault {
+	files = new Map<string, { file: TFile; content: string }>();
+	handlers = new Map<VaultEvent, (...args: any[]) => void>();
+	adapter = {
+		exists: async () => true,
+		mkdir: async () => undefined,
+		read: async () => "{}",
+		write: async () => undefined,
+	};
+
+	on(event: VaultEvent, handler: (...args: any[]) => void) {
+		this.handlers.set(event, handler);
+		return { event };
+	}
+
+	offref() {
+		// Handlers stay registered; the test never fires them after stop
+	}
+
+	getAbstractFileByPath(path: string): TAbstractFile | null {
+		return this.files.get(path)?.file || null;
+	}
+
+	async cachedRead(file: TFile): Promise<string> {
+		return this.files.get(file.path)?.content || "";
+	}
+
+	write(path: string, content: string): TFile {
+		const existing = this.files.get(path)?.file;
+		const file = Object.assign(existing || new TFile(), {
+			path,
+			name: path.split("/").pop(),
+			basename: path.split("/").pop()?.replace(/\.md$/, ""),
+			extension: "md",
+			stat: { mtime: (existing?.stat.mtime || 0) + 1, size: content.length, ctime: 0 },
+		});
+		this.files.set(path, { file, content });
+		return file;
+	}
+
+	rename(oldPath: string, newPath: string): TFile {
+		const entry = this.files.get(oldPath);
+		if (!entry) throw new Error(`No file at ${oldPath}`);
+		this.files.delete(oldPath);
+		Object.assign(entry.file, { path: newPath, name: newPath.split("/").pop() });
+		this.files.set(newPath, entry);
+		return entry.file;
+	}
+
+	fire(event: VaultEvent, ...args: any[]): void {
+		this.handlers.get(event)?.(...args);
+	}
+}
+
+/**
+ * Vector store that keeps one chunk per indexed file, by path
+ */
+class FakeVectorStore {
+	chunks = new Map<string, string>();
+
+	async indexFile(file: TFile, content: string): Promise<string[]> {
+		this.chunks.set(file.path, content);
+		return [content];
+	}
+
+	async removeFile(path: string): Promise<void> {
+		this.chunks.delete(path);
+	}
+
+	async renameFile(oldPath: string, file: TFile): Promise<void> {
+		const content = this.chunks.get(oldPath);
+		this.chunks.delete(oldPath);
+		if (content !== undefined) this.chunks.set(file.path, content);
+	}
+
+	getEmbeddingMethod() {
+		return "openai";
+	}
+}
+
+describe("VaultIndexer", () => {
+	let vault: FakeVault;
+	let store: FakeVectorStore;
+	let manifest: IndexManifest;
+	let indexer: VaultIndexer;
+
+	beforeAll(() => {
+		(globalThis as any).window = globalThis;
+	});
+
+	beforeEach(async () => {
+		vault = new FakeVault();
+		store = new FakeVectorStore();
+		const app = { vault } as unknown as App;
+		manifest = new IndexManifest(app, { dataDir: "data" });
+		indexer = new VaultIndexer(app, store as unknown as MastraVectorStore, manifest, { debounceMs: 60_000 });
+
+		// An indexed note, as after a reconcile
+		vault.write("Notes/Old.md", "first draft");
+		indexer.start();
+		vault.fire("create", vault.files.get("Notes/Old.md")?.file);
+		await indexer.flush();
+	});
+
+	afterEach(async () => {
+		await indexer.stop();
+	});
+
+	it("moves a note modified and renamed within one debounce window", async () => {
+		vault.fire("modify", vault.write("Notes/Old.md", "second draft"));
+		vault.fire("rename", vault.rename("Notes/Old.md", "Notes/New.md"), "Notes/Old.md");
+		await indexer.flush();
+
+		expect([...store.chunks.keys()]).toEqual(["Notes/New.md"]);
+		expect(store.chunks.get("Notes/New.md")).toBe("second draft");
+		expect(manifest.paths()).toEqual(["Notes/New.md"]);
+	});
+
+	it("keeps a rename when the note is modified after it", async () => {
+		vault.fire("rename", vault.rename("Notes/Old.md", "Notes/New.md"), "Notes/Old.md");
+		vault.fire("modify", vault.write("Notes/New.md", "second draft"));
+		await indexer.flush();
+
+		expect([...store.chunks.keys()]).toEqual(["Notes/New.md"]);
+		expect(manifest.paths()).toEqual(["Notes/New.md"]);
+	});
+
+	it("removes a note renamed and deleted within one debounce window", async () => {
+		const file = vault.rename("Notes/Old.md", "Notes/New.md");
+		vault.fire("rename", file, "Notes/Old.md");
+		vault.files.delete("Notes/New.md");
+		vault.fire("delete", file);
+		await indexer.flush();
+
+		expect(store.chunks.size).toBe(0);
+		expect(manifest.paths()).toEqual([]);
+	});
+
+	it("indexes a note created and renamed within one debounce window once, under its new path", async () => {
+		vault.fire("create", vault.write("Notes/Draft.md", "idea"));
+		vault.fire("rename", vault.rename("Notes/Draft.md", "Notes/Idea.md"), "Notes/Draft.md");
+		await indexer.flush();
+
+		expect([...store.chunks.keys()].sort()).toEqual(["Notes/Idea.md", "Notes/Old.md"]);
+	});
+});
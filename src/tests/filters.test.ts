@@ -0,0 +1,167 @@
+import type { App } from "obsidian";
+import { toVectorStoreFilter } from "../filters";
+import { ObsidianVectorStore } from "../mastra/storage/ObsidianVectorStore";
+import type { MetadataFilter, MetadataFilterExpression } from "../types";
+
+// The obsidian package ships only type declarations; the filters use getAllTags
+// for tag suggestions alone, which these tests don't exercise
+jest.mock("obsidian", () => ({ getAllTags: () => [] }), { virtual: true });
+
+const DIMENSIONS = 4;
+
+interface NoteFixture {
+	path: string;
+	created: string;
+	modified: string;
+	tags: string[];
+	vector: number[];
+}
+
+const NOTES: NoteFixture[] = [
+	{ path: "Projects/Alpha.md", created: "2024-01-05", modified: "2024-03-01", tags: ["#project", "#active"], vector: [1, 0, 0, 0] },
+	{ path: "Projects/Beta.md", created: "2024-02-10", modified: "2024-02-11", tags: ["#project"], vector: [0.9, 0.1, 0, 0] },
+	{ path: "Journal/2024-01-20.md", created: "2024-01-20", modified: "2024-01-20", tags: ["#journal"], vector: [0, 1, 0, 0] },
+	{ path: "Journal/Notes/Ideas.md", created: "2023-12-24", modified: "2024-01-02", tags: ["#idea", "#active"], vector: [0, 0, 1, 0] },
+	{ path: "Archive/Alpha.md", created: "2022-06-01", modified: "2022-06-01", tags: [], vector: [0, 0, 0, 1] },
+];
+
+// Midday, so the fixtures fall on the same date in any time zone
+const timestamp = (date: string) => new Date(`${date}T12:00:00`).getTime();
+
+/**
+ * App whose adapter keeps files in memory and whose metadata cache resolves
+ * links by basename, the part the filters and the store use
+ */
+function createApp(): App {
+	const files = new Map<string, any>();
+	const adapter = {
+		exists: async (path: string) =>
+			files.has(path) || [...files.keys()].some((key) => key.startsWith(`${path}/`)),
+		mkdir: async () => undefined,
+		read: async (path: string) => files.get(path),
+		write: async (path: string, data: string) => void files.set(path, data),
+		append: async (path: string, data: string) => void files.set(path, (files.get(path) || "") + data),
+		readBinary: async (path: string) => files.get(path),
+		writeBinary: async (path: string, data: ArrayBuffer) => void files.set(path, data.slice(0)),
+		remove: async (path: string) => void files.delete(path),
+	};
+	const getFirstLinkpathDest = (linkpath: string) => {
+		const note =
+			NOTES.find((n) => n.path === `${linkpath}.md`) || NOTES.find((n) => n.path.endsWith(`/${linkpath}.md`));
+		return note ? { path: note.path } : null;
+	};
+
+	return {
+		vault: { adapter },
+		metadataCache: { getFirstLinkpathDest, resolvedLinks: {} },
+	} as unknown as App;
+}
+
+describe("metadata filters", () => {
+	let app: App;
+	let store: ObsidianVectorStore;
+
+	beforeAll(async () => {
+		app = createApp();
+		store = new ObsidianVectorStore(app, { dataDir: "data", dimensions: DIMENSIONS });
+		await store.upsert(
+			NOTES.map((note) => ({
+				id: `${note.path}_chunk_0`,
+				vector: note.vector,
+				metadata: {
+					filePath: note.path,
+					fileName: note.path.split("/").pop(),
+					createdTime: timestamp(note.created),
+					modifiedTime: timestamp(note.modified),
+					tags: note.tags,
+					content: `Contents of ${note.path}`,
+				},
+			}))
+		);
+	});
+
+	afterAll(async () => {
+		await store.close();
+	});
+
+	// Paths of every stored note the filters let through
+	async function search(filters: MetadataFilter[] | MetadataFilterExpression): Promise<string[]> {
+		const filter = toVectorStoreFilter(filters, app);
+		const results = await store.query([1, 1, 1, 1], { topK: NOTES.length, filter });
+		return results.map((result) => result.metadata?.filePath).sort();
+	}
+
+	it("matches a created date range, inclusive of both ends", async () => {
+		expect(await search([{ field: "createdAt", condition: "is", value: "2024-01-05..2024-01-20" }])).toEqual([
+			"Journal/2024-01-20.md",
+			"Projects/Alpha.md",
+		]);
+	});
+
+	it("matches modified dates before and after a day", async () => {
+		expect(await search([{ field: "modifiedAt", condition: "<", value: "2024-01-20" }])).toEqual([
+			"Archive/Alpha.md",
+			"Journal/Notes/Ideas.md",
+		]);
+		expect(await search([{ field: "modifiedAt", condition: ">=", value: "2024-02-11" }])).toEqual([
+			"Projects/Alpha.md",
+			"Projects/Beta.md",
+		]);
+	});
+
+	it("matches tags with or without the leading #", async () => {
+		expect(await search([{ field: "tags", condition: "contains", value: "active" }])).toEqual([
+			"Journal/Notes/Ideas.md",
+			"Projects/Alpha.md",
+		]);
+		expect(await search([{ field: "tags", condition: "contains", value: "#project #active" }])).toEqual([
+			"Projects/Alpha.md",
+		]);
+	});
+
+	it("matches notes under a folder, including subfolders, but not folders sharing its prefix", async () => {
+		expect(await search([{ field: "folder", condition: "startsWith", value: "Journal" }])).toEqual([
+			"Journal/2024-01-20.md",
+			"Journal/Notes/Ideas.md",
+		]);
+		expect(await search([{ field: "folder", condition: "startsWith", value: "Proj" }])).toEqual([]);
+	});
+
+	it("resolves a [[basename]] mention to the note's path", async () => {
+		expect(await search([{ field: "basename", condition: "is", value: "Beta" }])).toEqual(["Projects/Beta.md"]);
+		expect(await search([{ field: "basename", condition: "is", value: "Archive/Alpha" }])).toEqual([
+			"Archive/Alpha.md",
+		]);
+		expect(await search([{ field: "basename", condition: "is", value: "Beta#Goals|the beta plan" }])).toEqual([
+			"Projects/Beta.md",
+		]);
+	});
+
+	it("combines filters with AND, OR and NOT", async () => {
+		const inProjects: MetadataFilterExpression = {
+			type: "filter",
+			filter: { field: "folder", condition: "startsWith", value: "Projects" },
+		};
+		const active: MetadataFilterExpression = {
+			type: "filter",
+			filter: { field: "tags", condition: "contains", value: "active" },
+		};
+
+		expect(await search({ type: "and", children: [inProjects, active] })).toEqual(["Projects/Alpha.md"]);
+		expect(await search({ type: "or", children: [inProjects, active] })).toEqual([
+			"Journal/Notes/Ideas.md",
+			"Projects/Alpha.md",
+			"Projects/Beta.md",
+		]);
+		expect(await search({ type: "and", children: [inProjects, { type: "not", child: active }] })).toEqual([
+			"Projects/Beta.md",
+		]);
+	});
+
+	it("applies the same filter to lexical search", async () => {
+		const filter = toVectorStoreFilter([{ field: "folder", condition: "startsWith", value: "Projects" }], app);
+		const results = await store.lexicalQuery("Alpha", { topK: NOTES.length, filter });
+
+		expect(results.map((result) => result.metadata?.filePath)).toEqual(["Projects/Alpha.md"]);
+	});
+});
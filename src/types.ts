@@ -1,4 +1,6 @@
 // Shared TypeScript types for the plugin.
+import { ChatModels, EmbeddingModelProviders, EmbeddingModels } from "./constants";
+import type { EmbeddingMethod } from "./mastra/embeddings/HybridEmbeddingManager";
 
 /**
  * Interface for the plugin settings.
@@ -6,7 +8,37 @@
  */
 export interface IntelligencePluginSettings {
 	mySetting: string; // Existing setting
-	openAIApiKey: string; // OpenAI API Key (required)
+	openAIApiKey: string; // OpenAI API Key (required for chat)
+	embeddingProvider: EmbeddingModelProviders;
+	embeddingBaseUrl: string; // Empty uses the provider's default endpoint
+	embeddingModel: string;
+	embeddingApiKey: string; // Empty falls back to the OpenAI API key
+	embeddingMethod: EmbeddingMethod; // "auto" falls back to local embeddings when offline
+	chatNotesFolder: string; // Vault folder for conversations saved as notes
+	autoSaveChatNotes: boolean; // Save the conversation note after every answer
+	safetyPolicy: string; // "<glob> <action>" rules for the files agents change, one per line
+	usageBudgets: UsageBudgets;
+	chatModel: string; // Model of every agent without an override
+	agentModels: Partial<Record<AgentModelRole, string>>; // Per-agent overrides of chatModel
+	plannerModel: string; // Cheaper model for breaking requests into tasks and revising plans
+}
+
+/**
+ * Agents whose chat model can be chosen in the settings.
+ */
+export type AgentModelRole = "supervisor" | "research" | "refactoring" | "safety" | "controller";
+
+/**
+ * Limits on what the agents spend, in tokens and estimated US dollars.
+ * 0 means no limit.
+ */
+export interface UsageBudgets {
+	requestTokens: number;
+	requestCost: number;
+	conversationTokens: number;
+	conversationCost: number;
+	dailyTokens: number;
+	dailyCost: number;
 }
 
 /**
@@ -15,6 +47,25 @@ export interface IntelligencePluginSettings {
 export const DEFAULT_SETTINGS: IntelligencePluginSettings = {
 	mySetting: "default",
 	openAIApiKey: "", // Default to an empty API key
+	embeddingProvider: EmbeddingModelProviders.OPENAI,
+	embeddingBaseUrl: "",
+	embeddingModel: EmbeddingModels.OPENAI_EMBEDDING_SMALL,
+	embeddingApiKey: "",
+	embeddingMethod: "auto",
+	chatNotesFolder: "Intelligence Chats",
+	autoSaveChatNotes: false,
+	safetyPolicy: "",
+	usageBudgets: {
+		requestTokens: 0,
+		requestCost: 0,
+		conversationTokens: 0,
+		conversationCost: 0,
+		dailyTokens: 0,
+		dailyCost: 0,
+	},
+	chatModel: ChatModels.GPT_4o_mini,
+	agentModels: { controller: ChatModels.GPT_4o },
+	plannerModel: ChatModels.GPT_41_nano,
 };
 
 /**
@@ -26,6 +77,83 @@ export type LangChainChatMessage = {
 	content: string;
 };
 
+/**
+ * A retrieved note chunk an answer is based on, cited in the text as "[index]".
+ */
+export interface Citation {
+	index: number; // 1-based footnote number
+	path: string;
+	heading: string; // Heading path of the chunk, e.g. "Project X > Risks"
+	startLine?: number; // 1-based, inclusive
+	endLine?: number;
+	score: number;
+	snippet: string;
+}
+
+/**
+ * A task of a multi-step plan, as previewed before the plan runs.
+ */
+export interface PlanPreviewTask {
+	id: string;
+	description: string;
+	agentId?: string;
+	priority: "low" | "medium" | "high" | "critical";
+	riskLevel: "low" | "medium" | "high";
+	dependencies: string[]; // Ids of the tasks that must finish first
+	estimatedDuration?: number; // Minutes
+	status?: "pending" | "in_progress" | "completed" | "failed" | "cancelled" | "skipped";
+}
+
+/**
+ * A multi-step plan shown in the chat for review. Running it executes the
+ * stored plan with this id, limited to the selected tasks. An interrupted
+ * plan was running when Obsidian closed and can be resumed or cancelled.
+ */
+export interface PlanPreview {
+	id: string;
+	name: string;
+	description: string;
+	reasoning?: string;
+	mode: "sequential" | "parallel";
+	estimatedDuration: number; // Minutes
+	tasks: PlanPreviewTask[];
+	status: "pending" | "running" | "completed" | "failed" | "interrupted" | "cancelled";
+	selectedTaskIds?: string[]; // Tasks the user chose to run
+	conversationId?: string; // Conversation the plan was made in
+}
+
+/**
+ * The user's changes to a previewed plan before running it.
+ */
+export interface PlanEdits {
+	taskIds: string[];
+	mode: PlanPreview["mode"];
+}
+
+/**
+ * An answer from the intelligence service and how it was produced.
+ */
+export interface QueryResult {
+	content: string;
+	agentsUsed: string[];
+	citations: Citation[];
+	model?: string;
+	stopped?: boolean; // The user stopped generation; content is the partial answer
+	error?: string; // The request failed; content explains the failure
+	plan?: PlanPreview; // Set instead of running when a plan awaits review
+}
+
+/**
+ * Options for a query beyond its text, history and filters.
+ */
+export interface QueryOptions {
+	filterExpression?: MetadataFilterExpression;
+	conversationId?: string;
+	onToken?: (chunk: string) => void; // Receives the answer as it streams in
+	signal?: AbortSignal; // Aborts the underlying request
+	dryRun?: boolean; // Plan the request and return the plan for review instead of running it
+}
+
 /**
  * Represents a message displayed in the UI.
  * 'system' messages are for notifications or instructions within the chat UI.
@@ -44,9 +172,16 @@ export type MetadataField =
 	| "createdAt"
 	| "fileName"
 	| "basename"
-	| "source";
+	| "source"
+	| "tags"
+	| "folder"
+	| "frontmatter"
+	| "linksTo"
+	| "linkedFrom"
+	| "fileType";
 export type MetadataCondition =
 	| "is"
+	| "!="
 	| ">"
 	| ">="
 	| "<"
@@ -54,14 +189,25 @@ export type MetadataCondition =
 	| "contains"
 	| "startsWith"
 	| "endsWith"
-	| "in";
+	| "in"
+	| "exists";
 
 export interface MetadataFilter {
 	// id: string;
 	field?: MetadataField;
 	condition?: MetadataCondition;
 	value: string;
+	property?: string; // Frontmatter property name, for "frontmatter" filters
 	// New properties for MastraVectorStore compatibility
-	key: string;
-	operator: 'equals' | 'contains' | 'startsWith' | 'in' | 'gt' | 'lt' | 'gte' | 'lte';
+	key?: string;
+	operator?: 'equals' | 'contains' | 'startsWith' | 'in' | 'gt' | 'lt' | 'gte' | 'lte';
 }
+
+/**
+ * Boolean combination of metadata filters, e.g.
+ * (🏷️{meeting} OR 🏷️{standup}) AND 📁{Work} AND NOT 📝{this month}
+ */
+export type MetadataFilterExpression =
+	| { type: "filter"; filter: MetadataFilter }
+	| { type: "and" | "or"; children: MetadataFilterExpression[] }
+	| { type: "not"; child: MetadataFilterExpression };
@@ -0,0 +1,131 @@
+import { App, Modal, Notice, Setting } from "obsidian";
+import type { ChangeJournal, JournalRun } from "../mastra/safety/ChangeJournal";
+import { openNoteAtLines } from "../obsidianUtils";
+
+const CHANGE_LABELS: Record<string, string> = {
+	create: "Created",
+	modify: "Modified",
+	delete: "Deleted",
+};
+
+/**
+ * Undo a journaled run, or one change of it, asking before overwriting
+ * files that were edited since the agent changed them
+ */
+export async function undoAgentChange(
+	journal: ChangeJournal,
+	runId: string,
+	changeId?: string
+): Promise<void> {
+	const undo = (force: boolean) =>
+		changeId ? journal.undoChange(runId, changeId, force) : journal.undoRun(runId, force);
+
+	try {
+		let result = await undo(false);
+		if (
+			result.conflicts.length > 0 &&
+			window.confirm(
+				`${[...new Set(result.conflicts)].join(", ")} changed after the agent edited ${
+					result.conflicts.length === 1 ? "it" : "them"
+				}. Restore the earlier version anyway and lose those edits?`
+			)
+		) {
+			const forced = await undo(true);
+			result = {
+				restored: [...result.restored, ...forced.restored],
+				conflicts: forced.conflicts,
+			};
+		}
+
+		if (result.restored.length > 0) {
+			new Notice(`Undid agent changes to ${[...new Set(result.restored)].join(", ")}`);
+		} else if (result.conflicts.length > 0) {
+			new Notice("Nothing undone: the files were edited since.");
+		} else {
+			new Notice("Nothing left to undo.");
+		}
+	} catch (error) {
+		console.error("Failed to undo agent change:", error);
+		new Notice(`Undo failed: ${error instanceof Error ? error.message : String(error)}`);
+	}
+}
+
+/**
+ * History of the agents' file changes, grouped by the request that made
+ * them, with undo for a whole run or a single change
+ */
+export class ChangeHistoryModal extends Modal {
+	private journal: ChangeJournal;
+
+	constructor(app: App, journal: ChangeJournal) {
+		super(app);
+		this.journal = journal;
+	}
+
+	onOpen() {
+		this.titleEl.setText("Agent change history");
+		this.render();
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+
+	private render(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		const runs = this.journal.getRuns();
+		if (runs.length === 0) {
+			contentEl.createEl("p", { text: "No agent changes yet." });
+			return;
+		}
+
+		for (const run of runs) {
+			this.renderRun(contentEl, run);
+		}
+	}
+
+	private renderRun(containerEl: HTMLElement, run: JournalRun): void {
+		const isUndone = run.changes.every((change) => change.undoneAt);
+
+		new Setting(containerEl)
+			.setHeading()
+			.setName(run.description)
+			.setDesc(new Date(run.startedAt).toLocaleString())
+			.addButton((button) =>
+				button
+					.setButtonText(isUndone ? "Undone" : "Undo all")
+					.setDisabled(isUndone)
+					.onClick(async () => {
+						await undoAgentChange(this.journal, run.id);
+						this.render();
+					})
+			);
+
+		for (const change of run.changes) {
+			new Setting(containerEl)
+				.setName(change.filePath)
+				.setDesc(
+					change.undoneAt
+						? `${CHANGE_LABELS[change.changeType]}, undone ${new Date(change.undoneAt).toLocaleString()}`
+						: CHANGE_LABELS[change.changeType]
+				)
+				.addExtraButton((button) =>
+					button
+						.setIcon("file-text")
+						.setTooltip("Open note")
+						.onClick(() => void openNoteAtLines(this.app, change.filePath))
+				)
+				.addButton((button) =>
+					button
+						.setButtonText(change.undoneAt ? "Undone" : "Undo")
+						.setDisabled(!!change.undoneAt)
+						.onClick(async () => {
+							await undoAgentChange(this.journal, run.id, change.id);
+							this.render();
+						})
+				);
+		}
+	}
+}
@@ -1,13 +1,28 @@
-import React, { useState, useCallback } from "react";
-import { App } from "obsidian";
+import React, { useState, useCallback, useEffect, useMemo, useRef } from "react";
+import { App, Notice } from "obsidian";
 import IntelligencePlugin from "../main";
-import { LangChainChatMessage } from "../types";
+import type {
+	LangChainChatMessage,
+	PlanEdits,
+	PlanPreview,
+	QueryOptions,
+	QueryResult,
+} from "../types";
 import { CHATVIEW_WELCOME_MESSAGE } from "../constants";
 import { parseFiltersFromPrompt } from "../parser";
 import ChatHeader from "./components/ChatHeader";
 import { ChatMessages, DisplayMessage } from "./components/ChatMessages";
 import ChatControl from "./components/ChatControl";
 import { StatusState, AgentStatus } from "./components/StatusMessage";
+import type { ApprovalState } from "./components/ApprovalCard";
+import type { ChatMessage } from "../state/SharedState";
+import { ConversationNoteStore } from "../state/ConversationNoteStore";
+import {
+	useChatHistory,
+	useConversationManager,
+	useCurrentConversation,
+	useSharedState,
+} from "../state/hooks";
 
 interface ChatViewProps {
 	plugin: IntelligencePlugin;
@@ -15,51 +30,116 @@ interface ChatViewProps {
 }
 
 function ChatView({ plugin, app }: ChatViewProps) {
-	const [chatHistory, setChatHistory] = useState<LangChainChatMessage[]>([]);
-	const [uiMessages, setUiMessages] = useState<DisplayMessage[]>([
-		{
-			id: crypto.randomUUID(),
-			sender: "system",
-			text: CHATVIEW_WELCOME_MESSAGE,
-			timestamp: new Date(),
-		},
-		{
-			id: crypto.randomUUID(),
-			sender: "user",
-			text: "What are the main themes in my notes about productivity?",
-			timestamp: new Date(Date.now() - 300000), // 5 minutes ago
-		},
-		{
-			id: crypto.randomUUID(),
-			sender: "ai",
-			text: "Based on your notes about productivity, I've identified several key themes:\n\n## Main Themes\n\n1. **Time Management** - Your notes frequently discuss techniques like the Pomodoro Technique and time blocking\n2. **Focus and Deep Work** - You've written extensively about creating distraction-free environments\n3. **Habit Formation** - Multiple notes cover building sustainable daily routines\n4. **Digital Minimalism** - Several entries explore reducing digital distractions\n\n### Referenced Notes\n- [[Productivity Systems]]\n- [[Deep Work Principles]]\n- [[Morning Routine Optimization]]\n\nWould you like me to elaborate on any of these themes or help you find specific notes on a particular aspect?",
-			timestamp: new Date(Date.now() - 240000), // 4 minutes ago
-		},
-		{
-			id: crypto.randomUUID(),
-			sender: "user",
-			text: "Can you find notes from last week about meeting notes?",
-			timestamp: new Date(Date.now() - 180000), // 3 minutes ago
-		},
-		{
-			id: crypto.randomUUID(),
-			sender: "ai",
-			text: "I found 3 meeting notes from last week:\n\n## Meeting Notes (Last Week)\n\n**1. Team Standup - January 15**\n- Discussed project timeline adjustments\n- Sprint planning for Q1 goals\n- Action items assigned\n\n**2. Client Review - January 17**\n- Feedback on current deliverables\n- Next milestone planning\n- Budget discussion\n\n**3. Strategy Session - January 19**\n- Long-term vision alignment\n- Resource allocation\n- Quarterly objectives\n\n### Quick Links\n- [[Team Standup 2024-01-15]]\n- [[Client Review Meeting 2024-01-17]]\n- [[Q1 Strategy Session 2024-01-19]]\n\nWould you like me to summarize the key points from any specific meeting?",
-			timestamp: new Date(Date.now() - 120000), // 2 minutes ago
-		},
-		{
-			id: crypto.randomUUID(),
-			sender: "user",
-			text: "Show me the action items from the team standup",
-			timestamp: new Date(Date.now() - 60000), // 1 minute ago
+	const sharedState = useSharedState();
+	const [conversations] = useChatHistory();
+	const { currentConversation } = useCurrentConversation();
+	const {
+		createConversation,
+		switchConversation,
+		deleteConversation,
+		updateConversationTitle,
+		addMessageToConversation,
+	} = useConversationManager();
+
+	// Set while a request is running, including while its answer streams in
+	const [isProcessing, setIsProcessing] = useState(false);
+	const [streamingReply, setStreamingReply] = useState<{
+		conversationId: string;
+		text: string;
+	} | null>(null);
+	const abortControllerRef = useRef<AbortController | null>(null);
+
+	// Stop any running request when the view closes
+	useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+	// File operations the agents are waiting on the user to approve
+	const [approvals, setApprovals] = useState<ApprovalState[]>([]);
+
+	useEffect(
+		() =>
+			plugin.intelligenceService?.onApprovalChange((event) => {
+				if (event.type === "requested") {
+					setApprovals((prev) => [...prev, { request: event.request }]);
+				} else {
+					setApprovals((prev) =>
+						prev.map((approval) =>
+							approval.request.id === event.requestId
+								? { ...approval, result: event.result }
+								: approval
+						)
+					);
+				}
+			}),
+		[plugin]
+	);
+
+	const handleApprove = useCallback(
+		async (requestId: string, allowFutureAuto: boolean) => {
+			try {
+				await plugin.intelligenceService.approvePendingOperation(requestId, allowFutureAuto);
+			} catch (error) {
+				console.error("Failed to approve operation:", error);
+				new Notice("This operation is no longer waiting for approval.");
+			}
 		},
-		{
-			id: crypto.randomUUID(),
-			sender: "ai",
-			text: "Here are the action items from the Team Standup meeting on January 15:\n\n## Action Items\n\n### High Priority\n- [ ] **Sarah**: Complete API documentation by Friday\n- [ ] **Mike**: Review and merge feature branch #247\n- [ ] **Team**: Finalize sprint backlog items (due Wednesday)\n\n### Medium Priority\n- [ ] **Alex**: Update project timeline in Notion\n- [ ] **Sarah**: Schedule client demo for next week\n- [ ] **Mike**: Investigate performance bottleneck in user dashboard\n\n### Follow-up\n- [ ] **All**: Prepare individual progress reports for Friday\n- [ ] **Team Lead**: Send meeting summary to stakeholders\n\n*Last updated: January 15, 2024*\n\nNote: These items were extracted from [[Team Standup 2024-01-15]]. Would you like me to help track the completion status or find related notes?",
-			timestamp: new Date(Date.now() - 30000), // 30 seconds ago
+		[plugin]
+	);
+
+	const handleReject = useCallback(
+		async (requestId: string) => {
+			try {
+				await plugin.intelligenceService.cancelPendingOperation(requestId, "Rejected in chat");
+			} catch (error) {
+				console.error("Failed to reject operation:", error);
+				new Notice("This operation is no longer waiting for approval.");
+			}
 		},
-	]);
+		[plugin]
+	);
+
+	// Always have a conversation to talk in: resume the latest or start one
+	useEffect(() => {
+		if (sharedState.getCurrentConversation()) return;
+		const [latest] = [...sharedState.getChatHistory()].sort(
+			(a, b) => b.updatedAt.getTime() - a.updatedAt.getTime()
+		);
+		if (latest) {
+			switchConversation(latest.id);
+		} else {
+			createConversation();
+		}
+	}, [sharedState, currentConversation, switchConversation, createConversation]);
+
+	const uiMessages = useMemo<DisplayMessage[]>(
+		() => [
+			{
+				id: "welcome",
+				sender: "system",
+				text: CHATVIEW_WELCOME_MESSAGE,
+			},
+			...(currentConversation?.messages || []).map((message) => ({
+				id: message.id,
+				sender: message.role === "assistant" ? ("ai" as const) : message.role,
+				text: message.content,
+				timestamp: message.timestamp,
+				citations: message.citations,
+				plan: message.plan,
+				model: message.model,
+			})),
+			// The answer still streaming in, if it belongs to this conversation
+			...(streamingReply && streamingReply.conversationId === currentConversation?.id
+				? [
+					{
+						id: "streaming",
+						sender: "ai" as const,
+						text: streamingReply.text,
+						isStreaming: true,
+					},
+				]
+				: []),
+		],
+		[currentConversation, streamingReply]
+	);
 	// The original status state
 	const [statusState, setStatusState] = useState<StatusState>({
 		status: 'idle',
@@ -75,48 +155,70 @@ function ChatView({ plugin, app }: ChatViewProps) {
 		setStatusState({ status: 'idle', message: '', isVisible: false });
 	}, []);
 
-	const addMessageToDisplay = useCallback(
-		(message: { sender: "system" | "user" | "ai"; text: string }) => {
-			const newMessage: DisplayMessage = {
+	const addMessage = useCallback(
+		(
+			conversationId: string,
+			message: Omit<ChatMessage, "id" | "timestamp">
+		) => {
+			addMessageToConversation(conversationId, {
 				...message,
 				id: crypto.randomUUID(),
 				timestamp: new Date(),
-			};
-			setUiMessages((prev) => [...prev, newMessage]);
+			});
 		},
-		[]
+		[addMessageToConversation]
 	);
 
-	const handleSendMessage = useCallback(
-		async (
-			rawInputText: string,
-			_mode: "agent" | "chat",
-			_ragEnabled: boolean
-		) => {
-			if (!rawInputText.trim()) return;
-			// Step 1: Extract semantic query and metadata filters from the input text
-			const { semanticQuery, metadataFilters } =
-				parseFiltersFromPrompt(rawInputText);
-			// Step 2: Add the user message to the display
-			addMessageToDisplay({ sender: "user", text: rawInputText });
-			// Step 3: Update chat history with the user message
-			if (semanticQuery) {
-				setChatHistory((prev) => [
-					...prev,
-					{ type: "human", content: semanticQuery },
-				]);
+	const saveConversationNote = useCallback(
+		async (conversationId: string, notify: boolean) => {
+			const conversation = sharedState
+				.getChatHistory()
+				.find((conv) => conv.id === conversationId);
+			if (!conversation || conversation.messages.length === 0) {
+				if (notify) new Notice("Nothing to save yet.");
+				return;
 			}
-			// Step 4: Set status to thinking
+
+			try {
+				const store = new ConversationNoteStore(app, {
+					folder: plugin.settings.chatNotesFolder,
+				});
+				const file = await store.save(conversation);
+				if (conversation.notePath !== file.path) {
+					sharedState.updateConversation(conversationId, { notePath: file.path });
+				}
+				if (notify) new Notice(`Chat saved to ${file.path}`);
+			} catch (error) {
+				console.error("Failed to save chat note:", error);
+				new Notice(
+					`Failed to save chat: ${error instanceof Error ? error.message : String(error)}`
+				);
+			}
+		},
+		[sharedState, app, plugin]
+	);
+
+	/**
+	 * Run a request against the intelligence service, streaming its answer
+	 * into the conversation. Returns the result, or null if none arrived.
+	 */
+	const runRequest = useCallback(
+		async (
+			conversationId: string,
+			request: (options: QueryOptions) => Promise<QueryResult | null>
+		): Promise<QueryResult | null> => {
 			setStatus('thinking', 'AI is thinking...');
-			// Step 5: Process the query with the intelligence service
+			setIsProcessing(true);
+			const abortController = new AbortController();
+			abortControllerRef.current = abortController;
 			try {
 				if (!plugin.settings.openAIApiKey) {
 					clearStatus();
-					addMessageToDisplay({
-						sender: "system",
-						text: "API Key not set. Please configure it in the plugin settings.",
+					addMessage(conversationId, {
+						role: "system",
+						content: "API Key not set. Please configure it in the plugin settings.",
 					});
-					return;
+					return null;
 				}
 
 				if (
@@ -124,73 +226,276 @@ function ChatView({ plugin, app }: ChatViewProps) {
 					!plugin.intelligenceService.getIsInitialized()
 				) {
 					clearStatus();
-					addMessageToDisplay({
-						sender: "system",
-						text: "Intelligence service not initialized. Please wait or try re-initializing from plugin settings.",
+					addMessage(conversationId, {
+						role: "system",
+						content: "Intelligence service not initialized. Please wait or try re-initializing from plugin settings.",
 					});
-					return;
+					return null;
 				}
 
-				const historyForChain = semanticQuery
-					? chatHistory.slice(0, -1)
-					: [...chatHistory];
-
 				// Update status to generating
 				setStatus('generating', 'Generating response...');
+				let hasStartedStreaming = false;
 
-				const aiResponseText =
-					await plugin.intelligenceService.processQueryWithHistory(
-						semanticQuery,
-						historyForChain,
-						metadataFilters
-					);
+				const result = await request({
+					conversationId,
+					signal: abortController.signal,
+					onToken: (chunk) => {
+						// The answer replaces the status once it starts arriving
+						if (!hasStartedStreaming) {
+							hasStartedStreaming = true;
+							clearStatus();
+						}
+						setStreamingReply((prev) => ({
+							conversationId,
+							text: (prev?.text || "") + chunk,
+						}));
+					},
+				});
+				setStreamingReply(null);
 
-				if (aiResponseText) {
+				if (result?.content) {
 					// Clear status before showing AI response
 					clearStatus();
-					addMessageToDisplay({
-						sender: "ai",
-						text: aiResponseText,
+					addMessage(conversationId, {
+						role: "assistant",
+						content: result.content,
+						agentsUsed: result.agentsUsed,
+						citations: result.citations,
+						sources: [...new Set(result.citations.map((citation) => citation.path))],
+						model: result.model,
+						plan: result.plan,
 					});
-					if (semanticQuery) {
-						setChatHistory((prev) => [
-							...prev,
-							{ type: "ai", content: aiResponseText },
-						]);
+					if (result.stopped) {
+						addMessage(conversationId, { role: "system", content: "Response stopped." });
 					}
+					if (plugin.settings.autoSaveChatNotes) {
+						await saveConversationNote(conversationId, false);
+					}
+				} else if (result?.stopped) {
+					clearStatus();
+					addMessage(conversationId, { role: "system", content: "Response stopped." });
 				} else {
 					clearStatus();
-					addMessageToDisplay({
-						sender: "system",
-						text: "No specific answer generated.",
+					addMessage(conversationId, {
+						role: "system",
+						content: "No specific answer generated.",
 					});
 				}
+				return result;
 			} catch (error: unknown) {
 				console.error("Error processing query in ChatView:", error);
+				setStreamingReply(null);
 				clearStatus();
-				addMessageToDisplay({
-					sender: "system",
-					text: `An error occurred: ${
+				addMessage(conversationId, {
+					role: "system",
+					content: `An error occurred: ${
 						error instanceof Error ? error.message : "Unknown error"
 					}. Check the console for more details.`,
 				});
+				return null;
+			} finally {
+				abortControllerRef.current = null;
+				setIsProcessing(false);
 			}
 		},
-		[chatHistory, plugin, addMessageToDisplay, setStatus, clearStatus]
+		[plugin, addMessage, saveConversationNote, setStatus, clearStatus]
+	);
+
+	const handleSendMessage = useCallback(
+		async (
+			rawInputText: string,
+			_mode: "agent" | "chat",
+			_ragEnabled: boolean,
+			dryRun: boolean
+		) => {
+			if (!rawInputText.trim() || !currentConversation) return;
+			// Replies go to the conversation the question was asked in
+			const conversationId = currentConversation.id;
+			// Step 1: Extract semantic query and metadata filters from the input text
+			const { semanticQuery, metadataFilters, filterExpression } =
+				parseFiltersFromPrompt(rawInputText);
+			// Step 2: Build the history from the conversation so far
+			const historyForChain: LangChainChatMessage[] = currentConversation.messages
+				.filter((message) => message.role !== "system")
+				.map((message) => ({
+					type: message.role === "user" ? ("human" as const) : ("ai" as const),
+					content: message.role === "user" ? message.query ?? message.content : message.content,
+				}))
+				.filter((message) => message.content.trim() !== "");
+			// Step 3: Add the user message to the conversation
+			addMessage(conversationId, {
+				role: "user",
+				content: rawInputText,
+				query: semanticQuery,
+			});
+			// Drop approvals decided during earlier requests
+			setApprovals((prev) => prev.filter((approval) => !approval.result));
+			// Step 4: Process the query with the intelligence service
+			await runRequest(conversationId, (options) =>
+				plugin.intelligenceService.processQueryWithHistory(
+					semanticQuery,
+					historyForChain,
+					metadataFilters,
+					{ ...options, filterExpression, dryRun }
+				)
+			);
+		},
+		[currentConversation, plugin, addMessage, runRequest]
 	);
 
+	/**
+	 * Update the plan shown in a conversation's message
+	 */
+	const updatePlanMessage = useCallback(
+		(conversationId: string, messageId: string, updates: Partial<PlanPreview>) => {
+			const conversation = sharedState
+				.getChatHistory()
+				.find((conv) => conv.id === conversationId);
+			if (!conversation) return;
+			sharedState.updateConversation(conversationId, {
+				messages: conversation.messages.map((message) =>
+					message.id === messageId && message.plan
+						? { ...message, plan: { ...message.plan, ...updates } }
+						: message
+				),
+			});
+		},
+		[sharedState]
+	);
+
+	/**
+	 * Run a plan shown in one of the conversation's messages, recording its
+	 * status on that message
+	 */
+	const runPlanMessage = useCallback(
+		async (
+			messageId: string,
+			updates: Partial<PlanPreview>,
+			request: (planId: string, options: QueryOptions) => Promise<QueryResult | null>
+		) => {
+			if (!currentConversation) return;
+			const conversationId = currentConversation.id;
+			const plan = currentConversation.messages.find((message) => message.id === messageId)?.plan;
+			if (!plan) return;
+
+			updatePlanMessage(conversationId, messageId, { ...updates, status: "running" });
+			setApprovals((prev) => prev.filter((approval) => !approval.result));
+			const result = await runRequest(conversationId, (options) => request(plan.id, options));
+			updatePlanMessage(conversationId, messageId, {
+				status: result?.stopped ? "cancelled" : result && !result.error ? "completed" : "failed",
+			});
+		},
+		[currentConversation, updatePlanMessage, runRequest]
+	);
+
+	/**
+	 * Run a previewed plan with the user's edits
+	 */
+	const handleRunPlan = useCallback(
+		(messageId: string, edits: PlanEdits) =>
+			runPlanMessage(messageId, { mode: edits.mode, selectedTaskIds: edits.taskIds }, (planId, options) =>
+				plugin.intelligenceService.runPlan(planId, edits, options)
+			),
+		[plugin, runPlanMessage]
+	);
+
+	/**
+	 * Resume an interrupted plan from its last completed task
+	 */
+	const handleResumePlan = useCallback(
+		(messageId: string) =>
+			runPlanMessage(messageId, {}, (planId, options) =>
+				plugin.intelligenceService.resumePlan(planId, options)
+			),
+		[plugin, runPlanMessage]
+	);
+
+	const handleCancelPlan = useCallback(
+		async (messageId: string) => {
+			if (!currentConversation) return;
+			const plan = currentConversation.messages.find((message) => message.id === messageId)?.plan;
+			if (!plan) return;
+
+			try {
+				await plugin.intelligenceService.cancelPlan(plan.id);
+				updatePlanMessage(currentConversation.id, messageId, { status: "cancelled" });
+			} catch (error) {
+				console.error("Failed to cancel plan:", error);
+				new Notice("Couldn't cancel the plan.");
+			}
+		},
+		[currentConversation, plugin, updatePlanMessage]
+	);
+
+	/**
+	 * Offer plans interrupted by a reload for resume on the message that
+	 * showed them, or on a new message in the conversation they ran in
+	 */
+	const showInterruptedPlans = useCallback(
+		(plans: PlanPreview[]) => {
+			for (const plan of plans) {
+				const conversations = sharedState.getChatHistory();
+				const owner = conversations.find((conv) =>
+					conv.messages.some((message) => message.plan?.id === plan.id)
+				);
+				if (owner) {
+					const message = owner.messages.find((msg) => msg.plan?.id === plan.id);
+					if (message) updatePlanMessage(owner.id, message.id, plan);
+					continue;
+				}
+
+				const conversationId =
+					conversations.find((conv) => conv.id === plan.conversationId)?.id ||
+					sharedState.getCurrentConversation()?.id;
+				if (!conversationId) continue;
+				addMessage(conversationId, {
+					role: "assistant",
+					content: "This plan was interrupted before it finished. Resume it to run the remaining tasks, or cancel it.",
+					plan,
+				});
+			}
+		},
+		[sharedState, addMessage, updatePlanMessage]
+	);
+
+	useEffect(() => {
+		const service = plugin.intelligenceService;
+		if (!service) return;
+		// Plans found before this view opened, and those found once the service is ready
+		void service.getInterruptedPlans().then(showInterruptedPlans);
+		return service.onInterruptedPlans(showInterruptedPlans);
+	}, [plugin, showInterruptedPlans]);
+
+	const handleStop = useCallback(() => {
+		abortControllerRef.current?.abort();
+		// An operation still awaiting approval would keep the request alive
+		approvals
+			.filter((approval) => !approval.result)
+			.forEach((approval) => {
+				void plugin.intelligenceService.cancelPendingOperation(
+					approval.request.id,
+					"Response stopped"
+				);
+			});
+	}, [approvals, plugin]);
+
 	const handleClearChat = useCallback(() => {
-		setChatHistory([]);
 		clearStatus();
-		setUiMessages([
-			{
-				id: crypto.randomUUID(),
-				sender: "system",
-				text: "Chat cleared. Ask a new question or type filter keywords.",
-				timestamp: new Date(),
-			},
-		]);
-	}, [clearStatus]);
+		if (currentConversation) {
+			sharedState.updateConversation(currentConversation.id, {
+				messages: [],
+				updatedAt: new Date(),
+			});
+		}
+	}, [sharedState, currentConversation, clearStatus]);
+
+	const handleNewConversation = useCallback(() => {
+		clearStatus();
+		// Reuse an untouched conversation instead of piling up empty ones
+		if (currentConversation && currentConversation.messages.length === 0) return;
+		createConversation();
+	}, [currentConversation, createConversation, clearStatus]);
 
 	const handleOpenTools = useCallback(() => {
 		// Open plugin settings
@@ -207,9 +512,20 @@ function ChatView({ plugin, app }: ChatViewProps) {
 			<div className="h-full flex flex-col bg-background text-foreground">
 				{/* Header */}
 				<ChatHeader
+					conversations={conversations}
+					currentConversation={currentConversation}
+					onNewConversation={handleNewConversation}
+					onSelectConversation={switchConversation}
+					onRenameConversation={updateConversationTitle}
+					onDeleteConversation={deleteConversation}
 					onClearChat={handleClearChat}
+					onSaveToVault={() => {
+						if (currentConversation) {
+							void saveConversationNote(currentConversation.id, true);
+						}
+					}}
 					onOpenSettings={handleOpenSettings}
-					isProcessing={statusState.isVisible}
+					isProcessing={isProcessing}
 				/>
 
 				{/* Messages */}
@@ -218,13 +534,21 @@ function ChatView({ plugin, app }: ChatViewProps) {
 					app={app}
 					plugin={plugin}
 					statusState={statusState}
+					approvals={approvals}
+					onApprove={(requestId, allowFutureAuto) => void handleApprove(requestId, allowFutureAuto)}
+					onReject={(requestId) => void handleReject(requestId)}
+					onRunPlan={(messageId, edits) => void handleRunPlan(messageId, edits)}
+					onResumePlan={(messageId) => void handleResumePlan(messageId)}
+					onCancelPlan={(messageId) => void handleCancelPlan(messageId)}
+					isProcessing={isProcessing}
 				/>
 
 				{/* Chat Control */}
 				<div className="mt-2 border-t border-border bg-background">
 					<ChatControl
 						onSendMessage={handleSendMessage}
-						isSending={statusState.isVisible}
+						isSending={isProcessing}
+						onStop={handleStop}
 						onOpenTools={handleOpenTools}
 						app={app}
 					/>
@@ -1,5 +1,21 @@
 import { App, PluginSettingTab, Setting, Notice } from "obsidian";
 import IntelligencePlugin from "../main";
+import {
+	ChatModels,
+	EMBEDDING_PROVIDER_BASE_URLS,
+	EmbeddingModelProviders,
+	KEYLESS_EMBEDDING_PROVIDERS,
+	SUPPORTED_EMBEDDING_PROVIDERS,
+} from "../constants";
+import type { EmbeddingMethod } from "../mastra/embeddings/HybridEmbeddingManager";
+import { parseSafetyPolicy, SAFETY_POLICY_ACTIONS } from "../mastra/safety/SafetyPolicy";
+import { formatCost } from "../mastra/usage/ModelPrices";
+import type { UsageSummary } from "../mastra/usage/UsageLedger";
+import { AGENT_MODEL_ROLES } from "../mastra/agents/ModelRouting";
+import type { AgentModelRole, UsageBudgets } from "../types";
+
+// Days of usage shown in the dashboard
+const USAGE_DAYS = 30;
 
 class SettingsTab extends PluginSettingTab {
 	plugin: IntelligencePlugin;
@@ -44,12 +60,213 @@ class SettingsTab extends PluginSettingTab {
 				});
 			});
 
-		// Info about embedding method
-		containerEl.createEl("div", {
-			cls: "setting-item-description",
-			text: "This plugin uses OpenAI's text-embedding-3-small model for fast, high-quality semantic search. An OpenAI API key is required.",
+		containerEl.createEl("h3", { text: "Models" });
+
+		new Setting(containerEl)
+			.setName("Chat model")
+			.setDesc("Model of every agent without a model of its own below.")
+			.addDropdown((dropdown) => {
+				for (const model of Object.values(ChatModels)) {
+					dropdown.addOption(model, model);
+				}
+				dropdown
+					.setValue(this.plugin.settings.chatModel)
+					.onChange(async (value) => {
+						this.plugin.settings.chatModel = value;
+						await this.saveAndReinitialize("Model settings");
+						this.display();
+					});
+			});
+
+		for (const [role, name] of Object.entries(AGENT_MODEL_ROLES) as [AgentModelRole, string][]) {
+			new Setting(containerEl)
+				.setName(`${name} agent`)
+				.setDesc(role === "controller" ? "Writes the answer from the results of a multi-step plan." : "")
+				.addDropdown((dropdown) => {
+					dropdown.addOption("", `Chat model (${this.plugin.settings.chatModel})`);
+					for (const model of Object.values(ChatModels)) {
+						dropdown.addOption(model, model);
+					}
+					dropdown
+						.setValue(this.plugin.settings.agentModels[role] || "")
+						.onChange(async (value) => {
+							this.plugin.settings.agentModels = {
+								...this.plugin.settings.agentModels,
+								[role]: value || undefined,
+							};
+							await this.saveAndReinitialize("Model settings");
+						});
+				});
+		}
+
+		new Setting(containerEl)
+			.setName("Planning model")
+			.setDesc("Breaks requests into tasks and revises plans. A smaller model keeps planning cheap.")
+			.addDropdown((dropdown) => {
+				for (const model of Object.values(ChatModels)) {
+					dropdown.addOption(model, model);
+				}
+				dropdown
+					.setValue(this.plugin.settings.plannerModel)
+					.onChange(async (value) => {
+						this.plugin.settings.plannerModel = value;
+						await this.saveAndReinitialize("Model settings");
+					});
+			});
+
+		// Embedding provider settings
+		containerEl.createEl("h3", { text: "Embeddings" });
+
+		new Setting(containerEl)
+			.setName("Embedding method")
+			.setDesc(
+				"Auto uses the provider below and falls back to local TensorFlow.js or TF-IDF embeddings when it is unreachable. Each method keeps its own index."
+			)
+			.addDropdown((dropdown) => {
+				dropdown
+					.addOption("auto", "Auto (remote, then local)")
+					.addOption("openai", "Remote provider only")
+					.addOption("tensorflow", "TensorFlow.js (local)")
+					.addOption("tfidf", "TF-IDF (local, fastest)")
+					.setValue(this.plugin.settings.embeddingMethod || "auto")
+					.onChange(async (value) => {
+						this.plugin.settings.embeddingMethod = value as EmbeddingMethod;
+						await this.saveAndReinitialize("Embedding settings");
+					});
+			});
+
+		new Setting(containerEl)
+			.setName("Embedding provider")
+			.setDesc(
+				"OpenAI, or a local/self-hosted server with an OpenAI-compatible /embeddings endpoint."
+			)
+			.addDropdown((dropdown) => {
+				for (const provider of SUPPORTED_EMBEDDING_PROVIDERS) {
+					dropdown.addOption(provider, provider);
+				}
+				dropdown
+					.setValue(this.plugin.settings.embeddingProvider)
+					.onChange(async (value) => {
+						this.plugin.settings.embeddingProvider =
+							value as EmbeddingModelProviders;
+						await this.saveAndReinitialize("Embedding settings");
+						this.display();
+					});
+			});
+
+		const provider = this.plugin.settings.embeddingProvider;
+		this.addEmbeddingText(
+			containerEl,
+			"Base URL",
+			"API root of the embedding server. Leave empty to use the provider default.",
+			EMBEDDING_PROVIDER_BASE_URLS[provider] || "http://localhost:8080/v1",
+			"embeddingBaseUrl"
+		);
+		this.addEmbeddingText(
+			containerEl,
+			"Embedding model",
+			"Model name sent to the server. Dimensions are detected automatically; changing the model rebuilds the index.",
+			"text-embedding-3-small",
+			"embeddingModel"
+		);
+		this.addEmbeddingText(
+			containerEl,
+			"Embedding API key",
+			KEYLESS_EMBEDDING_PROVIDERS.includes(provider)
+				? "Optional for this provider."
+				: "Leave empty to reuse the OpenAI API key.",
+			"",
+			"embeddingApiKey",
+			true
+		);
+
+		containerEl.createEl("h3", { text: "Chat notes" });
+
+		new Setting(containerEl)
+			.setName("Chat notes folder")
+			.setDesc("Conversations saved to the vault are written to this folder.")
+			.addText((text) => {
+				text.setPlaceholder("Intelligence Chats").setValue(
+					this.plugin.settings.chatNotesFolder
+				);
+				text.inputEl.addEventListener("blur", async () => {
+					const value = text.getValue().trim() || "Intelligence Chats";
+					if (this.plugin.settings.chatNotesFolder !== value) {
+						this.plugin.settings.chatNotesFolder = value;
+						await this.plugin.saveSettings(false);
+					}
+				});
+			});
+
+		new Setting(containerEl)
+			.setName("Auto-save chats")
+			.setDesc("Save the conversation note after every answer.")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.autoSaveChatNotes)
+					.onChange(async (value) => {
+						this.plugin.settings.autoSaveChatNotes = value;
+						await this.plugin.saveSettings(false);
+					})
+			);
+
+		containerEl.createEl("h3", { text: "Agent safety" });
+
+		const policySetting = new Setting(containerEl)
+			.setName("File policy")
+			.setDesc(
+				`One "<glob> <action>" rule per line; the first match wins. Actions: ${Object.entries(
+					SAFETY_POLICY_ACTIONS
+				)
+					.map(([action, description]) => `${action} (${description})`)
+					.join(", ")}.`
+			)
+			.addTextArea((text) => {
+				text.setPlaceholder("Journal/** read-only\nTemplates/** require-approval\nInbox/** allow-create")
+					.setValue(this.plugin.settings.safetyPolicy);
+				text.inputEl.rows = 5;
+				text.inputEl.addEventListener("blur", async () => {
+					const value = text.getValue();
+					const { rules, errors } = parseSafetyPolicy(value);
+					policyErrorsEl.setText(errors.join("\n"));
+					if (this.plugin.settings.safetyPolicy !== value) {
+						this.plugin.settings.safetyPolicy = value;
+						await this.plugin.saveSettings(false);
+						this.plugin.intelligenceService?.setSafetyPolicyRules(rules);
+					}
+				});
+			});
+		const policyErrorsEl = policySetting.descEl.createDiv({
+			cls: "mod-warning",
+			text: parseSafetyPolicy(this.plugin.settings.safetyPolicy).errors.join("\n"),
 		});
 
+		containerEl.createEl("h3", { text: "Usage and budgets" });
+
+		this.addBudgetSetting(
+			containerEl,
+			"Per request",
+			"Tokens and estimated dollars one request may use. A plan stops before its next task once either is reached; 0 means no limit.",
+			"requestTokens",
+			"requestCost"
+		);
+		this.addBudgetSetting(
+			containerEl,
+			"Per conversation",
+			"Limits across all requests of a conversation.",
+			"conversationTokens",
+			"conversationCost"
+		);
+		this.addBudgetSetting(
+			containerEl,
+			"Per day",
+			"Limits across all conversations, resetting at midnight.",
+			"dailyTokens",
+			"dailyCost"
+		);
+
+		this.renderUsage(containerEl);
+
 		// My Original Setting
 		new Setting(containerEl)
 			.setName("My Original Setting")
@@ -70,6 +287,134 @@ class SettingsTab extends PluginSettingTab {
 			text: "These settings are saved automatically when you change them. The plugin will reinitialize with the new settings.",
 		});
 	}
+
+	/**
+	 * Text setting for an embedding option, saved on blur like the API key
+	 */
+	private addEmbeddingText(
+		containerEl: HTMLElement,
+		name: string,
+		desc: string,
+		placeholder: string,
+		key: "embeddingBaseUrl" | "embeddingModel" | "embeddingApiKey",
+		secret = false
+	): void {
+		new Setting(containerEl)
+			.setName(name)
+			.setDesc(desc)
+			.addText((text) => {
+				text.setPlaceholder(placeholder).setValue(
+					this.plugin.settings[key] || ""
+				);
+				if (secret) {
+					text.inputEl.type = "password";
+				}
+				text.inputEl.addEventListener("blur", async () => {
+					const value = text.getValue().trim();
+					if (this.plugin.settings[key] !== value) {
+						this.plugin.settings[key] = value;
+						await this.saveAndReinitialize("Embedding settings");
+					}
+				});
+			});
+	}
+
+	/**
+	 * A token and a dollar budget side by side, saved on blur
+	 */
+	private addBudgetSetting(
+		containerEl: HTMLElement,
+		name: string,
+		desc: string,
+		tokensKey: keyof UsageBudgets,
+		costKey: keyof UsageBudgets
+	): void {
+		const setting = new Setting(containerEl).setName(name).setDesc(desc);
+		for (const [key, placeholder] of [
+			[tokensKey, "Tokens"],
+			[costKey, "USD"],
+		] as const) {
+			setting.addText((text) => {
+				text.setPlaceholder(placeholder).setValue(
+					String(this.plugin.settings.usageBudgets[key] || "")
+				);
+				text.inputEl.type = "number";
+				text.inputEl.min = "0";
+				text.inputEl.setAttribute("aria-label", `${name} budget in ${placeholder.toLowerCase()}`);
+				text.inputEl.addEventListener("blur", async () => {
+					const value = Math.max(0, Number(text.getValue()) || 0);
+					if (this.plugin.settings.usageBudgets[key] !== value) {
+						this.plugin.settings.usageBudgets = {
+							...this.plugin.settings.usageBudgets,
+							[key]: value,
+						};
+						await this.plugin.saveSettings(false);
+						this.plugin.intelligenceService?.setUsageBudgets(this.plugin.settings.usageBudgets);
+					}
+				});
+			});
+		}
+	}
+
+	/**
+	 * Tokens and estimated cost of the last days, by day, model and agent
+	 */
+	private renderUsage(containerEl: HTMLElement): void {
+		const ledger = this.plugin.intelligenceService?.getUsageLedger();
+		if (!ledger) {
+			containerEl.createEl("p", {
+				cls: "setting-item-description",
+				text: "Usage is shown once the agents are running.",
+			});
+			return;
+		}
+
+		const summary = ledger.getSummary(USAGE_DAYS);
+		new Setting(containerEl)
+			.setName(`Last ${USAGE_DAYS} days`)
+			.setDesc(
+				summary.total.calls === 0
+					? "No agent usage yet."
+					: `${summary.total.totalTokens.toLocaleString()} tokens in ${summary.total.calls} model calls, about ${formatCost(summary.total.cost)}.`
+			)
+			.addExtraButton((button) =>
+				button
+					.setIcon("refresh-cw")
+					.setTooltip("Refresh")
+					.onClick(() => this.display())
+			);
+		if (summary.total.calls === 0) return;
+
+		this.renderUsageTable(containerEl, "Day", summary.byDay);
+		this.renderUsageTable(containerEl, "Model", summary.byModel);
+		this.renderUsageTable(containerEl, "Agent", summary.byAgent);
+	}
+
+	private renderUsageTable(containerEl: HTMLElement, label: string, rows: UsageSummary["byDay"]): void {
+		const table = containerEl.createEl("table", { cls: "w-full mb-4 text-sm" });
+		const header = table.createEl("thead").createEl("tr");
+		for (const title of [label, "Calls", "Tokens", "Est. cost"]) {
+			header.createEl("th", { cls: "text-left", text: title });
+		}
+
+		const body = table.createEl("tbody");
+		for (const row of rows) {
+			const cells = body.createEl("tr");
+			cells.createEl("td", { text: row.key });
+			cells.createEl("td", { text: String(row.calls) });
+			cells.createEl("td", { text: row.totalTokens.toLocaleString() });
+			cells.createEl("td", { text: formatCost(row.cost) });
+		}
+	}
+
+	private async saveAndReinitialize(what: string): Promise<void> {
+		new Notice(`${what} updated. Reinitializing system...`);
+		// Saving would reinitialize the service too; do it once, here
+		await this.plugin.saveSettings(false);
+		if (this.plugin.intelligenceService) {
+			await this.plugin.intelligenceService.reInitialize();
+		}
+	}
 }
 
 export default SettingsTab;
@@ -0,0 +1,110 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Check, CheckCheck, ShieldAlert, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { ApprovalRequest, ApprovalResult } from "../../mastra/agents/types";
+
+export interface ApprovalState {
+	request: ApprovalRequest;
+	result?: ApprovalResult;
+}
+
+interface ApprovalCardProps {
+	approval: ApprovalState;
+	onApprove: (requestId: string, allowFutureAuto: boolean) => void;
+	onReject: (requestId: string) => void;
+}
+
+const RISK_STYLES: Record<ApprovalRequest["riskLevel"], string> = {
+	low: "bg-muted text-muted-foreground",
+	medium: "approval-risk-medium",
+	high: "approval-risk-high",
+};
+
+const getDiffLineClass = (line: string) => {
+	if (line.startsWith("@@")) return "approval-diff-hunk";
+	if (line.startsWith("+++") || line.startsWith("---")) return "approval-diff-header";
+	if (line.startsWith("+")) return "approval-diff-added";
+	if (line.startsWith("-")) return "approval-diff-removed";
+	return undefined;
+};
+
+/**
+ * A file operation waiting for the user's decision, with a diff of each change
+ */
+function ApprovalCard({ approval, onApprove, onReject }: ApprovalCardProps) {
+	const { request, result } = approval;
+	const changes = request.previewData.changes;
+
+	return (
+		<div
+			className="mr-auto w-full max-w-[95%] rounded-lg border border-border px-3 py-2 message-fade-in"
+			style={{ backgroundColor: "var(--background-modifier-hover)" }}
+			role="group"
+			aria-label={`Approval required: ${request.operation}`}
+		>
+			<div className="flex items-center gap-2">
+				<ShieldAlert className="h-4 w-4 shrink-0" />
+				<span className="flex-1 min-w-0 truncate text-sm font-medium">
+					{request.operation}
+				</span>
+				<span className={cn("rounded-full px-2 text-xs", RISK_STYLES[request.riskLevel])}>
+					{request.riskLevel} risk
+				</span>
+			</div>
+			<p className="mt-1 mb-2 text-xs text-muted-foreground">{request.reasoning}</p>
+
+			{changes.map((change) => (
+				<div key={change.filePath} className="mb-2">
+					<div className="text-xs">
+						<span className="uppercase text-muted-foreground">{change.changeType}</span>{" "}
+						{change.filePath}
+					</div>
+					{change.diff ? (
+						<pre className="approval-diff">
+							{change.diff.split("\n").map((line, index) => (
+								<div key={index} className={getDiffLineClass(line)}>
+									{line || " "}
+								</div>
+							))}
+						</pre>
+					) : (
+						<div className="text-xs text-muted-foreground">No content changes.</div>
+					)}
+				</div>
+			))}
+
+			{result ? (
+				<div className="text-xs text-muted-foreground" role="status">
+					{result.approved
+						? result.allowFutureAuto
+							? "Approved. Further operations this session are approved automatically."
+							: "Approved."
+						: `Rejected: ${result.reason || "not approved"}`}
+				</div>
+			) : (
+				<div className="flex flex-wrap gap-2">
+					<Button size="sm" onClick={() => onApprove(request.id, false)} title="Approve this operation">
+						<Check className="h-3 w-3 mr-1" />
+						Approve
+					</Button>
+					<Button
+						variant="ghost"
+						size="sm"
+						onClick={() => onApprove(request.id, true)}
+						title="Approve this and further operations until the session ends"
+					>
+						<CheckCheck className="h-3 w-3 mr-1" />
+						Approve all this session
+					</Button>
+					<Button variant="ghost" size="sm" onClick={() => onReject(request.id)} title="Reject this operation">
+						<X className="h-3 w-3 mr-1" />
+						Reject
+					</Button>
+				</div>
+			)}
+		</div>
+	);
+}
+
+export default ApprovalCard;
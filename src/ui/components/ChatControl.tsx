@@ -15,23 +15,26 @@ import {
 	SelectTrigger,
 	SelectValue,
 } from "@/components/ui/select";
-import { SendHorizontal, Settings2, FileText, Link } from "lucide-react";
+import { SendHorizontal, Settings2, FileText, Link, ListChecks, Square } from "lucide-react";
 import { useSuggestions } from "../hooks/useSuggestions";
 import SuggestionPopover, { SuggestionItem } from "./SuggestionPopover";
-import { FilterSignature } from "../../filters";
+import { FilterOperator, FilterSignature } from "../../filters";
 
 interface ChatControlProps {
 	onSendMessage: (
 		message: string,
 		mode: "agent" | "chat",
-		ragEnabled: boolean
+		ragEnabled: boolean,
+		dryRun: boolean
 	) => void;
 	isSending: boolean;
+	onStop?: () => void;
 	onOpenTools?: () => void;
 	app: App;
 }
 
-type RagMode = "vault" | "web" | "none";
+// "plan" answers from the vault too, but previews the agents' plan before running it
+type RagMode = "vault" | "web" | "none" | "plan";
 
 const MAX_TEXTAREA_HEIGHT_LINES = 7;
 const LINE_HEIGHT = 1.2 * 16;
@@ -40,6 +43,7 @@ const MIN_TEXTAREA_HEIGHT = 35; // px - single line: 14px text + 8px top padding
 function ChatControl({
 	onSendMessage,
 	isSending,
+	onStop,
 	onOpenTools,
 	app,
 }: ChatControlProps) {
@@ -84,6 +88,16 @@ function ChatControl({
 					break;
 				}
 
+				case "operator": {
+					const operatorData = suggestion.data as FilterOperator;
+					replacementText = operatorData.insertText;
+					// Place the cursor inside a new group
+					newCursorPos =
+						startPos +
+						(operatorData.insertText === "()" ? 1 : replacementText.length);
+					break;
+				}
+
 				case "fileName": {
 					const fileData = suggestion.data as TFile;
 					replacementText = `[[${fileData.basename}]]`;
@@ -188,7 +202,7 @@ function ChatControl({
 
 	const handleSend = () => {
 		if (inputValue.trim()) {
-			onSendMessage(inputValue.trim(), chatMode, ragMode !== "none");
+			onSendMessage(inputValue.trim(), chatMode, ragMode !== "none", ragMode === "plan");
 			setInputValue("");
 			suggestions.hideSuggestions();
 		}
@@ -239,6 +253,11 @@ function ChatControl({
 			label: "Agent",
 			icon: <FileText className="mr-2 h-4 w-4" />,
 		},
+		{
+			value: "plan",
+			label: "Plan",
+			icon: <ListChecks className="mr-2 h-4 w-4" />,
+		},
 		{
 			value: "none",
 			label: "Ask",
@@ -325,20 +344,34 @@ function ChatControl({
 						</Button>
 					)}
 				</div>
-				{/* Right side: send button */}
+				{/* Right side: send button, or stop while a response is generated */}
 				<div className="right-panel">
-					<Button
-						type="button"
-						size="icon"
-						variant="ghost"
-						className="text-muted-foreground disabled:opacity-50 h-8 w-8 bg-transparent hover:bg-base-40 dark:hover:bg-base-40 !shadow-none"
-						onClick={handleSend}
-						disabled={isSending || !inputValue.trim()}
-						aria-label="Send message"
-						title="Send message"
-					>
-						<SendHorizontal className="h-5 w-5" />
-					</Button>
+					{isSending && onStop ? (
+						<Button
+							type="button"
+							size="icon"
+							variant="ghost"
+							className="text-muted-foreground h-8 w-8 bg-transparent hover:bg-base-40 dark:hover:bg-base-40 !shadow-none"
+							onClick={onStop}
+							aria-label="Stop response"
+							title="Stop response"
+						>
+							<Square className="h-4 w-4" />
+						</Button>
+					) : (
+						<Button
+							type="button"
+							size="icon"
+							variant="ghost"
+							className="text-muted-foreground disabled:opacity-50 h-8 w-8 bg-transparent hover:bg-base-40 dark:hover:bg-base-40 !shadow-none"
+							onClick={handleSend}
+							disabled={isSending || !inputValue.trim()}
+							aria-label="Send message"
+							title="Send message"
+						>
+							<SendHorizontal className="h-5 w-5" />
+						</Button>
+					)}
 				</div>
 			</div>
 		</div>
@@ -1,48 +1,117 @@
-import React from "react";
+import React, { useState } from "react";
 import { Button } from "@/components/ui/button";
-import { RotateCcw, Settings } from "lucide-react";
+import { FileDown, MessageSquarePlus, PanelLeft, RotateCcw, Settings } from "lucide-react";
+import type { ChatConversation } from "../../state/SharedState";
+import ConversationList from "./ConversationList";
 
 interface ChatHeaderProps {
+	conversations: ChatConversation[];
+	currentConversation: ChatConversation | null;
+	onNewConversation: () => void;
+	onSelectConversation: (id: string) => void;
+	onRenameConversation: (id: string, title: string) => void;
+	onDeleteConversation: (id: string) => void;
 	onClearChat: () => void;
+	onSaveToVault: () => void;
 	onOpenSettings: () => void;
 	isProcessing?: boolean;
 }
 
 function ChatHeader({
+	conversations,
+	currentConversation,
+	onNewConversation,
+	onSelectConversation,
+	onRenameConversation,
+	onDeleteConversation,
 	onClearChat,
+	onSaveToVault,
 	onOpenSettings,
 	isProcessing = false,
 }: ChatHeaderProps) {
+	const [isListOpen, setIsListOpen] = useState(false);
+
 	return (
-		<div className="flex items-center justify-between border-b border-border bg-background">
-			{/* Left side - Title */}
-			<div className="flex items-center space-x-2">
-				<h2 className="mt-2 mb-2">Intelligence Chat</h2>
-			</div>
+		<div className="border-b border-border bg-background">
+			<div className="flex items-center justify-between">
+				{/* Left side - Conversation list toggle and title */}
+				<div className="flex items-center space-x-2 min-w-0">
+					<Button
+						variant="ghost"
+						size="sm"
+						onClick={() => setIsListOpen((open) => !open)}
+						className="text-muted-foreground hover:text-foreground hover:bg-muted"
+						title={isListOpen ? "Hide conversations" : "Show conversations"}
+						aria-expanded={isListOpen}
+					>
+						<PanelLeft className="h-4 w-4" />
+					</Button>
+					<h2 className="mt-2 mb-2 truncate">
+						{currentConversation?.title || "Intelligence Chat"}
+					</h2>
+				</div>
 
-			{/* Right side - Actions */}
-			<div className="flex items-center space-x-2">
-				<Button
-					variant="ghost"
-					size="sm"
-					onClick={onClearChat}
-					disabled={isProcessing}
-					className="text-muted-foreground hover:text-foreground hover:bg-muted"
-					title="Clear chat history"
-				>
-					<RotateCcw className="h-4 w-4" />
-				</Button>
-				<Button
-					variant="ghost"
-					size="sm"
-					onClick={onOpenSettings}
-					disabled={isProcessing}
-					className="text-muted-foreground hover:text-foreground hover:bg-muted"
-					title="Open settings"
-				>
-					<Settings className="h-4 w-4" />
-				</Button>
+				{/* Right side - Actions */}
+				<div className="flex items-center space-x-2">
+					<Button
+						variant="ghost"
+						size="sm"
+						onClick={onNewConversation}
+						disabled={isProcessing}
+						className="text-muted-foreground hover:text-foreground hover:bg-muted"
+						title="New conversation"
+					>
+						<MessageSquarePlus className="h-4 w-4" />
+					</Button>
+					<Button
+						variant="ghost"
+						size="sm"
+						onClick={onSaveToVault}
+						disabled={isProcessing || !currentConversation?.messages.length}
+						className="text-muted-foreground hover:text-foreground hover:bg-muted"
+						title="Save to vault"
+					>
+						<FileDown className="h-4 w-4" />
+					</Button>
+					<Button
+						variant="ghost"
+						size="sm"
+						onClick={onClearChat}
+						disabled={isProcessing}
+						className="text-muted-foreground hover:text-foreground hover:bg-muted"
+						title="Clear chat history"
+					>
+						<RotateCcw className="h-4 w-4" />
+					</Button>
+					<Button
+						variant="ghost"
+						size="sm"
+						onClick={onOpenSettings}
+						disabled={isProcessing}
+						className="text-muted-foreground hover:text-foreground hover:bg-muted"
+						title="Open settings"
+					>
+						<Settings className="h-4 w-4" />
+					</Button>
+				</div>
 			</div>
+
+			{/* Conversation list */}
+			{isListOpen && (
+				<div className="border-t border-border">
+					<ConversationList
+						conversations={conversations}
+						currentConversationId={currentConversation?.id ?? null}
+						onSelect={(id) => {
+							onSelectConversation(id);
+							setIsListOpen(false);
+						}}
+						onRename={onRenameConversation}
+						onDelete={onDeleteConversation}
+						disabled={isProcessing}
+					/>
+				</div>
+			)}
 		</div>
 	);
 }
@@ -5,12 +5,22 @@ import { cn } from "@/lib/utils";
 import StatusMessage, { StatusState } from "./StatusMessage";
 import MessageOperations from "./MessageOperations";
 import { MessageRenderer, type DisplayMessage } from "./MessageRenderer";
+import ApprovalCard, { type ApprovalState } from "./ApprovalCard";
+import PlanPreviewCard from "./PlanPreviewCard";
+import type { PlanEdits } from "../../types";
 
 interface ChatMessagesProps {
 	messages: DisplayMessage[];
 	app: App;
 	plugin: IntelligencePlugin;
 	statusState?: StatusState;
+	approvals?: ApprovalState[];
+	onApprove?: (requestId: string, allowFutureAuto: boolean) => void;
+	onReject?: (requestId: string) => void;
+	onRunPlan?: (messageId: string, edits: PlanEdits) => void;
+	onResumePlan?: (messageId: string) => void;
+	onCancelPlan?: (messageId: string) => void;
+	isProcessing?: boolean;
 }
 
 function ChatMessages({
@@ -18,6 +28,13 @@ function ChatMessages({
 	app,
 	plugin,
 	statusState,
+	approvals = [],
+	onApprove = () => {},
+	onReject = () => {},
+	onRunPlan = () => {},
+	onResumePlan = () => {},
+	onCancelPlan = () => {},
+	isProcessing = false,
 }: ChatMessagesProps) {
 	const messagesContainerRef = useRef<HTMLDivElement>(null);
 
@@ -29,7 +46,7 @@ function ChatMessages({
 				behavior: "smooth"
 			});
 		}
-	}, [messages, statusState?.isVisible]);
+	}, [messages, statusState?.isVisible, approvals.length]);
 
 	const getMessageStyles = (sender: string) => {
 		switch (sender) {
@@ -78,15 +95,33 @@ function ChatMessages({
 								app={app}
 								plugin={plugin}
 							/>
+							{message.plan && (
+								<PlanPreviewCard
+									plan={message.plan}
+									onRun={(edits) => onRunPlan(message.id, edits)}
+									onResume={() => onResumePlan(message.id)}
+									onCancel={() => onCancelPlan(message.id)}
+									disabled={isProcessing}
+								/>
+							)}
 						</div>
 						{/* Only render Message Operations under the AI message */}
-						{message.sender === "ai" && (
+						{message.sender === "ai" && !message.isStreaming && (
 							<MessageOperations message={message} />
 						)}
 						{/* Render operations for user messages */}
 						{/* <MessageOperations message={message} /> */}
 					</div>
 				))}
+				{/* File operations waiting for approval */}
+				{approvals.map((approval) => (
+					<ApprovalCard
+						key={approval.request.id}
+						approval={approval}
+						onApprove={onApprove}
+						onReject={onReject}
+					/>
+				))}
 				{/* Render the status message if statusState is truthy */}
 				{statusState && (
 					<StatusMessage statusState={statusState} />
@@ -0,0 +1,132 @@
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Check, Pencil, Trash2, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { ChatConversation } from "../../state/SharedState";
+
+interface ConversationListProps {
+	conversations: ChatConversation[];
+	currentConversationId: string | null;
+	onSelect: (id: string) => void;
+	onRename: (id: string, title: string) => void;
+	onDelete: (id: string) => void;
+	disabled?: boolean;
+}
+
+function ConversationList({
+	conversations,
+	currentConversationId,
+	onSelect,
+	onRename,
+	onDelete,
+	disabled = false,
+}: ConversationListProps) {
+	const [editingId, setEditingId] = useState<string | null>(null);
+	const [draftTitle, setDraftTitle] = useState("");
+
+	// Most recently active first
+	const sortedConversations = [...conversations].sort(
+		(a, b) => b.updatedAt.getTime() - a.updatedAt.getTime()
+	);
+
+	const startEditing = (conversation: ChatConversation) => {
+		setEditingId(conversation.id);
+		setDraftTitle(conversation.title);
+	};
+
+	const commitEditing = () => {
+		if (editingId && draftTitle.trim()) {
+			onRename(editingId, draftTitle.trim());
+		}
+		setEditingId(null);
+	};
+
+	const handleDelete = (conversation: ChatConversation) => {
+		if (window.confirm(`Delete "${conversation.title}"?`)) {
+			onDelete(conversation.id);
+		}
+	};
+
+	if (sortedConversations.length === 0) {
+		return (
+			<div className="p-3 text-muted-foreground text-xs">
+				No conversations yet.
+			</div>
+		);
+	}
+
+	return (
+		<ul className="max-h-64 overflow-y-auto p-1" role="listbox" aria-label="Conversations">
+			{sortedConversations.map((conversation) => {
+				const isCurrent = conversation.id === currentConversationId;
+				const isEditing = conversation.id === editingId;
+
+				return (
+					<li
+						key={conversation.id}
+						role="option"
+						aria-selected={isCurrent}
+						className={cn(
+							"group flex items-center gap-1 rounded-md px-2 py-1",
+							isCurrent ? "bg-muted text-foreground" : "text-muted-foreground hover:bg-muted"
+						)}
+					>
+						{isEditing ? (
+							<>
+								<input
+									className="flex-1 min-w-0 bg-background text-foreground text-sm"
+									value={draftTitle}
+									autoFocus
+									onChange={(e) => setDraftTitle(e.target.value)}
+									onKeyDown={(e) => {
+										if (e.key === "Enter") commitEditing();
+										if (e.key === "Escape") setEditingId(null);
+									}}
+									aria-label="Conversation title"
+								/>
+								<Button variant="ghost" size="sm" onClick={commitEditing} title="Save title">
+									<Check className="h-3 w-3" />
+								</Button>
+								<Button variant="ghost" size="sm" onClick={() => setEditingId(null)} title="Cancel">
+									<X className="h-3 w-3" />
+								</Button>
+							</>
+						) : (
+							<>
+								<button
+									className="flex-1 min-w-0 truncate text-left text-sm bg-transparent shadow-none p-0"
+									onClick={() => onSelect(conversation.id)}
+									disabled={disabled}
+									title={conversation.title}
+								>
+									{conversation.title}
+								</button>
+								<Button
+									variant="ghost"
+									size="sm"
+									onClick={() => startEditing(conversation)}
+									className="opacity-0 group-hover:opacity-100"
+									title="Rename conversation"
+								>
+									<Pencil className="h-3 w-3" />
+								</Button>
+								<Button
+									variant="ghost"
+									size="sm"
+									onClick={() => handleDelete(conversation)}
+									disabled={disabled && isCurrent}
+									className="opacity-0 group-hover:opacity-100"
+									title="Delete conversation"
+								>
+									<Trash2 className="h-3 w-3" />
+								</Button>
+							</>
+						)}
+					</li>
+				);
+			})}
+		</ul>
+	);
+}
+
+export default ConversationList;
@@ -50,6 +50,11 @@ const MessageOperations = React.memo<MessageOperationsProps>(({
         title="Copy message"
         isActive={isSuccess}
       />
+      {message.model && (
+        <span className="text-xs text-muted-foreground" title="Model">
+          {message.model}
+        </span>
+      )}
       {/* Other operations can be added here */}
     </div>
   );
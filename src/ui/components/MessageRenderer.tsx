@@ -1,10 +1,62 @@
-import React, { useEffect, useRef } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import { MarkdownRenderer, App } from "obsidian";
 import IntelligencePlugin from "../../main";
-import { UIMessage } from "../../types";
+import { Citation, PlanPreview, UIMessage } from "../../types";
+import { openNoteAtLines } from "../../obsidianUtils";
 
 interface DisplayMessage extends UIMessage {
 	id: string;
+	isStreaming?: boolean; // Text is still growing; re-render at most every RENDER_THROTTLE_MS
+	citations?: Citation[];
+	plan?: PlanPreview;
+	model?: string; // Model that wrote the answer, and any others that worked on it
+}
+
+// Markdown rendering is too slow to repeat on every streamed token
+const RENDER_THROTTLE_MS = 150;
+
+// "[3]" citation markers, but not wikilinks or Markdown links. Inline code
+// spans match first so the markers inside them are left alone.
+const CITATION_MARKER_REGEX = /(`+).+?\1|(?<!\[)\[(\d+)\](?![([])/g;
+
+// Opening or closing line of a fenced code block
+const CODE_FENCE_REGEX = /^ {0,3}(`{3,}|~{3,})/;
+
+/**
+ * Turn the answer's citation markers into chips the click handler can find,
+ * leaving code blocks and inline code as written
+ */
+function renderCitationMarkers(text: string, citations: Citation[] | undefined): string {
+	if (!citations?.length) return text;
+	const indexes = new Set(citations.map((citation) => citation.index));
+	let fence: string | null = null;
+	return text
+		.split("\n")
+		.map((line) => {
+			const fenceMatch = line.match(CODE_FENCE_REGEX);
+			if (fence) {
+				// A fence closes with at least as many of the same characters and nothing else
+				if (fenceMatch?.[1].startsWith(fence) && !line.trim().replace(/[`~]/g, "")) {
+					fence = null;
+				}
+				return line;
+			}
+			if (fenceMatch) {
+				fence = fenceMatch[1];
+				return line;
+			}
+			return line.replace(CITATION_MARKER_REGEX, (match, _code, index?: string) =>
+				index && indexes.has(parseInt(index, 10))
+					? `<sup class="citation-chip" data-citation="${index}">${index}</sup>`
+					: match
+			);
+		})
+		.join("\n");
+}
+
+function describeCitation(citation: Citation): string {
+	const lines = citation.startLine ? `, lines ${citation.startLine}-${citation.endLine}` : "";
+	return `${citation.path}${lines} (score ${citation.score.toFixed(2)})\n\n${citation.snippet}`;
 }
 
 interface MessageRendererProps {
@@ -19,13 +71,30 @@ function MessageRenderer({
 	plugin,
 }: MessageRendererProps) {
 	const messageRef = useRef<HTMLDivElement>(null);
+	const [renderedText, setRenderedText] = useState(message.text);
+	const lastRenderRef = useRef(0);
+
+	// Follow the message text, throttled while it streams
+	useEffect(() => {
+		const wait = RENDER_THROTTLE_MS - (Date.now() - lastRenderRef.current);
+		if (!message.isStreaming || wait <= 0) {
+			lastRenderRef.current = Date.now();
+			setRenderedText(message.text);
+			return;
+		}
+		const timer = window.setTimeout(() => {
+			lastRenderRef.current = Date.now();
+			setRenderedText(message.text);
+		}, wait);
+		return () => window.clearTimeout(timer);
+	}, [message.text, message.isStreaming]);
 
 	useEffect(() => {
 		if (messageRef.current) {
 			messageRef.current.innerHTML = "";
 			MarkdownRenderer.render(
 				app,
-				message.text,
+				renderCitationMarkers(renderedText, message.citations),
 				messageRef.current,
 				plugin.manifest.dir || "",
 				plugin as any
@@ -35,10 +104,28 @@ function MessageRenderer({
 			const internalLinks =
 				messageRef.current.querySelectorAll("a.internal-link");
 			const clickHandlers: Array<{
-				element: HTMLAnchorElement;
+				element: HTMLElement;
 				handler: (e: Event) => void;
 			}> = [];
 
+			// Citation chips jump to the cited lines
+			messageRef.current
+				.querySelectorAll<HTMLElement>(".citation-chip[data-citation]")
+				.forEach((chip) => {
+					const citation = message.citations?.find(
+						(c) => c.index === parseInt(chip.dataset.citation || "", 10)
+					);
+					if (!citation) return;
+					chip.setAttribute("title", describeCitation(citation));
+					chip.setAttribute("tabindex", "0");
+					const clickHandler = (e: Event) => {
+						e.preventDefault();
+						void openNoteAtLines(app, citation.path, citation.startLine, citation.endLine);
+					};
+					chip.addEventListener("click", clickHandler);
+					clickHandlers.push({ element: chip, handler: clickHandler });
+				});
+
 			internalLinks.forEach((link) => {
 				const anchor = link as HTMLAnchorElement;
 				if (!anchor.hasAttribute("tabindex")) {
@@ -82,9 +169,34 @@ function MessageRenderer({
 		}
 		// Return empty cleanup function if messageRef.current is falsy
 		return () => {};
-	}, [message.text, app, plugin]);
+	}, [renderedText, message.citations, app, plugin]);
 
-	return <div ref={messageRef} className="markdown-rendered-content selectable-text" />;
+	return (
+		<>
+			<div ref={messageRef} className="markdown-rendered-content selectable-text" />
+			{/* Numbered sources below the answer */}
+			{!message.isStreaming && message.citations && message.citations.length > 0 && (
+				<div className="flex flex-wrap gap-1 mt-2" aria-label="Sources">
+					{message.citations.map((citation) => (
+						<button
+							key={citation.index}
+							className="citation-source"
+							title={describeCitation(citation)}
+							onClick={() =>
+								openNoteAtLines(app, citation.path, citation.startLine, citation.endLine)
+							}
+						>
+							<span className="citation-chip">{citation.index}</span>
+							<span className="truncate">
+								{citation.path.split("/").pop()?.replace(/\.md$/, "")}
+								{citation.heading ? ` › ${citation.heading}` : ""}
+							</span>
+						</button>
+					))}
+				</div>
+			)}
+		</>
+	);
 }
 
 export { MessageRenderer, type DisplayMessage };
@@ -0,0 +1,189 @@
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { ListChecks, Play, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { PlanEdits, PlanPreview, PlanPreviewTask } from "../../types";
+
+interface PlanPreviewCardProps {
+	plan: PlanPreview;
+	onRun: (edits: PlanEdits) => void;
+	onResume?: () => void;
+	onCancel?: () => void;
+	disabled?: boolean;
+}
+
+const MODES: PlanPreview["mode"][] = ["sequential", "parallel"];
+
+const STATUS_LABELS: Record<PlanPreview["status"], string> = {
+	pending: "",
+	running: "Running...",
+	completed: "Plan ran.",
+	failed: "Plan failed.",
+	interrupted: "",
+	cancelled: "Plan cancelled.",
+};
+
+const TASK_STATUS_LABELS: Partial<Record<NonNullable<PlanPreviewTask["status"]>, string>> = {
+	completed: "done",
+	failed: "failed",
+	cancelled: "cancelled",
+	skipped: "skipped",
+};
+
+/**
+ * A task and every task reachable from it through links, e.g. all the tasks
+ * that depend on it, directly or not
+ */
+function collectLinked(taskId: string, linksOf: (id: string) => string[]): string[] {
+	const seen = new Set([taskId]);
+	const queue = [taskId];
+	while (queue.length > 0) {
+		for (const id of linksOf(queue.shift() as string)) {
+			if (seen.has(id)) continue;
+			seen.add(id);
+			queue.push(id);
+		}
+	}
+	return [...seen];
+}
+
+/**
+ * A plan awaiting review: the user unticks tasks, picks the execution mode
+ * and runs exactly this plan. A plan interrupted by a reload is offered
+ * for resume or cancellation instead.
+ */
+function PlanPreviewCard({ plan, onRun, onResume = () => {}, onCancel = () => {}, disabled = false }: PlanPreviewCardProps) {
+	const [selectedIds, setSelectedIds] = useState<Set<string>>(
+		() => new Set(plan.selectedTaskIds ?? plan.tasks.map((task) => task.id))
+	);
+	const [mode, setMode] = useState<PlanPreview["mode"]>(plan.mode);
+	const isEditable = plan.status === "pending" && !disabled;
+
+	// Unticking a task unticks the tasks that need it; ticking one ticks the tasks it needs
+	const dependenciesOf = (id: string) => plan.tasks.find((task) => task.id === id)?.dependencies || [];
+	const dependentsOf = (id: string) =>
+		plan.tasks.filter((task) => task.dependencies.includes(id)).map((task) => task.id);
+	const toggleTask = (taskId: string) => {
+		setSelectedIds((prev) => {
+			const next = new Set(prev);
+			if (next.has(taskId)) {
+				collectLinked(taskId, dependentsOf).forEach((id) => next.delete(id));
+			} else {
+				collectLinked(taskId, dependenciesOf).forEach((id) => next.add(id));
+			}
+			return next;
+		});
+	};
+
+	const taskNumbers = new Map(plan.tasks.map((task, index) => [task.id, index + 1]));
+	const selectedTasks = plan.tasks.filter((task) => selectedIds.has(task.id));
+	const estimatedMinutes = selectedTasks.reduce((sum, task) => sum + (task.estimatedDuration || 0), 0);
+	const completedCount = plan.tasks.filter((task) => task.status === "completed").length;
+
+	return (
+		<div className="mt-2 rounded-md border border-border px-3 py-2" role="group" aria-label={`Plan: ${plan.name}`}>
+			<div className="flex items-center gap-2 text-sm font-medium">
+				<ListChecks className="h-4 w-4 shrink-0" />
+				<span className="truncate">{plan.name}</span>
+			</div>
+			{plan.description && <p className="mt-1 mb-2 text-xs text-muted-foreground">{plan.description}</p>}
+
+			<ol className="m-0 p-0 list-none space-y-1">
+				{plan.tasks.map((task, index) => {
+					const dependencies = task.dependencies
+						.map((id) => taskNumbers.get(id))
+						.filter((number): number is number => number !== undefined);
+
+					return (
+						<li key={task.id} className="flex items-start gap-2 text-xs">
+							<input
+								type="checkbox"
+								className="mt-0.5"
+								checked={selectedIds.has(task.id)}
+								onChange={() => toggleTask(task.id)}
+								disabled={!isEditable}
+								aria-label={`Run task ${index + 1}`}
+							/>
+							<div className={cn("min-w-0", !selectedIds.has(task.id) && "line-through opacity-60")}>
+								<div>
+									{index + 1}. {task.description}
+								</div>
+								<div className="text-muted-foreground">
+									{[
+										plan.status === "interrupted" && task.status ? TASK_STATUS_LABELS[task.status] : null,
+										task.agentId,
+										`${task.riskLevel} risk`,
+										task.estimatedDuration ? `~${task.estimatedDuration} min` : null,
+										dependencies.length > 0 ? `after ${dependencies.join(", ")}` : null,
+									]
+										.filter(Boolean)
+										.join(" · ")}
+								</div>
+							</div>
+						</li>
+					);
+				})}
+			</ol>
+
+			<div className="mt-2 flex flex-wrap items-center gap-2">
+				{MODES.map((option) => (
+					<Button
+						key={option}
+						variant={mode === option ? "default" : "ghost"}
+						size="sm"
+						onClick={() => setMode(option)}
+						disabled={!isEditable}
+						aria-pressed={mode === option}
+					>
+						{option === "sequential" ? "Sequential" : "Parallel"}
+					</Button>
+				))}
+				<span className="flex-1 text-xs text-muted-foreground">
+					{plan.status === "interrupted"
+						? `Interrupted after ${completedCount} of ${plan.tasks.length} tasks`
+						: `${selectedTasks.length} of ${plan.tasks.length} tasks`}
+					{estimatedMinutes > 0 && plan.status !== "interrupted" ? `, ~${estimatedMinutes} min` : ""}
+				</span>
+				{plan.status === "interrupted" ? (
+					<>
+						<Button
+							variant="ghost"
+							size="sm"
+							onClick={onCancel}
+							disabled={disabled}
+							title="Cancel the plan's remaining tasks"
+						>
+							<X className="h-3 w-3 mr-1" />
+							Cancel
+						</Button>
+						<Button
+							size="sm"
+							onClick={onResume}
+							disabled={disabled}
+							title="Run the tasks that didn't complete"
+						>
+							<Play className="h-3 w-3 mr-1" />
+							Resume
+						</Button>
+					</>
+				) : plan.status === "pending" ? (
+					<Button
+						size="sm"
+						onClick={() => onRun({ taskIds: selectedTasks.map((task) => task.id), mode })}
+						disabled={!isEditable || selectedTasks.length === 0}
+						title="Run the selected tasks"
+					>
+						<Play className="h-3 w-3 mr-1" />
+						Run
+					</Button>
+				) : (
+					<span className="text-xs text-muted-foreground" role="status">
+						{STATUS_LABELS[plan.status]}
+					</span>
+				)}
+			</div>
+		</div>
+	);
+}
+
+export default PlanPreviewCard;
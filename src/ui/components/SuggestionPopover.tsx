@@ -1,11 +1,11 @@
 import React from "react";
 import { TFile } from "obsidian";
-import { FilterSignature } from "../../filters";
+import { FilterOperator, FilterSignature } from "../../filters";
 import { cn } from "@/lib/utils";
 
 export interface SuggestionItem {
-	type: "filterType" | "filterValue" | "fileName";
-	data: FilterSignature | string | TFile;
+	type: "filterType" | "filterValue" | "fileName" | "operator";
+	data: FilterSignature | string | TFile | FilterOperator;
 	displayText: string;
 	description?: string;
 }
@@ -33,13 +33,14 @@ function SuggestionPopover({
 
 	const getSuggestionIcon = (suggestion: SuggestionItem) => {
 		switch (suggestion.type) {
-			case "filterType":
+			case "filterType": {
 				const filterData = suggestion.data as FilterSignature;
 				return (
 					<span className="text-base mr-2" role="img">
 						{filterData.emoji}
 					</span>
 				);
+			}
 			case "filterValue":
 				return (
 					<span className="text-muted-foreground mr-2">
@@ -52,6 +53,12 @@ function SuggestionPopover({
 						📄
 					</span>
 				);
+			case "operator":
+				return (
+					<span className="text-muted-foreground mr-2 font-mono">
+						{(suggestion.data as FilterOperator).symbol}
+					</span>
+				);
 			default:
 				return null;
 		}
@@ -65,6 +72,8 @@ function SuggestionPopover({
 				return "Value";
 			case "fileName":
 				return "File";
+			case "operator":
+				return suggestion.description || "Operator";
 			default:
 				return "";
 		}
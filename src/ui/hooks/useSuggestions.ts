@@ -1,13 +1,18 @@
-import { useState, useCallback, useEffect } from "react";
+import { useState, useCallback } from "react";
 import { TFile, App } from "obsidian";
-import { AVAILABLE_FILTERS, FilterSignature } from "../../filters";
+import {
+	AVAILABLE_FILTERS,
+	FILTER_OPERATORS,
+	FilterSignature,
+	findFilterByEmoji,
+} from "../../filters";
 import { SuggestionItem } from "../components/SuggestionPopover";
 
 interface SuggestionState {
 	isVisible: boolean;
 	suggestions: SuggestionItem[];
 	activeSuggestionIndex: number;
-	mode: "filterType" | "filterValue" | "fileName" | null;
+	mode: "filterType" | "filterValue" | "fileName" | "operator" | null;
 	selectedFilterType: FilterSignature | null;
 	queryInfo: {
 		query: string;
@@ -16,6 +21,30 @@ interface SuggestionState {
 	} | null;
 }
 
+// An emoji filter with its value, e.g. 🏷️{meeting}
+const FILTER_REGEX = /\p{Extended_Pictographic}\uFE0F?\{[^}]*\}/u;
+const TRAILING_FILTER_REGEX = /\p{Extended_Pictographic}\uFE0F?\{[^}]*\}$/u;
+
+/**
+ * Whether the text ends in filter syntax the parser reads as such: an emoji
+ * filter, a group holding one, or AND/OR following either
+ */
+function endsFilterRegion(text: string): boolean {
+	const trimmed = text.trimEnd();
+	const operator = trimmed.match(/\b(?:AND|OR)$/);
+	if (operator) return endsFilterRegion(trimmed.slice(0, -operator[0].length));
+	if (TRAILING_FILTER_REGEX.test(trimmed)) return true;
+	if (!trimmed.endsWith(")")) return false;
+
+	// Find the group's opening parenthesis
+	let depth = 0;
+	for (let i = trimmed.length - 1; i >= 0; i--) {
+		if (trimmed[i] === ")") depth++;
+		else if (trimmed[i] === "(" && --depth === 0) return FILTER_REGEX.test(trimmed.slice(i));
+	}
+	return false;
+}
+
 interface UseSuggestionsProps {
 	app: App;
 	onSuggestionSelect: (suggestion: SuggestionItem, queryInfo: SuggestionState["queryInfo"]) => void;
@@ -33,7 +62,7 @@ export const useSuggestions = ({ app, onSuggestionSelect }: UseSuggestionsProps)
 
 	// Get file suggestions
 	const getFileSuggestions = useCallback(
-		(query: string = ""): TFile[] => {
+		(query = ""): TFile[] => {
 			const allFiles = app.vault
 				.getFiles()
 				.filter((file) => file.extension === "md");
@@ -50,8 +79,8 @@ export const useSuggestions = ({ app, onSuggestionSelect }: UseSuggestionsProps)
 				)
 				.sort((a, b) => {
 					// Prioritize files that start with the query
-					const aStarts = file.basename.toLowerCase().startsWith(query.toLowerCase());
-					const bStarts = file.basename.toLowerCase().startsWith(query.toLowerCase());
+					const aStarts = a.basename.toLowerCase().startsWith(query.toLowerCase());
+					const bStarts = b.basename.toLowerCase().startsWith(query.toLowerCase());
 					if (aStarts && !bStarts) return -1;
 					if (!aStarts && bStarts) return 1;
 					return b.stat.ctime - a.stat.ctime;
@@ -110,18 +139,27 @@ export const useSuggestions = ({ app, onSuggestionSelect }: UseSuggestionsProps)
 		[getFileSuggestions]
 	);
 
-	// Show filter value suggestions
+	// Show filter value suggestions: fixed values first, then values from the vault
 	const showFilterValueSuggestions = useCallback(
 		(filterSig: FilterSignature, query: string, startPos: number, endPos: number) => {
-			const suggestions = Object.entries(filterSig.valueSuggestions)
+			const lowerQuery = query.toLowerCase();
+			const fixedSuggestions = Object.entries(filterSig.valueSuggestions)
 				.filter(([displayText]) =>
-					displayText.toLowerCase().includes(query.toLowerCase())
+					displayText.toLowerCase().includes(lowerQuery)
 				)
 				.map(([displayText, getValue]) => ({
 					type: "filterValue" as const,
 					displayText,
 					data: getValue(),
 				}));
+			const vaultSuggestions = (filterSig.valueSource?.(app) || [])
+				.filter((value) => value.toLowerCase().includes(lowerQuery))
+				.map((value) => ({
+					type: "filterValue" as const,
+					displayText: value,
+					data: value,
+				}));
+			const suggestions = [...fixedSuggestions, ...vaultSuggestions].slice(0, 10);
 
 			setState({
 				isVisible: suggestions.length > 0,
@@ -132,6 +170,34 @@ export const useSuggestions = ({ app, onSuggestionSelect }: UseSuggestionsProps)
 				queryInfo: { query, startPos, endPos },
 			});
 		},
+		[app]
+	);
+
+	// Show boolean operator suggestions after a filter, group or operator
+	const showOperatorSuggestions = useCallback(
+		(query: string, afterOperator: boolean, startPos: number, endPos: number): boolean => {
+			const suggestions = FILTER_OPERATORS.filter(
+				(operator) =>
+					(!afterOperator || operator.followsOperator) &&
+					operator.keyword.startsWith(query)
+			).map((operator) => ({
+				type: "operator" as const,
+				data: operator,
+				displayText: operator.keyword === "(" ? "( … )" : operator.keyword,
+				description: operator.description,
+			}));
+			if (suggestions.length === 0) return false;
+
+			setState({
+				isVisible: true,
+				suggestions,
+				activeSuggestionIndex: 0,
+				mode: "operator",
+				selectedFilterType: null,
+				queryInfo: { query, startPos, endPos },
+			});
+			return true;
+		},
 		[]
 	);
 
@@ -217,7 +283,7 @@ export const useSuggestions = ({ app, onSuggestionSelect }: UseSuggestionsProps)
 			if (braceMatch) {
 				const emoji = braceMatch[1];
 				const valueQuery = braceMatch[2];
-				const filterSig = AVAILABLE_FILTERS.find(f => f.emoji === emoji);
+				const filterSig = findFilterByEmoji(emoji);
 				
 				if (filterSig) {
 					const startPos = cursorPos - valueQuery.length;
@@ -226,6 +292,18 @@ export const useSuggestions = ({ app, onSuggestionSelect }: UseSuggestionsProps)
 				}
 			}
 
+			// Check for an operator after a filter, a group or another operator. The
+			// parser only reads upper-case operators next to filters, so plain text
+			// like "(see above) and" gets no operator suggestions
+			const operatorMatch = textBeforeCursor.match(/(\}|\)|\b(?:AND|OR))\s+([A-Z]*)$/);
+			if (operatorMatch && endsFilterRegion(textBeforeCursor.slice(0, cursorPos - operatorMatch[2].length))) {
+				const query = operatorMatch[2];
+				const afterOperator = operatorMatch[1] !== "}" && operatorMatch[1] !== ")";
+				if (showOperatorSuggestions(query, afterOperator, cursorPos - query.length, cursorPos)) {
+					return;
+				}
+			}
+
 			// Check for filter keyword input
 			const wordMatch = textBeforeCursor.match(/(\w+)$/);
 			if (wordMatch) {
@@ -240,7 +318,13 @@ export const useSuggestions = ({ app, onSuggestionSelect }: UseSuggestionsProps)
 			// Hide suggestions if no match
 			hideSuggestions();
 		},
-		[showFileSuggestions, showFilterValueSuggestions, showFilterTypeSuggestions, hideSuggestions]
+		[
+			showFileSuggestions,
+			showFilterValueSuggestions,
+			showOperatorSuggestions,
+			showFilterTypeSuggestions,
+			hideSuggestions,
+		]
 	);
 
 	return {